@@ -7,12 +7,49 @@ import {Command} from 'commander';
 import process from 'node:process';
 import path from 'node:path';
 
+export type CLISubcommand =
+	| {
+			name: 'search';
+			query: string;
+			global: boolean;
+			limit: number;
+	  }
+	| {
+			name: 'export';
+			sessionId?: string;
+			format: string;
+			output?: string;
+			raw: boolean;
+	  }
+	| {
+			name: 'import';
+			file: string;
+			skipInvalid: boolean;
+	  }
+	| {
+			name: 'sessions-list';
+			all: boolean;
+			clean: boolean;
+	  }
+	| {
+			name: 'sessions-prune';
+			dryRun: boolean;
+			maxAgeDays?: number;
+			maxSessions?: number;
+	  }
+	| {
+			name: 'config-encrypt';
+			keyFile?: string;
+	  };
+
 export interface CLIOptions {
 	query?: string;
 	model?: string;
 	workDir?: string;
 	continue?: boolean;
+	resume?: string | boolean; // Session ID/prefix, or true to pick interactively
 	setup?: boolean;
+	command?: CLISubcommand; // Set when a subcommand (e.g., `search`) was invoked
 }
 
 export function parseCLIArguments(): CLIOptions {
@@ -30,7 +67,116 @@ export function parseCLIArguments(): CLIOptions {
 			process.cwd(),
 		)
 		.option('-C, --continue', 'Continue previous conversation in current directory')
-		.option('--setup', 'Run setup wizard to configure YOLO CLI');
+		.option(
+			'-r, --resume [sessionId]',
+			'Resume a session by ID or prefix (omit to pick from recent sessions)',
+		)
+		.option('--setup', 'Run setup wizard to configure YOLO CLI')
+		.action(() => {
+			// Interactive mode - handled by the caller
+		});
+
+	let command: CLISubcommand | undefined;
+
+	program
+		.command('search')
+		.description('Search stored conversations in this directory')
+		.argument('<query...>', 'Search terms')
+		.option('-g, --global', 'Search every directory YOLO CLI has been used in')
+		.option('-n, --limit <count>', 'Maximum number of results', '20')
+		.action((queryParts: string[], commandOptions: {global?: boolean; limit: string}) => {
+			command = {
+				name: 'search',
+				query: queryParts.join(' '),
+				global: commandOptions.global ?? false,
+				limit: Number.parseInt(commandOptions.limit, 10) || 20,
+			};
+		});
+
+	program
+		.command('export')
+		.description('Export a session to Markdown, HTML or JSON')
+		.option('-s, --session <sessionId>', 'Session ID or prefix (default: current session)')
+		.option('-f, --format <format>', 'Output format: md, html or json', 'md')
+		.option('-o, --output <path>', 'Output file path, or - for stdout')
+		.option('--raw', 'Include messages replaced by /compact')
+		.action(
+			(commandOptions: {
+				session?: string;
+				format: string;
+				output?: string;
+				raw?: boolean;
+			}) => {
+				command = {
+					name: 'export',
+					sessionId: commandOptions.session,
+					format: commandOptions.format,
+					output: commandOptions.output,
+					raw: commandOptions.raw ?? false,
+				};
+			},
+		);
+
+	program
+		.command('import')
+		.description('Import a yolo JSON export or OpenAI-style messages array as a new session')
+		.argument('<file>', 'JSON file to import')
+		.option('--skip-invalid', 'Skip messages that cannot be repaired instead of aborting')
+		.action((file: string, commandOptions: {skipInvalid?: boolean}) => {
+			command = {
+				name: 'import',
+				file,
+				skipInvalid: commandOptions.skipInvalid ?? false,
+			};
+		});
+
+	const sessions = program
+		.command('sessions')
+		.description('List and maintain stored sessions')
+		.option('-a, --all', 'List sessions of every directory YOLO CLI has been used in')
+		.option('--clean', 'Forget indexed sessions whose directory was moved or deleted')
+		.action((commandOptions: {all?: boolean; clean?: boolean}) => {
+			command = {
+				name: 'sessions-list',
+				all: commandOptions.all ?? false,
+				clean: commandOptions.clean ?? false,
+			};
+		});
+
+	sessions
+		.command('prune')
+		.description(
+			'Trim sessions to historyLimit, delete old sessions and remove orphaned files',
+		)
+		.option('--dry-run', 'Show what would be pruned without changing anything')
+		.option('--max-age <days>', 'Delete sessions inactive for more than this many days')
+		.option('--max-sessions <count>', 'Keep at most this many sessions')
+		.action(
+			(commandOptions: {dryRun?: boolean; maxAge?: string; maxSessions?: string}) => {
+				command = {
+					name: 'sessions-prune',
+					dryRun: commandOptions.dryRun ?? false,
+					maxAgeDays: commandOptions.maxAge
+						? Number.parseFloat(commandOptions.maxAge)
+						: undefined,
+					maxSessions: commandOptions.maxSessions
+						? Number.parseInt(commandOptions.maxSessions, 10)
+						: undefined,
+				};
+			},
+		);
+
+	program
+		.command('config')
+		.description('Manage the YOLO CLI configuration')
+		.command('encrypt')
+		.description(
+			'Encrypt the API key and stored history at rest (key from YOLO_PASSPHRASE or --key-file)',
+		)
+		.option('--key-file <path>', 'Derive the encryption key from this file')
+		.action((commandOptions: {keyFile?: string}) => {
+			command = {name: 'config-encrypt', keyFile: commandOptions.keyFile};
+		});
 
 	program.parse();
 
@@ -41,6 +187,8 @@ export function parseCLIArguments(): CLIOptions {
 		model: options.model,
 		workDir: path.resolve(options.workDir || process.cwd()),
 		continue: options.continue ?? false,
+		resume: options.resume,
 		setup: options.setup ?? false,
+		command,
 	};
 }
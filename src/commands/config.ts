@@ -0,0 +1,65 @@
+/**
+ * `yolo config` subcommands - manage the configuration from the shell
+ */
+
+import chalk from 'chalk';
+import {
+	enableEncryption,
+	encryptStoredHistory,
+	getConfig,
+} from '../services/config.js';
+import {KEY_FILE_ENV, PASSPHRASE_ENV} from '../utils/encryption.js';
+import {pluralize} from '../utils/formatting.js';
+
+export interface ConfigEncryptCommandOptions {
+	keyFile?: string; // Derive the key from this file instead of YOLO_PASSPHRASE
+}
+
+/**
+ * Enable encryption at rest and encrypt existing history; returns the process exit code
+ * Safe to rerun: history files written before encryption was enabled are
+ * encrypted, already encrypted ones are left alone.
+ */
+export async function runConfigEncryptCommand(
+	workingDirectory: string,
+	options: ConfigEncryptCommandOptions,
+): Promise<number> {
+	const config = await getConfig();
+	if (!config) {
+		console.error('No configuration found. Run yolo --setup first.');
+		return 1;
+	}
+
+	if (config.encryption) {
+		if (options.keyFile) {
+			console.error('Encryption is already enabled; --key-file cannot change the key');
+			return 1;
+		}
+
+		console.log(chalk.dim('Encryption is already enabled'));
+	} else {
+		if (!options.keyFile && !process.env[PASSPHRASE_ENV] && !process.env[KEY_FILE_ENV]) {
+			console.error(`Set ${PASSPHRASE_ENV} or pass --key-file <path> to choose the key`);
+			return 1;
+		}
+
+		await enableEncryption(config, options.keyFile);
+		console.log(chalk.green('Encrypted the API key in config.json'));
+	}
+
+	const {historyFiles, checkpoints, sessionMetadataFiles} =
+		await encryptStoredHistory(workingDirectory);
+	console.log(
+		chalk.green(
+			`Encrypted ${historyFiles} history ${pluralize('file', historyFiles)}, ${checkpoints} ${pluralize('checkpoint', checkpoints)} and the session titles of ${sessionMetadataFiles} ${sessionMetadataFiles === 1 ? 'directory' : 'directories'}`,
+		),
+	);
+	console.log(
+		chalk.cyan(
+			options.keyFile || config.encryption?.keyFile
+				? `Keep the key file safe: without it your history cannot be read (override its path with ${KEY_FILE_ENV})`
+				: `Set ${PASSPHRASE_ENV} to the same passphrase whenever you run yolo`,
+		),
+	);
+	return 0;
+}
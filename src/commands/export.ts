@@ -0,0 +1,66 @@
+/**
+ * `yolo export` subcommand - write a session transcript to a file or stdout
+ */
+
+import path from 'node:path';
+import process from 'node:process';
+import {
+	exportSession,
+	parseExportFormat,
+	renderSession,
+} from '../services/export.js';
+import {loadSessionById, resolveSessionId} from '../services/session.js';
+import {loadSessionMetadata} from '../utils/storage.js';
+
+export interface ExportCommandOptions {
+	sessionId?: string;
+	format: string;
+	output?: string;
+	raw: boolean; // Ignore compactions and export every stored message
+}
+
+/**
+ * Export a session; returns the process exit code
+ */
+export async function runExportCommand(
+	workingDirectory: string,
+	options: ExportCommandOptions,
+): Promise<number> {
+	const format = parseExportFormat(options.format);
+	if (!format) {
+		console.error(`Unknown export format: ${options.format} (use md, html or json)`);
+		return 1;
+	}
+
+	const metadata = await loadSessionMetadata(workingDirectory);
+	const sessionId = options.sessionId
+		? await resolveSessionId(workingDirectory, options.sessionId)
+		: metadata?.currentSessionId;
+
+	if (!sessionId) {
+		console.error(`No sessions found in ${workingDirectory}`);
+		return 1;
+	}
+
+	const session = await loadSessionById(workingDirectory, sessionId, {
+		raw: options.raw,
+	});
+	if (!session) {
+		console.error(`Session not found: ${sessionId}`);
+		return 1;
+	}
+
+	if (options.output === '-') {
+		const sessionInfo = metadata?.sessions.find(s => s.id === sessionId);
+		process.stdout.write(renderSession(session, format, sessionInfo));
+		return 0;
+	}
+
+	const writtenPath = await exportSession(
+		session,
+		format,
+		options.output ? path.resolve(options.output) : undefined,
+	);
+	console.log(`Exported ${session.messages.length} messages to ${writtenPath}`);
+	return 0;
+}
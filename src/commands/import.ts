@@ -0,0 +1,57 @@
+/**
+ * `yolo import` subcommand - create a session from an exported conversation
+ */
+
+import path from 'node:path';
+import chalk from 'chalk';
+import {importConversation} from '../services/import.js';
+
+export interface ImportCommandOptions {
+	file: string;
+	skipInvalid: boolean;
+}
+
+/**
+ * Import a conversation file and print what was repaired; returns the process exit code
+ */
+export async function runImportCommand(
+	workingDirectory: string,
+	options: ImportCommandOptions,
+): Promise<number> {
+	const {session, report} = await importConversation(
+		workingDirectory,
+		path.resolve(options.file),
+		{skipInvalid: options.skipInvalid},
+	);
+
+	console.log(
+		chalk.dim(
+			`Source: ${report.source === 'yolo-export' ? 'yolo JSON export' : 'OpenAI messages'}`,
+		),
+	);
+
+	for (const repair of report.repairs) {
+		console.log(chalk.yellow(`  repaired: ${repair}`));
+	}
+
+	for (const error of report.errors) {
+		console.log(chalk.red(`  ${session ? 'skipped' : 'error'}: ${error}`));
+	}
+
+	if (!session) {
+		console.error(
+			options.skipInvalid
+				? 'Import aborted.'
+				: 'Import aborted. Re-run with --skip-invalid to drop messages that cannot be repaired.',
+		);
+		return 1;
+	}
+
+	console.log(
+		chalk.green(
+			`Imported ${report.importedCount} messages into session ${session.id}`,
+		),
+	);
+	console.log(chalk.cyan('  yolo --continue'));
+	return 0;
+}
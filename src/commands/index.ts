@@ -0,0 +1,51 @@
+/**
+ * Non-interactive CLI subcommand dispatch
+ */
+
+import type {CLISubcommand} from '../cli.js';
+import {runSearchCommand} from './search.js';
+import {runExportCommand} from './export.js';
+import {runImportCommand} from './import.js';
+import {runSessionsListCommand, runSessionsPruneCommand} from './sessions.js';
+import {runConfigEncryptCommand} from './config.js';
+
+/**
+ * Run a parsed subcommand; returns the process exit code
+ */
+export async function runSubcommand(
+	workingDirectory: string,
+	command: CLISubcommand,
+): Promise<number> {
+	try {
+		switch (command.name) {
+			case 'search': {
+				return await runSearchCommand(workingDirectory, command);
+			}
+
+			case 'export': {
+				return await runExportCommand(workingDirectory, command);
+			}
+
+			case 'import': {
+				return await runImportCommand(workingDirectory, command);
+			}
+
+			case 'sessions-list': {
+				return await runSessionsListCommand(workingDirectory, command);
+			}
+
+			case 'sessions-prune': {
+				return await runSessionsPruneCommand(workingDirectory, command);
+			}
+
+			case 'config-encrypt': {
+				return await runConfigEncryptCommand(workingDirectory, command);
+			}
+		}
+	} catch (error) {
+		console.error(
+			`Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+		);
+		return 1;
+	}
+}
@@ -0,0 +1,59 @@
+/**
+ * `yolo search` subcommand - search stored conversations from the shell
+ */
+
+import chalk from 'chalk';
+import {searchSessions} from '../services/search.js';
+import {formatDateTime, truncate} from '../utils/formatting.js';
+
+export interface SearchCommandOptions {
+	query: string;
+	global: boolean;
+	limit: number;
+}
+
+/**
+ * Print ranked search hits; returns the process exit code
+ */
+export async function runSearchCommand(
+	workingDirectory: string,
+	options: SearchCommandOptions,
+): Promise<number> {
+	const hits = await searchSessions(workingDirectory, options.query, {
+		global: options.global,
+		limit: options.limit,
+		onSkip(directory, reason) {
+			console.warn(chalk.yellow(`Skipped ${directory}: ${reason}`));
+		},
+	});
+
+	if (hits.length === 0) {
+		console.log(`No matches for "${options.query}"`);
+		return 1;
+	}
+
+	for (const hit of hits) {
+		const sessionPrefix = hit.sessionId.slice(0, 8);
+		console.log(
+			`${chalk.bold(truncate(hit.sessionTitle ?? 'Untitled', 60))} ${chalk.dim(
+				`· ${hit.role} · ${formatDateTime(hit.timestamp)}`,
+			)}`,
+		);
+		console.log(chalk.dim(`  session ${hit.sessionId} · message ${hit.messageId}`));
+		if (hit.workingDirectory !== workingDirectory) {
+			console.log(chalk.magenta(`  ${hit.workingDirectory}`));
+		}
+
+		console.log(`  ${hit.snippet}`);
+		console.log(
+			chalk.cyan(
+				hit.workingDirectory === workingDirectory
+					? `  yolo --resume ${sessionPrefix}`
+					: `  cd ${hit.workingDirectory} && yolo --resume ${sessionPrefix}`,
+			),
+		);
+		console.log();
+	}
+
+	return 0;
+}
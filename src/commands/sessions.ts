@@ -0,0 +1,176 @@
+/**
+ * `yolo sessions` subcommands - list and maintain stored sessions from the shell
+ */
+
+import chalk from 'chalk';
+import type {IndexedSession, RetentionPolicy} from '../types/index.js';
+import {DEFAULT_PREFERENCES} from '../types/index.js';
+import {getConfig} from '../services/config.js';
+import {
+	getRetentionPolicy,
+	pruneSessions,
+	summarizePruneReport,
+} from '../services/retention.js';
+import {
+	listIndexedSessions,
+	listSessions,
+	pruneSessionIndex,
+} from '../services/session.js';
+import {
+	formatDateTime,
+	formatMessageCount,
+	pluralize,
+	truncate,
+} from '../utils/formatting.js';
+
+export interface SessionsListCommandOptions {
+	all: boolean; // List every indexed working directory, not just this one
+	clean: boolean; // Drop index entries of moved or deleted sessions first
+}
+
+export interface SessionsPruneCommandOptions {
+	dryRun: boolean;
+	maxAgeDays?: number; // Overrides preferences.sessionMaxAgeDays
+	maxSessions?: number; // Overrides preferences.maxSessions
+}
+
+/**
+ * Print stored sessions, most recently active first; returns the process exit code
+ */
+export async function runSessionsListCommand(
+	workingDirectory: string,
+	options: SessionsListCommandOptions,
+): Promise<number> {
+	if (options.clean) {
+		const removed = await pruneSessionIndex();
+		console.log(
+			chalk.green(
+				`Removed ${removed} moved or deleted ${pluralize('session', removed)} from the index`,
+			),
+		);
+	}
+
+	const sessions: IndexedSession[] = options.all
+		? await listIndexedSessions()
+		: (await listSessions(workingDirectory)).map(sessionInfo => ({
+				sessionId: sessionInfo.id,
+				workingDirectory,
+				title: sessionInfo.title,
+				lastActivity: sessionInfo.lastActivity,
+				messageCount: sessionInfo.messageCount,
+				model: sessionInfo.model,
+				status: 'ok',
+			}));
+
+	if (sessions.length === 0) {
+		console.log(
+			options.all ? 'No sessions in the index' : 'No sessions in this directory',
+		);
+		return 0;
+	}
+
+	for (const session of sessions) {
+		const sessionPrefix = session.sessionId.slice(0, 8);
+		console.log(
+			`${chalk.bold(truncate(session.title ?? 'Untitled', 60))} ${chalk.dim(
+				`· ${formatMessageCount(session.messageCount)} · ${formatDateTime(session.lastActivity)}`,
+			)}`,
+		);
+		console.log(chalk.dim(`  session ${session.sessionId} · ${session.model}`));
+		if (options.all) {
+			console.log(chalk.magenta(`  ${session.workingDirectory}`));
+		}
+
+		if (session.movedFrom) {
+			console.log(chalk.dim(`  moved from ${session.movedFrom}`));
+		}
+
+		if (session.status === 'missing') {
+			console.log(chalk.yellow('  directory moved or deleted'));
+		} else if (session.status === 'stale') {
+			console.log(chalk.yellow('  session no longer stored in this directory'));
+		} else {
+			console.log(
+				chalk.cyan(
+					session.workingDirectory === workingDirectory
+						? `  yolo --resume ${sessionPrefix}`
+						: `  cd ${session.workingDirectory} && yolo --resume ${sessionPrefix}`,
+				),
+			);
+		}
+
+		console.log();
+	}
+
+	const gone = sessions.filter(s => s.status !== 'ok').length;
+	if (gone > 0) {
+		console.log(
+			chalk.dim(
+				`${gone} indexed ${pluralize('session', gone)} no longer found; run \`yolo sessions --all --clean\` to clean up the index`,
+			),
+		);
+	}
+
+	return 0;
+}
+
+/**
+ * Apply the retention policy and print what was pruned; returns the process exit code
+ */
+export async function runSessionsPruneCommand(
+	workingDirectory: string,
+	options: SessionsPruneCommandOptions,
+): Promise<number> {
+	for (const [flag, value] of [
+		['--max-age', options.maxAgeDays],
+		['--max-sessions', options.maxSessions],
+	] as const) {
+		if (value !== undefined && !(value >= 0)) {
+			console.error(`Invalid ${flag}: expected a non-negative number`);
+			return 1;
+		}
+	}
+
+	const config = await getConfig();
+	const configured: RetentionPolicy = config
+		? getRetentionPolicy(config)
+		: {historyLimit: DEFAULT_PREFERENCES.historyLimit};
+	const policy: RetentionPolicy = {
+		...configured,
+		maxAgeDays: options.maxAgeDays ?? configured.maxAgeDays,
+		maxSessions: options.maxSessions ?? configured.maxSessions,
+	};
+
+	const report = await pruneSessions(workingDirectory, policy, {
+		dryRun: options.dryRun,
+	});
+
+	for (const session of report.deletedSessions) {
+		console.log(
+			`${chalk.red('  delete')} ${session.id.slice(0, 8)} ${truncate(session.title ?? 'Untitled', 50)} ${chalk.dim(
+				session.reason === 'age'
+					? `(inactive > ${policy.maxAgeDays} days)`
+					: `(beyond ${policy.maxSessions} sessions)`,
+			)}`,
+		);
+	}
+
+	for (const session of report.trimmedSessions) {
+		console.log(
+			`${chalk.yellow('  trim')}   ${session.id.slice(0, 8)} ${chalk.dim(
+				`(${session.removedMessages} oldest messages over the limit of ${policy.historyLimit})`,
+			)}`,
+		);
+	}
+
+	for (const file of report.orphanedFiles) {
+		console.log(`${chalk.dim('  orphan')} ${file}`);
+	}
+
+	console.log(
+		(options.dryRun ? chalk.cyan : chalk.green)(
+			summarizePruneReport(report, options.dryRun),
+		),
+	);
+	return 0;
+}
@@ -4,12 +4,27 @@
 
 import React, {useState, useEffect} from 'react';
 import {Box, Text} from 'ink';
-import type {Configuration, Session, ErrorInfo} from '../types/index.js';
+import type {
+	Configuration,
+	Session,
+	ErrorInfo,
+	SessionInfo,
+} from '../types/index.js';
 import {getConfig} from '../services/config.js';
-import {createSession, loadSession} from '../services/session.js';
+import {
+	createSession,
+	loadCurrentSession,
+	prepareContinuedSession,
+	listSessions,
+	resolveSessionId,
+	switchSession,
+	migrateToMultiSession,
+	updateSessionModel,
+} from '../services/session.js';
 import {getEnabledModels, getCurrentModel} from '../services/config.js';
 import {SetupWizard} from './SetupWizard.js';
 import {ChatInterface} from './ChatInterface.js';
+import {SessionPicker} from './SessionPicker.js';
 import {McpConfigLoader} from '../utils/mcp-config.js';
 import {McpServerManager} from '../services/mcp.js';
 import type {LoadResult} from '../types/mcp.js';
@@ -17,6 +32,7 @@ import type {LoadResult} from '../types/mcp.js';
 export interface AppProps {
 	workingDirectory: string;
 	continueSession?: boolean;
+	resumeSession?: string | boolean;
 	query?: string;
 	modelId?: string;
 }
@@ -24,6 +40,7 @@ export interface AppProps {
 export function App({
 	workingDirectory,
 	continueSession = false,
+	resumeSession,
 	query,
 	modelId,
 }: AppProps) {
@@ -36,6 +53,24 @@ export function App({
 	);
 	const [mcpManager] = useState(() => new McpServerManager());
 	const [mcpLoadResult, setMcpLoadResult] = useState<LoadResult | null>(null);
+	const [resumeCandidates, setResumeCandidates] = useState<SessionInfo[] | null>(
+		null,
+	);
+	const [resolvedModelId, setResolvedModelId] = useState<string>('');
+
+	// Resumed sessions keep their model unless -m was given or it is no longer enabled
+	const applyStartupModel = (
+		resumed: Session,
+		loadedConfig: Configuration,
+		currentModelId: string,
+	): Session => {
+		const isEnabled = getEnabledModels(loadedConfig).some(
+			m => m.id === resumed.currentModel,
+		);
+		return modelId || !isEnabled
+			? updateSessionModel(resumed, currentModelId)
+			: resumed;
+	};
 
 	// Initialize app
 	useEffect(() => {
@@ -135,12 +170,48 @@ export function App({
 				// Load or create session
 				let newSession: Session;
 
-				if (continueSession) {
-					newSession = await loadSession(
+				if (resumeSession || continueSession) {
+					await migrateToMultiSession(workingDirectory);
+				}
+
+				if (typeof resumeSession === 'string') {
+					const sessionId = await resolveSessionId(
 						workingDirectory,
-						currentModelId,
+						resumeSession,
+					);
+					newSession = applyStartupModel(
+						await switchSession(workingDirectory, sessionId),
 						loadedConfig,
+						currentModelId,
 					);
+				} else if (resumeSession) {
+					// A picker would wait for input a scripted -q run never gives
+					if (query) {
+						throw new Error(
+							'--resume needs a session ID with -q (or use --continue)',
+						);
+					}
+
+					const sessions = (await listSessions(workingDirectory)).filter(
+						s => s.messageCount > 0,
+					);
+
+					if (sessions.length > 0) {
+						// Let the user pick; session is set once a choice is made
+						setResolvedModelId(currentModelId);
+						setResumeCandidates(sessions);
+						setMode('interactive');
+						setIsLoading(false);
+						return;
+					}
+
+					newSession = createSession(workingDirectory, currentModelId);
+				} else if (continueSession) {
+					const loaded = await loadCurrentSession(workingDirectory);
+					const current = loaded && prepareContinuedSession(loaded, loadedConfig);
+					newSession = current
+						? applyStartupModel(current, loadedConfig, currentModelId)
+						: createSession(workingDirectory, currentModelId);
 				} else {
 					newSession = createSession(workingDirectory, currentModelId);
 				}
@@ -166,7 +237,7 @@ export function App({
 		};
 
 		void initialize();
-	}, [workingDirectory, continueSession, query, modelId]);
+	}, [workingDirectory, continueSession, resumeSession, query, modelId]);
 
 	// Cleanup MCP servers on exit
 	useEffect(() => {
@@ -206,6 +277,30 @@ export function App({
 		}
 	};
 
+	// Handle startup session picker
+	const handleResumeSelect = async (sessionId: string) => {
+		if (!config) {
+			return;
+		}
+
+		try {
+			const resumed = await switchSession(workingDirectory, sessionId);
+			setSession(applyStartupModel(resumed, config, resolvedModelId));
+			setResumeCandidates(null);
+		} catch (error_) {
+			setError({
+				type: 'unknown',
+				message:
+					error_ instanceof Error ? error_.message : 'Failed to resume session',
+			});
+		}
+	};
+
+	const handleResumeCancel = () => {
+		setSession(createSession(workingDirectory, resolvedModelId));
+		setResumeCandidates(null);
+	};
+
 	if (isLoading) {
 		return (
 			<Box flexDirection="column">
@@ -226,6 +321,19 @@ export function App({
 		return <SetupWizard onComplete={handleConfigComplete} />;
 	}
 
+	if (resumeCandidates) {
+		return (
+			<Box flexDirection="column" padding={1}>
+				<SessionPicker
+					sessions={resumeCandidates}
+					title="Resume a session"
+					onSelect={handleResumeSelect}
+					onCancel={handleResumeCancel}
+				/>
+			</Box>
+		);
+	}
+
 	if (!config || !session) {
 		return (
 			<Box flexDirection="column">
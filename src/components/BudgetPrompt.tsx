@@ -0,0 +1,47 @@
+/**
+ * Prompt shown when a spending budget is reached, to extend it or stop
+ */
+
+import React, {type FC} from 'react';
+import {Box, Text, useInput} from 'ink';
+import type {BudgetExceeded} from '../types/index.js';
+import {describeBudgetExceeded, formatBudgetAmount} from '../services/cost.js';
+
+export interface BudgetPromptProps {
+	exceeded: BudgetExceeded;
+	onExtend: () => void;
+	onStop: () => void;
+}
+
+export const BudgetPrompt: FC<BudgetPromptProps> = ({exceeded, onExtend, onStop}) => {
+	useInput((input, key) => {
+		if (input.toLowerCase() === 'y') {
+			onExtend();
+		} else if (input.toLowerCase() === 'n' || key.escape || key.return) {
+			onStop();
+		}
+	});
+
+	return (
+		<Box borderStyle="round" borderColor="red" flexDirection="column" paddingX={1}>
+			<Text bold color="red">
+				💸 {describeBudgetExceeded(exceeded)}
+			</Text>
+			<Text> </Text>
+			<Text dimColor>
+				Limits are set under preferences.budget in config.json. Stopping keeps the
+				conversation as it is.
+			</Text>
+			<Text> </Text>
+			<Text>
+				Extend the {exceeded.scope} budget by{' '}
+				{formatBudgetAmount(exceeded.step, exceeded.unit)} and continue? (
+				<Text color="green">y</Text>/
+				<Text bold color="red">
+					N
+				</Text>
+				)
+			</Text>
+		</Box>
+	);
+};
@@ -3,29 +3,92 @@
  */
 
 import React, {useState, useEffect, useRef} from 'react';
+import path from 'node:path';
+import {randomUUID} from 'node:crypto';
 import {Box, useInput, useApp, Text} from 'ink';
 import type {
 	Configuration,
 	Session,
+	Message,
 	ErrorInfo,
 	ToolCall,
 	APIMessage,
 	CompactionConfig,
+	CompactionStrategyName,
+	SessionInfo,
+	SearchHit,
+	RedactionFinding,
+	TokenUsage,
+	BudgetExceeded,
+	BudgetRequest,
+	EditResubmitMode,
+	RewindResult,
 } from '../types/index.js';
 import {COMPACTION_CONFIG} from '../types/index.js';
 import {getEnabledModels, updateEnabledModels} from '../services/config.js';
 import {
 	addUserMessage,
 	addAssistantMessage,
-	saveMessage,
+	saveSessionToHistory,
+	upsertSessionMessage,
+	getInterruptedMessage,
 	updateSessionModel,
 	clearConversationHistory,
-	createNewSession,
+	createSession,
 	compactConversation,
-	estimateConversationTokensLocal,
+	estimateCompaction,
+	persistCompaction,
+	shouldAutoCompact,
+	forkSession,
+	findTurnEndMessageId,
+	resolveUserTurn,
+	listSessions,
+	switchSession,
+	renameSession,
+	deleteSession,
+	rewindSession,
+	editUserMessage,
+	retryLastTurn,
+	swapAlternate,
+	setMessagePinned,
+	getLastUserMessage,
+	getLastAssistantMessage,
 } from '../services/session.js';
-import {OpenRouterClient} from '../services/openrouter.js';
-import {getNextModel, getPreviousModel, getModelIndex, modelToConfig} from '../services/models.js';
+import {getCheckpointedFiles} from '../services/checkpoints.js';
+import {searchSessions} from '../services/search.js';
+import {
+	getRetentionPolicy,
+	pruneSessions,
+	summarizePruneReport,
+} from '../services/retention.js';
+import {
+	COMPACTION_STRATEGIES,
+	getCompactionStrategy,
+	resolveCompactionModel,
+} from '../services/compaction.js';
+import {exportSession, parseExportFormat} from '../services/export.js';
+import {
+	BUDGET_EXCEEDED_EXIT_CODE,
+	addUsage,
+	checkBudget,
+	describeBudgetExceeded,
+	loadBudgetUsage,
+	loadDailyUsage,
+	loadSessionUsage,
+	recordUsage,
+	toLocalDate,
+	toMessageUsage,
+} from '../services/cost.js';
+import {createModelClient} from '../services/providers.js';
+import {isStreamDropped} from '../services/openai-compatible.js';
+import {streamWithFallback} from '../services/fallback.js';
+import {
+	getNextModel,
+	getPreviousModel,
+	getModelIndex,
+	getCachedModel,
+	modelToConfig,
+} from '../services/models.js';
 import {toolExecutor} from '../services/tools.js';
 import {MessageList} from './MessageList.js';
 import {InputBox} from './InputBox.js';
@@ -34,6 +97,12 @@ import {ModelSelector} from './ModelSelector.js';
 import {ApprovalPrompt} from './ApprovalPrompt.js';
 import {ConfirmClearPrompt} from './ConfirmClearPrompt.js';
 import {ConfirmCompactPrompt} from './ConfirmCompactPrompt.js';
+import {ResumeInterruptedPrompt} from './ResumeInterruptedPrompt.js';
+import {BudgetPrompt} from './BudgetPrompt.js';
+import {SessionPicker} from './SessionPicker.js';
+import {SearchResults} from './SearchResults.js';
+import {RewindPicker, type RewindTurn} from './RewindPicker.js';
+import {EditMessagePrompt} from './EditMessagePrompt.js';
 import {
 	CommandAutocomplete,
 	type CommandSuggestion,
@@ -42,19 +111,55 @@ import {
 	FilePathAutocomplete,
 } from './FilePathAutocomplete.js';
 import {FilePathCompleter, type FilePathSuggestion} from '../utils/file-path-completer.js';
+import {
+	calculateContextUsage,
+	formatContextUsage,
+	formatCost,
+	formatTokenCount,
+	pluralize,
+} from '../utils/formatting.js';
+import {describeScreenedOutput, screenToolOutput} from '../utils/redaction.js';
 import type {McpServerManager} from '../services/mcp.js';
 
+// Save streamed output to the session file at most this often
+const PARTIAL_CHECKPOINT_INTERVAL_MS = 1000;
+
+// Sent (but not stored) when continuing an interrupted response
+const CONTINUE_PROMPT =
+	'Your previous response was cut off. Continue it from exactly where it stopped, without repeating anything or adding an introduction.';
+
 // Available slash commands for autocomplete
 const AVAILABLE_COMMANDS: CommandSuggestion[] = [
 	{command: 'model', aliases: ['models'], description: 'Select or change AI model'},
 	{command: 'clear', aliases: ['reset'], description: 'Clear conversation history'},
 	{command: 'new', description: 'Start a new session'},
-	{command: 'compact', description: 'Summarize long conversations'},
+	{command: 'sessions', description: 'List, switch, rename or delete sessions'},
+	{command: 'fork', description: 'Fork the conversation into a new session'},
+	{command: 'prune', description: 'Apply the session retention policy (--dry-run to preview)'},
+	{command: 'search', description: 'Search stored conversations (-g for all directories)'},
+	{command: 'export', description: 'Export session to Markdown, HTML or JSON'},
+	{command: 'rewind', description: 'Rewind conversation and file changes to before a turn'},
+	{command: 'undo', description: 'Undo the last turn and its file changes'},
+	{command: 'edit', description: 'Edit a previous message and resubmit it'},
+	{command: 'pin', description: 'Pin or unpin a message so compaction and history limits keep it'},
+	{command: 'retry', description: 'Regenerate the last response, optionally on another model'},
+	{command: 'alternate', aliases: ['alt'], description: 'Switch to an answer discarded by /retry'},
+	{command: 'continue', description: 'Continue an interrupted response'},
+	{command: 'cost', description: 'Show session cost and daily totals'},
+	{command: 'compact', description: 'Compact long conversations (summary, prune, hierarchical, cheap)'},
 	{command: 'version', description: 'Show YOLO CLI version'},
 	{command: 'help', aliases: ['h', '?'], description: 'Show available commands'},
 	{command: 'exit', aliases: ['quit'], description: 'Exit YOLO CLI'},
 ];
 
+// Appended to rewind notices when compactions had to be undone
+function describeUndoneCompactions(result: RewindResult): string {
+	const count = result.undoneCompactionCount;
+	return count > 0
+		? `; undid ${count} ${pluralize('compaction', count)} that covered removed messages`
+		: '';
+}
+
 export interface ChatInterfaceProps {
 	config: Configuration;
 	session: Session;
@@ -77,11 +182,28 @@ export function ChatInterface({
 	const [isLoading, setIsLoading] = useState(false);
 	const [isStreaming, setIsStreaming] = useState(false);
 	const abortControllerRef = useRef<AbortController | null>(null);
+	// Budget extensions granted this run, keyed by "session:<id>" or "day:<date>"
+	const budgetExtensionsRef = useRef<Record<string, number>>({});
 	const [isExecutingTools, setIsExecutingTools] = useState(false);
 	const [currentTool, setCurrentTool] = useState<string>('');
 	const [streamingContent, setStreamingContent] = useState('');
 	const [error, setError] = useState<ErrorInfo | null>(null);
 	const [showModelSelector, setShowModelSelector] = useState(false);
+	const [sessionPickerSessions, setSessionPickerSessions] = useState<
+		SessionInfo[] | null
+	>(null);
+	const [searchResults, setSearchResults] = useState<{
+		query: string;
+		hits: SearchHit[];
+	} | null>(null);
+	const [rewindTurns, setRewindTurns] = useState<RewindTurn[] | null>(null);
+	const [highlightMessageId, setHighlightMessageId] = useState<string | null>(
+		null,
+	);
+	// User message selected with the arrow keys, and the one being edited
+	const [editSelectionId, setEditSelectionId] = useState<string | null>(null);
+	const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+	const [pendingEditSubmit, setPendingEditSubmit] = useState<string | null>(null);
 	const [selectedModelIndex, setSelectedModelIndex] = useState(() => {
 		const enabledModels = getEnabledModels(config);
 		return getModelIndex(enabledModels, session.currentModel);
@@ -94,7 +216,21 @@ export function ChatInterface({
 	const [pendingClearConfirmation, setPendingClearConfirmation] =
 		useState(false);
 	const [pendingCompactConfirmation, setPendingCompactConfirmation] =
-		useState(false);
+		useState<CompactionStrategyName | null>(null);
+	const [pendingAutoCompact, setPendingAutoCompact] = useState<{
+		contextUsage: number;
+		resolve: (confirmed: boolean) => void;
+	} | null>(null);
+	const [pendingBudget, setPendingBudget] = useState<{
+		exceeded: BudgetExceeded;
+		resolve: (extend: boolean) => void;
+	} | null>(null);
+	// Offer to continue a response a crash or Ctrl+C cut off last time
+	const [pendingResume, setPendingResume] = useState<Message | null>(() =>
+		initialQuery ? null : getInterruptedMessage(initialSession),
+	);
+	// Cost of everything stored for the session, shown in the status bar
+	const [sessionCost, setSessionCost] = useState<number | null>(null);
 	const [showAutocomplete, setShowAutocomplete] = useState(false);
 	const [autocompleteIndex, setAutocompleteIndex] = useState(0);
 	const [shouldMoveCursorToEnd, setShouldMoveCursorToEnd] = useState(false);
@@ -171,8 +307,46 @@ export function ChatInterface({
 		}
 	}, []);
 
+	// Recompute the session cost when responses are added or sessions switch
+	useEffect(() => {
+		loadSessionUsage(session)
+			.then(usage => setSessionCost(usage.responses > 0 ? usage.cost : null))
+			.catch(() => setSessionCost(null));
+	}, [session.id, session.messages.length]);
+
+	// Send an edited prompt once the rewound or forked session is in place
+	useEffect(() => {
+		if (pendingEditSubmit !== null) {
+			setPendingEditSubmit(null);
+			void handleSubmit(pendingEditSubmit);
+		}
+	}, [pendingEditSubmit]);
+
 	// Handle keyboard input
 	useInput((char, key) => {
+		// Handle selecting a previous message to edit
+		if (editSelectionId) {
+			const userMessages = session.messages.filter(m => m.role === 'user');
+			const index = userMessages.findIndex(m => m.id === editSelectionId);
+
+			if (key.upArrow) {
+				setEditSelectionId(userMessages[Math.max(index - 1, 0)]?.id ?? null);
+			} else if (key.downArrow) {
+				if (index < userMessages.length - 1) {
+					setEditSelectionId(userMessages[index + 1]?.id ?? null);
+				}
+			} else if (key.return) {
+				setEditSelectionId(null);
+				setEditingMessageId(editSelectionId);
+			} else if (char === 'p') {
+				void togglePin(editSelectionId);
+			} else if (key.escape) {
+				setEditSelectionId(null);
+			}
+
+			return;
+		}
+
 		// Handle file path autocomplete navigation
 		if (showFileAutocomplete && filePathSuggestions.length > 0) {
 			// Up arrow - Previous suggestion
@@ -278,6 +452,31 @@ export function ChatInterface({
 			}
 		}
 
+		// Up arrow on an empty input - Select a previous message to edit
+		if (
+			key.upArrow &&
+			input === '' &&
+			!initialQuery &&
+			!isLoading &&
+			!editingMessageId &&
+			!showModelSelector &&
+			!searchResults &&
+			!rewindTurns &&
+			!sessionPickerSessions &&
+			!pendingApproval &&
+			!pendingResume &&
+			!pendingClearConfirmation &&
+			pendingCompactConfirmation === null &&
+			!pendingAutoCompact
+		) {
+			const userMessages = session.messages.filter(m => m.role === 'user');
+			if (userMessages.length > 0) {
+				setEditSelectionId(userMessages[userMessages.length - 1].id);
+			}
+
+			return;
+		}
+
 		// Ctrl+C - Interrupt streaming/request (does NOT exit app)
 		if (key.ctrl && char === 'c') {
 			if (isStreaming && abortControllerRef.current) {
@@ -353,6 +552,116 @@ export function ChatInterface({
 		}
 	};
 
+	// Load sessions for the picker, hiding empty sessions other than the active one
+	const loadSessionList = async (): Promise<SessionInfo[]> => {
+		const sessions = await listSessions(session.workingDirectory);
+		return sessions.filter(s => s.messageCount > 0 || s.id === session.id);
+	};
+
+	// Handle session picker actions
+	// Switch to another session in this directory
+	const openSession = async (sessionId: string): Promise<Session> => {
+		const loaded = await switchSession(session.workingDirectory, sessionId);
+
+		// Keep the current model if the session's model is no longer enabled
+		const enabledModels = getEnabledModels(config);
+		const modelIndex = getModelIndex(enabledModels, loaded.currentModel);
+		if (modelIndex >= 0) {
+			setSelectedModelIndex(modelIndex);
+			setSession(loaded);
+		} else {
+			setSession(updateSessionModel(loaded, session.currentModel));
+		}
+
+		setHighlightMessageId(null);
+		return loaded;
+	};
+
+	const handleSessionSelect = async (sessionId: string) => {
+		setSessionPickerSessions(null);
+		if (sessionId === session.id) {
+			return;
+		}
+
+		try {
+			const loaded = await openSession(sessionId);
+			setError({
+				type: 'unknown',
+				message: `✅ Switched to session ${loaded.id.slice(0, 8)} (${loaded.messages.length} message${loaded.messages.length !== 1 ? 's' : ''})`,
+			});
+		} catch (error_) {
+			setError({
+				type: 'unknown',
+				message: `Failed to switch session: ${error_ instanceof Error ? error_.message : 'Unknown error'}`,
+			});
+		}
+	};
+
+	const handleSessionRename = async (sessionId: string, title: string) => {
+		try {
+			await renameSession(session.workingDirectory, sessionId, title);
+			setSessionPickerSessions(await loadSessionList());
+		} catch (error_) {
+			setSessionPickerSessions(null);
+			setError({
+				type: 'unknown',
+				message: `Failed to rename session: ${error_ instanceof Error ? error_.message : 'Unknown error'}`,
+			});
+		}
+	};
+
+	const handleSessionDelete = async (sessionId: string) => {
+		if (sessionId === session.id) {
+			setSessionPickerSessions(null);
+			setError({
+				type: 'unknown',
+				message: 'Cannot delete the active session. Switch to another session first.',
+			});
+			return;
+		}
+
+		try {
+			await deleteSession(session.workingDirectory, sessionId);
+			setSessionPickerSessions(await loadSessionList());
+		} catch (error_) {
+			setSessionPickerSessions(null);
+			setError({
+				type: 'unknown',
+				message: `Failed to delete session: ${error_ instanceof Error ? error_.message : 'Unknown error'}`,
+			});
+		}
+	};
+
+	// Handle search result selection
+	const handleSearchSelect = async (hit: SearchHit) => {
+		setSearchResults(null);
+
+		if (hit.workingDirectory !== session.workingDirectory) {
+			setError({
+				type: 'unknown',
+				message: `Match is in another directory. Run: cd ${hit.workingDirectory} && yolo --resume ${hit.sessionId.slice(0, 8)}`,
+			});
+			return;
+		}
+
+		try {
+			if (hit.sessionId !== session.id) {
+				await openSession(hit.sessionId);
+			}
+
+			setHighlightMessageId(hit.messageId);
+			setError({
+				type: 'unknown',
+				message: `✅ Opened session ${hit.sessionId.slice(0, 8)} at message ${hit.messageId.slice(0, 8)}`,
+			});
+		} catch (error_) {
+			setError({
+				type: 'unknown',
+				message: `Failed to open search result: ${error_ instanceof Error ? error_.message : 'Unknown error'}`,
+			});
+		}
+	};
+
 	// Handle approval
 	const handleApprove = () => {
 		if (pendingApproval) {
@@ -390,27 +699,126 @@ export function ChatInterface({
 		setPendingClearConfirmation(false);
 	};
 
+	// Estimate context usage from the cached context length of the session's model
+	const getContextUsage = (target: Session): number => {
+		const model = getCachedModel(config, target.currentModel);
+		return model ? calculateContextUsage(target.messages, model) : 0;
+	};
+
+	// Compaction strategy from config, falling back to the built-in default
+	const defaultCompactionStrategy =
+		config.preferences.compactionStrategy ?? COMPACTION_CONFIG.defaultStrategy;
+
+	// Check spending budgets against the usage ledger before an API call
+	// Returns false when a budget is used up and the user (or -q) stops
+	const confirmBudget = async (
+		target: Session,
+		request: BudgetRequest,
+	): Promise<boolean> => {
+		const budget = config.preferences.budget;
+		if (!budget) {
+			return true;
+		}
+
+		const extensions = budgetExtensionsRef.current;
+		const sessionKey = `session:${target.id}`;
+		const dayKey = `day:${toLocalDate(Date.now())}`;
+		const spent = await loadBudgetUsage(target.id, request.startedAt);
+		while (true) {
+			const exceeded = checkBudget(budget, spent, {
+				request: request.extensions,
+				session: extensions[sessionKey],
+				day: extensions[dayKey],
+			});
+			if (!exceeded) {
+				return true;
+			}
+
+			const extend = initialQuery
+				? false
+				: await new Promise<boolean>(resolve => {
+						setPendingBudget({exceeded, resolve});
+					});
+			if (!extend) {
+				if (initialQuery) {
+					process.exitCode = BUDGET_EXCEEDED_EXIT_CODE;
+				}
+
+				request.stopped = true;
+				setError({
+					type: 'unknown',
+					message: `Stopped: ${describeBudgetExceeded(exceeded)}`,
+				});
+				return false;
+			}
+
+			if (exceeded.scope === 'request') {
+				request.extensions++;
+			} else {
+				const key = exceeded.scope === 'session' ? sessionKey : dayKey;
+				extensions[key] = (extensions[key] ?? 0) + 1;
+			}
+		}
+	};
+
+	// Compact older messages and record the compaction so it survives --continue
+	// Summary requests are budget-checked and recorded as part of request
+	const compactSession = async (
+		target: Session,
+		strategy: CompactionStrategyName,
+		request: BudgetRequest,
+	) => {
+		const model = resolveCompactionModel(
+			strategy,
+			target.currentModel,
+			config.preferences,
+		);
+		const result = await compactConversation(
+			target,
+			COMPACTION_CONFIG,
+			createModelClient(config, model),
+			{
+				strategy,
+				model,
+				confirmBudget: async () => confirmBudget(target, request),
+				async recordUsage(usage) {
+					await recordUsage(
+						target,
+						toMessageUsage(usage, getCachedModel(config, model) ?? undefined),
+						model,
+					);
+				},
+			},
+		);
+		return {result, compacted: await persistCompaction(target, result)};
+	};
+
+	// Estimated before/after figures for the compaction confirmation prompt
+	const compactionPreview = (strategy: CompactionStrategyName) => {
+		const estimate = estimateCompaction(session, COMPACTION_CONFIG, strategy);
+		return {
+			strategy,
+			originalMessageCount: session.messages.length,
+			estimatedCompactedCount: estimate.compactedMessageCount,
+			originalTokenEstimate: estimate.originalTokens,
+			estimatedCompactedTokens: estimate.compactedTokens,
+			reductionPercentage:
+				((estimate.originalTokens - estimate.compactedTokens) /
+					estimate.originalTokens) *
+				100,
+		};
+	};
+
 	// Handle compact confirmation
 	const handleCompactConfirm = async () => {
-		setPendingCompactConfirmation(false);
+		const strategy = pendingCompactConfirmation ?? defaultCompactionStrategy;
+		setPendingCompactConfirmation(null);
+		const request: BudgetRequest = {
+			startedAt: new Date().toISOString(),
+			extensions: 0,
+		};
 		try {
-			const result = await compactConversation(
-				session,
-				COMPACTION_CONFIG,
-				config.apiKey,
-			);
-
-			// Update session with compacted messages
-			const compacted: Session = {
-				...session,
-				messages: [
-					...(session.messages[0]?.role === 'system'
-						? [session.messages[0]]
-						: []),
-					result.summaryMessage,
-					...result.preservedMessages,
-				],
-			};
+			const {result, compacted} = await compactSession(session, strategy, request);
 
 			setSession(compacted);
 			setError({
@@ -418,6 +826,11 @@ export function ChatInterface({
 				message: `✅ Compacted! ${result.reductionPercentage.toFixed(1)}% reduction (saved ${result.originalTokenEstimate - result.compactedTokenEstimate} tokens)`,
 			});
 		} catch (error_) {
+			// Stopping at a used-up budget already says so
+			if (request.stopped) {
+				return;
+			}
+
 			setError({
 				type: 'unknown',
 				message: `Failed to compact: ${error_ instanceof Error ? error_.message : 'Unknown error'}`,
@@ -426,18 +839,182 @@ export function ChatInterface({
 	};
 
 	const handleCompactCancel = () => {
-		setPendingCompactConfirmation(false);
+		setPendingCompactConfirmation(null);
+	};
+
+	// Handle the compaction offered when the context threshold is reached
+	const handleAutoCompactConfirm = () => {
+		if (pendingAutoCompact) {
+			pendingAutoCompact.resolve(true);
+			setPendingAutoCompact(null);
+		}
+	};
+
+	const handleAutoCompactCancel = () => {
+		if (pendingAutoCompact) {
+			pendingAutoCompact.resolve(false);
+			setPendingAutoCompact(null);
+		}
+	};
+
+	const handleBudgetExtend = () => {
+		if (pendingBudget) {
+			pendingBudget.resolve(true);
+			setPendingBudget(null);
+		}
+	};
+
+	const handleBudgetStop = () => {
+		if (pendingBudget) {
+			pendingBudget.resolve(false);
+			setPendingBudget(null);
+		}
+	};
+
+	// User turns of the current session, oldest first
+	const loadRewindTurns = async (): Promise<RewindTurn[]> => {
+		const userMessages = session.messages.filter(m => m.role === 'user');
+		return Promise.all(
+			userMessages.map(async (message, index) => ({
+				messageId: message.id,
+				turn: index + 1,
+				content: message.content,
+				timestamp: message.timestamp,
+				changedFiles: (
+					await getCheckpointedFiles(session.workingDirectory, [message.id])
+				).length,
+			})),
+		);
+	};
+
+	// Rewind the conversation and files to before a user message, putting the
+	// message back in the input so it can be edited and resent
+	const rewindTo = async (userMessageId: string) => {
+		const rewound = session.messages.find(m => m.id === userMessageId);
+		try {
+			const {session: truncated, result} = await rewindSession(
+				session,
+				userMessageId,
+			);
+			setSession(truncated);
+			setHighlightMessageId(null);
+
+			if (rewound) {
+				setShouldMoveCursorToEnd(true);
+				setInput(rewound.content);
+				setTimeout(() => setShouldMoveCursorToEnd(false), 0);
+			}
+
+			setError({
+				type: 'unknown',
+				message: `✅ Rewound ${result.removedMessageCount} message${result.removedMessageCount !== 1 ? 's' : ''}; restored ${result.restoredFiles.length} file${result.restoredFiles.length !== 1 ? 's' : ''}, deleted ${result.deletedFiles.length}${describeUndoneCompactions(result)}`,
+			});
+		} catch (error_) {
+			setError({
+				type: 'unknown',
+				message: `Failed to rewind: ${error_ instanceof Error ? error_.message : 'Unknown error'}`,
+			});
+		}
+	};
+
+	const handleRewindSelect = async (messageId: string) => {
+		setRewindTurns(null);
+		await rewindTo(messageId);
+	};
+
+	// Resubmit an edited prompt, either replacing everything from it onwards
+	// (restoring the files those turns changed) or in a fork of the session
+	const handleEditSubmit = async (content: string, mode: EditResubmitMode) => {
+		const messageId = editingMessageId;
+		setEditingMessageId(null);
+		if (!messageId) {
+			return;
+		}
+
+		try {
+			const {session: edited, result} = await editUserMessage(session, messageId, mode);
+			setSession(edited);
+			setError({
+				type: 'unknown',
+				message: result
+					? `✅ Replaced ${result.removedMessageCount} message${result.removedMessageCount !== 1 ? 's' : ''}; restored ${result.restoredFiles.length} file${result.restoredFiles.length !== 1 ? 's' : ''}, deleted ${result.deletedFiles.length}${describeUndoneCompactions(result)}`
+					: `✅ Forked into session ${edited.id.slice(0, 8)} (parent ${session.id.slice(0, 8)} is unchanged, files are kept as they are)`,
+			});
+			setHighlightMessageId(null);
+			setPendingEditSubmit(content);
+		} catch (error_) {
+			setError({
+				type: 'unknown',
+				message: `Failed to edit message: ${error_ instanceof Error ? error_.message : 'Unknown error'}`,
+			});
+		}
+	};
+
+	// Resolve the turn argument of /edit, /rewind, /pin or /fork, reporting invalid ones
+	const resolveTurnArg = (arg: string) => {
+		const target = resolveUserTurn(session, arg);
+		if (!target) {
+			const turns = session.messages.filter(m => m.role === 'user').length;
+			setError({
+				type: 'unknown',
+				message: `Invalid turn: ${arg}. Use a number between 1 and ${turns}.`,
+			});
+		}
+
+		return target;
+	};
+
+	// Pin or unpin a message so compaction and history limits keep it
+	const togglePin = async (messageId: string) => {
+		const message = session.messages.find(m => m.id === messageId);
+		const turn =
+			session.messages.filter(m => m.role === 'user').findIndex(m => m.id === messageId) + 1;
+		try {
+			setSession(await setMessagePinned(session, messageId, !message?.metadata?.pinned));
+			setError({
+				type: 'unknown',
+				message: message?.metadata?.pinned
+					? `✅ Unpinned turn ${turn}`
+					: `✅ Pinned turn ${turn}: compaction and history limits will keep it`,
+			});
+		} catch (error_) {
+			setError({
+				type: 'unknown',
+				message: `Failed to pin message: ${error_ instanceof Error ? error_.message : 'Unknown error'}`,
+			});
+		}
+	};
+
+	// Handle the offer to continue an interrupted response
+	const handleResumeConfirm = () => {
+		const interrupted = pendingResume;
+		setPendingResume(null);
+		if (interrupted) {
+			void handleSubmit('', interrupted);
+		}
+	};
+
+	const handleResumeCancel = () => {
+		setPendingResume(null);
 	};
 
 	// Handle message submission
-	const handleSubmit = async (text: string) => {
-		if (!text.trim() || isLoading) {
+	// With resumeMessage, no user message is added; the interrupted response is
+	// continued and the new output appended to it
+	const handleSubmit = async (
+		text: string,
+		resumeMessage?: Message,
+		retryModel?: string,
+		retriedSession?: Session,
+	) => {
+		if ((!text.trim() && !resumeMessage && !retryModel) || isLoading) {
 			return;
 		}
 
 		// Handle slash commands
-		if (text.startsWith('/')) {
-			const command = text.slice(1).toLowerCase();
+		if (!resumeMessage && text.startsWith('/')) {
+			const [commandName = '', ...commandArgs] = text.slice(1).trim().split(/\s+/);
+			const command = commandName.toLowerCase();
 
 			if (command === 'model' || command === 'models') {
 				setShowModelSelector(true);
@@ -473,29 +1050,369 @@ export function ChatInterface({
 			}
 
 			if (command === 'new') {
+				setInput('');
+				const newSession = createSession(session.workingDirectory, session.currentModel);
+				setSession(newSession);
+				setError({
+					type: 'unknown',
+					message: `✅ New session created (ID: ${newSession.id.slice(0, 8)})`,
+				});
+
+				return;
+			}
+
+			if (command === 'sessions') {
+				setInput('');
+				try {
+					setSessionPickerSessions(await loadSessionList());
+				} catch (error_) {
+					setError({
+						type: 'unknown',
+						message: `Failed to load sessions: ${error_ instanceof Error ? error_.message : 'Unknown error'}`,
+					});
+				}
+
+				return;
+			}
+
+			if (command === 'fork') {
 				setInput('');
 				try {
-					const newSession = await createNewSession(
+					let uptoMessageId: string | undefined;
+					if (commandArgs[0]) {
+						const target = resolveTurnArg(commandArgs[0]);
+						if (!target) {
+							return;
+						}
+
+						uptoMessageId =
+							findTurnEndMessageId(session.messages, target.turn) ?? undefined;
+					}
+
+					const forked = await forkSession(session, uptoMessageId);
+					setSession(forked);
+					setError({
+						type: 'unknown',
+						message: `✅ Forked into session ${forked.id.slice(0, 8)} (${forked.messages.length} message${forked.messages.length !== 1 ? 's' : ''}, parent ${session.id.slice(0, 8)})`,
+					});
+				} catch (error_) {
+					setError({
+						type: 'unknown',
+						message: `Failed to fork session: ${error_ instanceof Error ? error_.message : 'Unknown error'}`,
+					});
+				}
+
+				return;
+			}
+
+			if (command === 'prune') {
+				setInput('');
+				const dryRun = commandArgs.includes('--dry-run');
+				try {
+					const report = await pruneSessions(
 						session.workingDirectory,
-						session.currentModel,
+						getRetentionPolicy(config),
+						{dryRun, activeSessionId: session.id},
 					);
-					setSession(newSession);
 					setError({
 						type: 'unknown',
-						message: `✅ New session created (ID: ${newSession.id.slice(0, 8)})`,
+						message: `${dryRun ? '' : '✅ '}${summarizePruneReport(report, dryRun)}`,
 					});
 				} catch (error_) {
 					setError({
 						type: 'unknown',
-						message: `Failed to create new session: ${error_ instanceof Error ? error_.message : 'Unknown error'}`,
+						message: `Failed to prune sessions: ${error_ instanceof Error ? error_.message : 'Unknown error'}`,
 					});
 				}
 
 				return;
 			}
 
+			if (command === 'search') {
+				setInput('');
+				const isGlobal = commandArgs[0] === '-g' || commandArgs[0] === '--global';
+				const query = (isGlobal ? commandArgs.slice(1) : commandArgs).join(' ');
+
+				if (!query) {
+					setError({
+						type: 'unknown',
+						message: 'Usage: /search [-g] <query>',
+					});
+					return;
+				}
+
+				try {
+					const skipped: string[] = [];
+					const hits = await searchSessions(session.workingDirectory, query, {
+						global: isGlobal,
+						onSkip(directory) {
+							skipped.push(directory);
+						},
+					});
+					setSearchResults({query, hits});
+					if (skipped.length > 0) {
+						setError({
+							type: 'unknown',
+							message: `⚠️ Skipped unreadable directories: ${skipped.join(', ')}`,
+						});
+					}
+				} catch (error_) {
+					setError({
+						type: 'unknown',
+						message: `Search failed: ${error_ instanceof Error ? error_.message : 'Unknown error'}`,
+					});
+				}
+
+				return;
+			}
+
+			if (command === 'export') {
+				setInput('');
+				const [firstArg, ...restArgs] = commandArgs;
+				const explicitFormat = firstArg ? parseExportFormat(firstArg) : null;
+				const outputArg = (explicitFormat ? restArgs : commandArgs).join(' ');
+				const format =
+					explicitFormat ??
+					(outputArg ? parseExportFormat(path.extname(outputArg).slice(1)) : 'md');
+
+				if (!format) {
+					setError({
+						type: 'unknown',
+						message: 'Usage: /export [md|html|json] [path]',
+					});
+					return;
+				}
+
+				try {
+					const writtenPath = await exportSession(
+						session,
+						format,
+						outputArg
+							? path.resolve(session.workingDirectory, outputArg)
+							: undefined,
+					);
+					setError({
+						type: 'unknown',
+						message: `✅ Exported ${session.messages.length} message${session.messages.length !== 1 ? 's' : ''} to ${writtenPath}`,
+					});
+				} catch (error_) {
+					setError({
+						type: 'unknown',
+						message: `Failed to export session: ${error_ instanceof Error ? error_.message : 'Unknown error'}`,
+					});
+				}
+
+				return;
+			}
+
+			if (command === 'rewind' || command === 'undo') {
+				setInput('');
+				const userMessages = session.messages.filter(m => m.role === 'user');
+				if (userMessages.length === 0) {
+					setError({type: 'unknown', message: 'Nothing to rewind yet.'});
+					return;
+				}
+
+				if (command === 'undo') {
+					await rewindTo(userMessages[userMessages.length - 1].id);
+					return;
+				}
+
+				if (commandArgs[0]) {
+					const target = resolveTurnArg(commandArgs[0]);
+					if (!target) {
+						return;
+					}
+
+					await rewindTo(target.message.id);
+					return;
+				}
+
+				try {
+					setRewindTurns(await loadRewindTurns());
+				} catch (error_) {
+					setError({
+						type: 'unknown',
+						message: `Failed to load checkpoints: ${error_ instanceof Error ? error_.message : 'Unknown error'}`,
+					});
+				}
+
+				return;
+			}
+
+			if (command === 'edit') {
+				setInput('');
+				const userMessages = session.messages.filter(m => m.role === 'user');
+				if (userMessages.length === 0) {
+					setError({type: 'unknown', message: 'Nothing to edit yet.'});
+					return;
+				}
+
+				if (commandArgs[0]) {
+					const target = resolveTurnArg(commandArgs[0]);
+					if (!target) {
+						return;
+					}
+
+					setEditingMessageId(target.message.id);
+					return;
+				}
+
+				setEditSelectionId(userMessages[userMessages.length - 1].id);
+				return;
+			}
+
+			if (command === 'pin') {
+				setInput('');
+				const userMessages = session.messages.filter(m => m.role === 'user');
+				if (userMessages.length === 0) {
+					setError({type: 'unknown', message: 'Nothing to pin yet.'});
+					return;
+				}
+
+				let target = userMessages[userMessages.length - 1];
+				if (commandArgs[0]) {
+					const resolved = resolveTurnArg(commandArgs[0]);
+					if (!resolved) {
+						return;
+					}
+
+					target = resolved.message;
+				}
+
+				await togglePin(target.id);
+				return;
+			}
+
+			if (command === 'retry') {
+				setInput('');
+				const [retryModelId] = commandArgs;
+				if (
+					retryModelId &&
+					!getEnabledModels(config).some(m => m.id === retryModelId)
+				) {
+					setError({
+						type: 'unknown',
+						message: `Model ${retryModelId} not found in enabled models`,
+					});
+					return;
+				}
+
+				let retried: Session;
+				try {
+					({session: retried} = await retryLastTurn(session));
+					setSession(retried);
+					setPendingResume(null);
+				} catch (error_) {
+					setError({
+						type: 'unknown',
+						message: `Failed to retry: ${error_ instanceof Error ? error_.message : 'Unknown error'}`,
+					});
+					return;
+				}
+
+				await handleSubmit(
+					'',
+					undefined,
+					retryModelId ?? retried.currentModel,
+					retried,
+				);
+				return;
+			}
+
+			if (command === 'alternate' || command === 'alt') {
+				setInput('');
+				let index: number | undefined;
+				if (commandArgs[0]) {
+					const number = Number.parseInt(commandArgs[0], 10);
+					if (!Number.isInteger(number) || number < 1) {
+						setError({
+							type: 'unknown',
+							message: `Invalid alternate: ${commandArgs[0]}. Use the number shown under your last message.`,
+						});
+						return;
+					}
+
+					index = number - 1;
+				}
+
+				try {
+					const swapped = await swapAlternate(session, index);
+					setSession(swapped);
+					const answer = getLastAssistantMessage(swapped);
+					setError({
+						type: 'unknown',
+						message: `✅ Switched to the alternate answer${answer?.model ? ` from ${answer.model}` : ''} (run /alternate again to switch back)`,
+					});
+				} catch (error_) {
+					setError({
+						type: 'unknown',
+						message: `Failed to switch answers: ${error_ instanceof Error ? error_.message : 'Unknown error'}`,
+					});
+				}
+
+				return;
+			}
+
+			if (command === 'cost') {
+				setInput('');
+				try {
+					// Same ledger totals the budget check uses
+					const usage = (await loadBudgetUsage(session.id)).session;
+					const days = (await loadDailyUsage()).slice(0, 7);
+					const formatTotals = (totals: typeof usage) =>
+						`${formatCost(totals.cost)} (${formatTokenCount(totals.promptTokens)} prompt + ${formatTokenCount(totals.completionTokens)} completion tokens, ${totals.responses} ${pluralize('response', totals.responses)})`;
+
+					setError({
+						type: 'unknown',
+						message: [
+							`Session cost: ${formatTotals(usage)}`,
+							...(days.length > 0
+								? [
+										'Daily totals across all sessions:',
+										...days.map(day => `  ${day.date}  ${formatTotals(day)}`),
+									]
+								: []),
+						].join('\n'),
+					});
+				} catch (error_) {
+					setError({
+						type: 'unknown',
+						message: `Failed to load usage: ${error_ instanceof Error ? error_.message : 'Unknown error'}`,
+					});
+				}
+
+				return;
+			}
+
+			if (command === 'continue') {
+				setInput('');
+				const interrupted = getInterruptedMessage(session);
+				if (!interrupted) {
+					setError({
+						type: 'unknown',
+						message: 'Nothing to continue: the last response is complete.',
+					});
+					return;
+				}
+
+				void handleSubmit('', interrupted);
+				return;
+			}
+
 			if (command === 'compact') {
 				setInput('');
+				const strategy = commandArgs[0]
+					? getCompactionStrategy(commandArgs[0])
+					: getCompactionStrategy(defaultCompactionStrategy);
+				if (!strategy) {
+					setError({
+						type: 'unknown',
+						message: `Unknown compaction strategy: ${commandArgs[0] ?? defaultCompactionStrategy}. Available: ${COMPACTION_STRATEGIES.map(s => s.name).join(', ')}`,
+					});
+					return;
+				}
+
 				if (session.messages.length < COMPACTION_CONFIG.minimumMessagesToCompact) {
 					setError({
 						type: 'unknown',
@@ -504,7 +1421,7 @@ export function ChatInterface({
 					return;
 				}
 
-				setPendingCompactConfirmation(true);
+				setPendingCompactConfirmation(strategy.name);
 				return;
 			}
 
@@ -516,7 +1433,20 @@ export function ChatInterface({
   /model - Select or change AI model
   /clear - Clear conversation history (alias: /reset)
   /new - Start a new session
-  /compact - Summarize long conversations
+  /sessions - List, switch, rename or delete sessions
+  /fork [n] - Fork into a new session (optionally keeping only the first n turns)
+  /prune [--dry-run] - Trim and delete old sessions per the retention settings
+  /search [-g] <query> - Search stored conversations (-g: all directories)
+  /export [md|html|json] [path] - Export this session to a file
+  /rewind [n] - Rewind conversation and file changes to before turn n (picker if omitted)
+  /undo - Undo the last turn and its file changes
+  /edit [n] - Edit turn n and resubmit it (or press ↑ on an empty input)
+  /pin [n] - Pin or unpin turn n (default: the last) so compaction keeps it
+  /retry [model] - Regenerate the last response (optionally on another model)
+  /alternate [n] - Switch to an earlier answer discarded by /retry (alias: /alt)
+  /continue - Continue an interrupted response
+  /cost - Show the cost of this session and daily totals
+  /compact [strategy] - Compact long conversations (summary, prune, hierarchical, cheap)
   /version - Show YOLO CLI version
   /help - Show this help message (aliases: /h, /?)
   /exit - Exit YOLO CLI (alias: /quit)
@@ -544,6 +1474,14 @@ Keyboard shortcuts:
 			return;
 		}
 
+		// /retry hands over the session it prepared, which this render has not seen yet
+		const activeSession = retriedSession ?? session;
+		// Response being streamed, kept as an interrupted message if streaming stops
+		let inFlight: {message: Message; content: string} | null = null;
+		let resuming = resumeMessage;
+		// The model that answers; a fallback takes over when a request fails
+		let model = retryModel ?? activeSession.currentModel;
+
 		try {
 			setError(null);
 			setIsLoading(true);
@@ -552,17 +1490,19 @@ Keyboard shortcuts:
 			const abortController = new AbortController();
 			abortControllerRef.current = abortController;
 
-			// Add user message
-			const userMessage = addUserMessage(session, text.trim());
-			await saveMessage(session.workingDirectory, userMessage);
-			setSession({...session});
+			// Add user message (a continued or retried response belongs to the last one)
+			const rerun = resumeMessage !== undefined || retryModel !== undefined;
+			const userMessage = rerun
+				? getLastUserMessage(activeSession) ?? undefined
+				: addUserMessage(activeSession, text.trim());
+			if (!rerun) {
+				await saveSessionToHistory(activeSession);
+				setSession({...activeSession});
+			}
 
 			// Clear input
 			setInput('');
 
-			// Prepare API client and get tool definitions
-			const client = new OpenRouterClient({apiKey: config.apiKey});
-
 			// Create approval request handler
 			const requestApproval = async (
 				action: string,
@@ -579,10 +1519,22 @@ Keyboard shortcuts:
 				});
 			};
 
+			// Secrets are never auto-approved, whatever autoApprove says
+			const confirmSecrets = async (
+				action: string,
+				details: string,
+			): Promise<boolean> =>
+				new Promise<boolean>(resolve => {
+					setPendingApproval({action, details, resolve});
+				});
+
 			// Set tool executor context to session's working directory
 			toolExecutor.setContext({
-				workingDirectory: session.workingDirectory,
+				workingDirectory: activeSession.workingDirectory,
 				requestApproval,
+				checkpoint: userMessage
+					? {sessionId: activeSession.id, messageId: userMessage.id}
+					: undefined,
 			});
 
 			// Register MCP tools if available
@@ -627,16 +1579,72 @@ Keyboard shortcuts:
 
 			const tools = toolExecutor.getToolDefinitions();
 
+			// Budgets are checked before each call against the usage ledger
+			const budgetRequest: BudgetRequest = {
+				startedAt: new Date().toISOString(),
+				extensions: 0,
+			};
+
 			// Tool execution loop - continue until no more tool calls
 			let continueLoop = true;
 			const MAX_ITERATIONS = 10; // Prevent infinite loops
 			let iterations = 0;
+			let autoCompactDeclined = false;
 
 			while (continueLoop && iterations < MAX_ITERATIONS) {
 				iterations++;
 
+				// Compact first when the context window is nearly full
+				const contextUsage = getContextUsage(activeSession);
+				if (
+					!autoCompactDeclined &&
+					shouldAutoCompact(activeSession, contextUsage, COMPACTION_CONFIG)
+				) {
+					const confirmed =
+						config.preferences.autoCompact || initialQuery
+							? true
+							: await new Promise<boolean>(resolve => {
+									setPendingAutoCompact({contextUsage, resolve});
+								});
+
+					if (confirmed) {
+						try {
+							const {result, compacted} = await compactSession(
+								activeSession,
+								defaultCompactionStrategy,
+								budgetRequest,
+							);
+							activeSession.messages = compacted.messages;
+							activeSession.metadata = compacted.metadata;
+							setSession({...activeSession});
+							setError({
+								type: 'unknown',
+								message: `✅ Context ${formatContextUsage(contextUsage)} full - compacted (${result.reductionPercentage.toFixed(1)}% reduction)`,
+							});
+						} catch (error_) {
+							// Stopping at a used-up budget ends the request
+							if (budgetRequest.stopped) {
+								break;
+							}
+
+							// Still send the request; it may fit anyway
+							setError({
+								type: 'unknown',
+								message: `Failed to compact: ${error_ instanceof Error ? error_.message : 'Unknown error'}`,
+							});
+						}
+					} else {
+						autoCompactDeclined = true;
+					}
+				}
+
+				// Stop before the call if a spending budget is used up
+				if (!(await confirmBudget(activeSession, budgetRequest))) {
+					break;
+				}
+
 				// Prepare messages for API request
-				const apiMessages: APIMessage[] = session.messages.map(msg => {
+				const apiMessages: APIMessage[] = activeSession.messages.map(msg => {
 					const baseMessage: APIMessage = {
 						role: msg.role as 'user' | 'assistant' | 'system' | 'tool',
 						content: msg.content,
@@ -665,15 +1673,15 @@ Keyboard shortcuts:
 
 # Working Directory
 
-The current working directory is: ${session.workingDirectory}
+The current working directory is: ${activeSession.workingDirectory}
 
 Every file system operation will be relative to the working directory if you do not explicitly specify the absolute path.
 
 # File Paths - IMPORTANT
 
 - read_file and write_file require ABSOLUTE paths
-- Always use the full path: ${session.workingDirectory}/filename
-- Example: To read package.json, use: ${session.workingDirectory}/package.json
+- Always use the full path: ${activeSession.workingDirectory}/filename
+- Example: To read package.json, use: ${activeSession.workingDirectory}/package.json
 - For bash commands, you're already in the working directory (no need for absolute paths)
 
 # Available Tools
@@ -694,6 +1702,10 @@ Use 'bash' with 'ls' to list files in the current directory.`,
 					apiMessages.unshift(systemMessage);
 				}
 
+				if (resuming) {
+					apiMessages.push({role: 'user', content: CONTINUE_PROMPT});
+				}
+
 				// Stream response
 				setIsStreaming(true);
 				setStreamingContent('');
@@ -701,13 +1713,37 @@ Use 'bash' with 'ls' to list files in the current directory.`,
 				const startTime = Date.now();
 				let fullContent = '';
 				let toolCalls: ToolCall[] | undefined;
+				let usage: TokenUsage | undefined;
+
+				// Streamed text is saved as it grows, under the id the response keeps
+				const prefix = resuming?.content ?? '';
+				inFlight = {
+					message: resuming ?? {
+						id: randomUUID(),
+						role: 'assistant',
+						content: '',
+						timestamp: new Date().toISOString(),
+						model,
+					},
+					content: prefix,
+				};
+				let lastCheckpoint = Date.now();
 
-				const stream = client.streamChatCompletion(
+				const stream = streamWithFallback(
+					config,
 					{
-						model: session.currentModel,
+						model,
 						messages: apiMessages,
 						tools,
 					},
+					(answering, notice) => {
+						model = answering;
+						if (inFlight) {
+							inFlight.message.model = answering;
+						}
+
+						setError({type: 'unknown', message: notice});
+					},
 					abortController.signal,
 				);
 
@@ -718,6 +1754,16 @@ Use 'bash' with 'ls' to list files in the current directory.`,
 					if (delta?.content) {
 						fullContent += delta.content;
 						setStreamingContent(fullContent);
+						inFlight.content = prefix + fullContent;
+
+						if (Date.now() - lastCheckpoint >= PARTIAL_CHECKPOINT_INTERVAL_MS) {
+							lastCheckpoint = Date.now();
+							await upsertSessionMessage(activeSession, {
+								...inFlight.message,
+								content: inFlight.content,
+								metadata: {...inFlight.message.metadata, interrupted: true},
+							});
+						}
 					}
 
 					// Accumulate tool calls
@@ -739,9 +1785,9 @@ Use 'bash' with 'ls' to list files in the current directory.`,
 						}
 					}
 
-					// Check for finish
-					if (chunk.choices[0]?.finish_reason) {
-						break;
+					// Usage arrives in the last chunk, after the finish reason
+					if (chunk.usage) {
+						usage = chunk.usage;
 					}
 				}
 
@@ -750,21 +1796,51 @@ Use 'bash' with 'ls' to list files in the current directory.`,
 				setIsStreaming(false);
 				setStreamingContent('');
 
-				// Check if we have tool calls to execute
-				if (toolCalls && toolCalls.length > 0) {
-					// Add assistant message with tool calls
-					const assistantMessage = addAssistantMessage(
-						session,
-						fullContent || '',
-						session.currentModel,
-						{
-							streamingDuration: duration,
-							toolCalls,
-						},
+				// Store the finished response, replacing its partial copy
+				const hasToolCalls = toolCalls !== undefined && toolCalls.length > 0;
+				const messageUsage = usage
+					? toMessageUsage(
+							usage,
+							config.modelCache?.models.find(m => m.id === model),
+						)
+					: undefined;
+				if (messageUsage) {
+					await recordUsage(activeSession, messageUsage, model);
+				}
+
+				const responseMetadata = {
+					streamingDuration: duration,
+					...(usage ? {tokensUsed: usage.total_tokens} : {}),
+					...(hasToolCalls ? {toolCalls} : {}),
+				};
+				if (resuming) {
+					resuming.content = prefix + fullContent;
+					resuming.metadata = {
+						...resuming.metadata,
+						...responseMetadata,
+						...(messageUsage
+							? {usage: addUsage(resuming.metadata?.usage, messageUsage)}
+							: {}),
+					};
+					delete resuming.metadata.interrupted;
+					await upsertSessionMessage(activeSession, resuming);
+				} else {
+					const response = addAssistantMessage(
+						activeSession,
+						fullContent,
+						model,
+						{...responseMetadata, ...(messageUsage ? {usage: messageUsage} : {})},
+						inFlight.message.id,
 					);
-					await saveMessage(session.workingDirectory, assistantMessage);
-					setSession({...session});
+					await upsertSessionMessage(activeSession, response);
+				}
+
+				inFlight = null;
+				resuming = undefined;
+				setSession({...activeSession});
 
+				// Check if we have tool calls to execute
+				if (toolCalls && hasToolCalls) {
 					// Execute tool calls
 					setIsExecutingTools(true);
 
@@ -773,18 +1849,43 @@ Use 'bash' with 'ls' to list files in the current directory.`,
 						tool_call_id: string;
 						name: string;
 						content: string;
+						redactions: RedactionFinding[];
 					}> = [];
+					const redactionNotices: string[] = [];
 
 					for (const toolCall of toolCalls) {
 						setCurrentTool(toolCall.function.name);
 						const result = await toolExecutor.executeTool(toolCall);
+
+						// Mask or hold back secrets before the output reaches the session
+						const screened = await screenToolOutput(
+							result.content,
+							toolCall.function.name,
+							config.preferences.redaction,
+							confirmSecrets,
+						);
+						if (screened.findings.length > 0) {
+							redactionNotices.push(
+								describeScreenedOutput(
+									toolCall.function.name,
+									screened,
+									config.preferences.redaction,
+								),
+							);
+						}
+
 						toolResults.push({
 							tool_call_id: toolCall.id,
 							name: toolCall.function.name,
-							content: result.content,
+							content: screened.content,
+							redactions: screened.findings,
 						});
 					}
 
+					if (redactionNotices.length > 0) {
+						setError({type: 'unknown', message: redactionNotices.join('\n')});
+					}
+
 					setCurrentTool('');
 					setIsExecutingTools(false);
 
@@ -798,28 +1899,19 @@ Use 'bash' with 'ls' to list files in the current directory.`,
 							metadata: {
 								toolCallId: result.tool_call_id,
 								toolName: result.name,
+								redactions:
+									result.redactions.length > 0 ? result.redactions : undefined,
 							},
 						};
-						session.messages.push(toolMessage);
-						await saveMessage(session.workingDirectory, toolMessage);
+						activeSession.messages.push(toolMessage);
 					}
-					setSession({...session});
+					await saveSessionToHistory(activeSession);
+					setSession({...activeSession});
 
 					// Continue loop to get next response
 					continueLoop = true;
 				} else {
-					// No tool calls - add final assistant message and exit loop
-					const assistantMessage = addAssistantMessage(
-						session,
-						fullContent,
-						session.currentModel,
-						{
-							streamingDuration: duration,
-						},
-					);
-					await saveMessage(session.workingDirectory, assistantMessage);
-					setSession({...session});
-
+					// No tool calls - the final answer is stored, exit loop
 					continueLoop = false;
 				}
 			}
@@ -831,11 +1923,45 @@ Use 'bash' with 'ls' to list files in the current directory.`,
 				exit();
 			}
 		} catch (error_) {
-			// Ignore abort errors (user cancelled with Ctrl+C)
+			// Keep what streamed before the interruption so it can be continued
+			const partial = inFlight;
+			let kept: Message | undefined;
+			if (partial?.content) {
+				try {
+					if (resuming) {
+						resuming.content = partial.content;
+						resuming.metadata = {...resuming.metadata, interrupted: true};
+						await upsertSessionMessage(activeSession, resuming);
+						kept = resuming;
+					} else {
+						kept = addAssistantMessage(
+							activeSession,
+							partial.content,
+							model,
+							{interrupted: true},
+							partial.message.id,
+						);
+						await upsertSessionMessage(activeSession, kept);
+					}
+
+					setSession({...activeSession});
+				} catch {
+					// The last periodic checkpoint is still in the session file
+				}
+			}
+
+			// Abort errors are the user cancelling with Ctrl+C
 			if (error_ instanceof Error && error_.name === 'AbortError') {
 				setIsStreaming(false);
 				setStreamingContent('');
 				setIsLoading(false);
+				if (partial?.content) {
+					setError({
+						type: 'unknown',
+						message: 'Response interrupted. Type /continue to resume it.',
+					});
+				}
+
 				return;
 			}
 
@@ -849,6 +1975,12 @@ Use 'bash' with 'ls' to list files in the current directory.`,
 			setIsStreaming(false);
 			setStreamingContent('');
 			setIsLoading(false);
+
+			// Offer to continue a response whose connection dropped mid-stream;
+			// tool calls that were still streaming are requested again
+			if (kept && isStreamDropped(error_) && !initialQuery) {
+				setPendingResume(kept);
+			}
 		} finally {
 			// Clean up abort controller
 			abortControllerRef.current = null;
@@ -857,6 +1989,9 @@ Use 'bash' with 'ls' to list files in the current directory.`,
 
 	const enabledModels = getEnabledModels(config);
 	const currentModel = enabledModels[selectedModelIndex];
+	const editingMessage = editingMessageId
+		? session.messages.find(m => m.id === editingMessageId)
+		: undefined;
 
 	// Show model selector
 	if (showModelSelector) {
@@ -885,6 +2020,50 @@ Use 'bash' with 'ls' to list files in the current directory.`,
 		);
 	}
 
+	// Show search results
+	if (searchResults) {
+		return (
+			<Box flexDirection="column" padding={1}>
+				<SearchResults
+					query={searchResults.query}
+					hits={searchResults.hits}
+					currentWorkingDirectory={session.workingDirectory}
+					onSelect={handleSearchSelect}
+					onCancel={() => setSearchResults(null)}
+				/>
+			</Box>
+		);
+	}
+
+	// Show rewind picker
+	if (rewindTurns) {
+		return (
+			<Box flexDirection="column" padding={1}>
+				<RewindPicker
+					turns={rewindTurns}
+					onSelect={handleRewindSelect}
+					onCancel={() => setRewindTurns(null)}
+				/>
+			</Box>
+		);
+	}
+
+	// Show session picker
+	if (sessionPickerSessions) {
+		return (
+			<Box flexDirection="column" padding={1}>
+				<SessionPicker
+					sessions={sessionPickerSessions}
+					currentSessionId={session.id}
+					onSelect={handleSessionSelect}
+					onRename={handleSessionRename}
+					onDelete={handleSessionDelete}
+					onCancel={() => setSessionPickerSessions(null)}
+				/>
+			</Box>
+		);
+	}
+
 	return (
 		<Box flexDirection="column" height="100%">
 			<Box flexDirection="column" flexGrow={1}>
@@ -892,9 +2071,35 @@ Use 'bash' with 'ls' to list files in the current directory.`,
 					messages={session.messages}
 					streamingContent={isStreaming ? streamingContent : undefined}
 					error={error}
+					highlightMessageId={highlightMessageId}
+					selectedMessageId={editSelectionId}
 				/>
 			</Box>
 
+			{editSelectionId && (
+				<Box paddingX={1}>
+					<Text dimColor>↑↓ select | Enter edit | p pin | Esc cancel</Text>
+				</Box>
+			)}
+
+			{editingMessage && (
+				<EditMessagePrompt
+					turn={
+						session.messages
+							.filter(m => m.role === 'user')
+							.findIndex(m => m.id === editingMessage.id) + 1
+					}
+					content={editingMessage.content}
+					laterMessageCount={
+						session.messages.length - session.messages.indexOf(editingMessage) - 1
+					}
+					onSubmit={(content, mode) => {
+						void handleEditSubmit(content, mode);
+					}}
+					onCancel={() => setEditingMessageId(null)}
+				/>
+			)}
+
 			{pendingApproval && (
 				<ApprovalPrompt
 					action={pendingApproval.action}
@@ -904,6 +2109,22 @@ Use 'bash' with 'ls' to list files in the current directory.`,
 				/>
 			)}
 
+			{pendingBudget && (
+				<BudgetPrompt
+					exceeded={pendingBudget.exceeded}
+					onExtend={handleBudgetExtend}
+					onStop={handleBudgetStop}
+				/>
+			)}
+
+			{pendingResume && (
+				<ResumeInterruptedPrompt
+					content={pendingResume.content}
+					onConfirm={handleResumeConfirm}
+					onCancel={handleResumeCancel}
+				/>
+			)}
+
 			{pendingClearConfirmation && (
 				<ConfirmClearPrompt
 					messageCount={session.messages.length}
@@ -912,29 +2133,18 @@ Use 'bash' with 'ls' to list files in the current directory.`,
 				/>
 			)}
 
-			{pendingCompactConfirmation && (
+			{(pendingCompactConfirmation !== null || pendingAutoCompact) && (
 				<ConfirmCompactPrompt
-					originalMessageCount={session.messages.length}
-					estimatedCompactedCount={1 + COMPACTION_CONFIG.preserveRecentCount}
-					originalTokenEstimate={estimateConversationTokensLocal(
-						session.messages,
+					{...compactionPreview(
+						pendingCompactConfirmation ?? defaultCompactionStrategy,
 					)}
-					estimatedCompactedTokens={
-						estimateConversationTokensLocal(
-							session.messages.slice(-COMPACTION_CONFIG.preserveRecentCount),
-						) + 500
+					contextUsage={pendingAutoCompact?.contextUsage}
+					onConfirm={
+						pendingAutoCompact ? handleAutoCompactConfirm : handleCompactConfirm
 					}
-					reductionPercentage={
-						((estimateConversationTokensLocal(session.messages) -
-							(estimateConversationTokensLocal(
-								session.messages.slice(-COMPACTION_CONFIG.preserveRecentCount),
-							) +
-								500)) /
-							estimateConversationTokensLocal(session.messages)) *
-						100
+					onCancel={
+						pendingAutoCompact ? handleAutoCompactCancel : handleCompactCancel
 					}
-					onConfirm={handleCompactConfirm}
-					onCancel={handleCompactCancel}
 				/>
 			)}
 
@@ -963,19 +2173,31 @@ Use 'bash' with 'ls' to list files in the current directory.`,
 						isLoading={
 							isLoading ||
 							pendingApproval !== null ||
+							pendingBudget !== null ||
 							pendingClearConfirmation ||
-							pendingCompactConfirmation
+							pendingResume !== null ||
+							pendingCompactConfirmation !== null ||
+							pendingAutoCompact !== null ||
+							editSelectionId !== null ||
+							editingMessage !== undefined
 						}
 						placeholder="Type your message... (or /help for commands)"
 						moveCursorToEnd={shouldMoveCursorToEnd}
 					/>
 
 					<StatusBar
-						model={currentModel?.name ?? session.currentModel}
-						contextUsage={0}
+						model={
+							currentModel?.provider
+								? `${currentModel.name} (${currentModel.provider})`
+								: currentModel?.name ?? session.currentModel
+						}
+						contextUsage={getContextUsage(session)}
 						showContextUsage={config.preferences.showContextUsage}
+						contextWarningThreshold={COMPACTION_CONFIG.contextWarningThreshold}
+						contextThreshold={COMPACTION_CONFIG.contextThreshold}
 						isExecutingTools={isExecutingTools}
 						currentTool={currentTool}
+						sessionCost={sessionCost}
 					/>
 				</>
 			)}
@@ -5,6 +5,7 @@
 
 import React, {type FC} from 'react';
 import {Box, Text, useInput} from 'ink';
+import {formatContextUsage} from '../utils/formatting.js';
 
 export interface ConfirmCompactPromptProps {
 	originalMessageCount: number;
@@ -12,6 +13,8 @@ export interface ConfirmCompactPromptProps {
 	originalTokenEstimate: number;
 	estimatedCompactedTokens: number;
 	reductionPercentage: number;
+	strategy?: string; // Compaction strategy name
+	contextUsage?: number; // Set when offered because the context threshold was reached
 	onConfirm: () => void;
 	onCancel: () => void;
 }
@@ -22,6 +25,8 @@ export const ConfirmCompactPrompt: FC<ConfirmCompactPromptProps> = ({
 	originalTokenEstimate,
 	estimatedCompactedTokens,
 	reductionPercentage,
+	strategy,
+	contextUsage,
 	onConfirm,
 	onCancel,
 }) => {
@@ -42,8 +47,18 @@ export const ConfirmCompactPrompt: FC<ConfirmCompactPromptProps> = ({
 		>
 			<Text bold color="blue">
 				ℹ️  Compact Conversation History
+				{strategy ? ` (${strategy})` : ''}
 			</Text>
 			<Text> </Text>
+			{contextUsage !== undefined && (
+				<>
+					<Text color="yellow">
+						Context window is {formatContextUsage(contextUsage)} full.
+						Compact before sending the next request?
+					</Text>
+					<Text> </Text>
+				</>
+			)}
 			<Text>
 				Before: {originalMessageCount} messages (~
 				{originalTokenEstimate.toLocaleString()} tokens)
@@ -0,0 +1,86 @@
+/**
+ * Edit message prompt - rewrite an earlier prompt and resubmit it
+ */
+
+import React, {useState} from 'react';
+import {Box, Text, useInput} from 'ink';
+import {TextInputWithCursor} from './TextInputWithCursor.js';
+import type {EditResubmitMode} from '../types/index.js';
+
+export interface EditMessagePromptProps {
+	turn: number; // 1-based turn of the edited message
+	content: string; // Original message text
+	laterMessageCount: number; // Messages after the edited one
+	onSubmit: (content: string, mode: EditResubmitMode) => void;
+	onCancel: () => void;
+}
+
+export function EditMessagePrompt({
+	turn,
+	content,
+	laterMessageCount,
+	onSubmit,
+	onCancel,
+}: EditMessagePromptProps) {
+	const [text, setText] = useState(content);
+	const [choosing, setChoosing] = useState(false);
+
+	useInput((input, key) => {
+		if (key.escape) {
+			if (choosing) {
+				setChoosing(false);
+			} else {
+				onCancel();
+			}
+
+			return;
+		}
+
+		if (!choosing) {
+			return;
+		}
+
+		const char = input.toLowerCase();
+		if (char === 'r') {
+			onSubmit(text, 'replace');
+		} else if (char === 'f') {
+			onSubmit(text, 'fork');
+		}
+	});
+
+	const handleSubmit = (value: string) => {
+		if (value.trim()) {
+			setChoosing(true);
+		}
+	};
+
+	return (
+		<Box flexDirection="column" borderStyle="round" borderColor="cyan" paddingX={1}>
+			<Text bold color="cyan">
+				Edit turn {turn}
+			</Text>
+			<Box>
+				<Text color="cyan" bold>
+					{'> '}
+				</Text>
+				<TextInputWithCursor
+					value={text}
+					focus={!choosing}
+					onChange={setText}
+					onSubmit={handleSubmit}
+				/>
+			</Box>
+			<Text> </Text>
+			{choosing ? (
+				<Text>
+					<Text color="green">r</Text> replace the {laterMessageCount} later message
+					{laterMessageCount !== 1 ? 's' : ''} (restores files they changed) ·{' '}
+					<Text color="green">f</Text> fork into a new session (leaves files as they are)
+					· Esc back
+				</Text>
+			) : (
+				<Text dimColor>Enter resubmit | Shift+Enter newline | Esc cancel</Text>
+			)}
+		</Box>
+	);
+}
@@ -6,28 +6,54 @@ import React from 'react';
 import {Box, Text} from 'ink';
 import type {Message, ErrorInfo} from '../types/index.js';
 import {formatTimestamp} from '../utils/formatting.js';
+import {describeRedactions} from '../utils/redaction.js';
 
 export interface MessageListProps {
 	messages: Message[];
 	streamingContent?: string;
 	error?: ErrorInfo | null;
+	highlightMessageId?: string | null; // Message to mark (e.g., a search hit)
+	selectedMessageId?: string | null; // Message selected for editing
 }
 
-export function MessageList({messages, streamingContent, error}: MessageListProps) {
+export function MessageList({
+	messages,
+	streamingContent,
+	error,
+	highlightMessageId,
+	selectedMessageId,
+}: MessageListProps) {
 	return (
 		<Box flexDirection="column" paddingX={1} paddingY={1}>
 			{messages.map(message => {
+				const highlightProps =
+					message.id === selectedMessageId
+						? {borderStyle: 'round' as const, borderColor: 'cyan', paddingX: 1}
+						: message.id === highlightMessageId
+							? {borderStyle: 'single' as const, borderColor: 'yellow', paddingX: 1}
+							: {};
+
 				// Handle tool messages
 				if (message.role === 'tool') {
 					const toolName = message.metadata?.toolName ?? 'tool';
 					return (
-						<Box key={message.id} flexDirection="column" marginBottom={1}>
+						<Box
+							key={message.id}
+							flexDirection="column"
+							marginBottom={1}
+							{...highlightProps}
+						>
 							<Box>
 								<Text bold color="yellow">
 									[{toolName}]
 								</Text>
 								<Text dimColor> executed</Text>
 							</Box>
+							{message.metadata?.redactions && (
+								<Text color="magenta">
+									🔒 secrets: {describeRedactions(message.metadata.redactions)}
+								</Text>
+							)}
 							<Text dimColor>{message.content.substring(0, 200)}</Text>
 						</Box>
 					);
@@ -35,7 +61,12 @@ export function MessageList({messages, streamingContent, error}: MessageListProp
 
 				// Handle regular user/assistant messages
 				return (
-					<Box key={message.id} flexDirection="column" marginBottom={1}>
+					<Box
+						key={message.id}
+						flexDirection="column"
+						marginBottom={1}
+						{...highlightProps}
+					>
 						<Box>
 							<Text bold color={message.role === 'user' ? 'cyan' : 'green'}>
 								{message.role === 'user' ? 'You' : 'AI'}
@@ -44,8 +75,29 @@ export function MessageList({messages, streamingContent, error}: MessageListProp
 							{message.model && (
 								<Text dimColor> ({message.model.split('/')[1]})</Text>
 							)}
+							{message.metadata?.pinned && <Text color="yellow"> 📌 pinned</Text>}
+							{message.metadata?.interrupted && (
+								<Text color="yellow"> [interrupted - /continue]</Text>
+							)}
 						</Box>
 						<Text>{message.content}</Text>
+						{message.metadata?.alternates && message.metadata.alternates.length > 0 && (
+							<Text dimColor>
+								↺ earlier answers:{' '}
+								{message.metadata.alternates
+									.map(
+										(alternate, idx) =>
+											`${idx + 1} (${alternate.model?.split('/')[1] ?? 'no reply'})`,
+									)
+									.join(', ')}{' '}
+								- /alternate [n]
+							</Text>
+						)}
+						{message.metadata?.redactions && (
+							<Text color="magenta">
+								🔒 secrets: {describeRedactions(message.metadata.redactions)}
+							</Text>
+						)}
 						{message.metadata?.toolCalls && message.metadata.toolCalls.length > 0 && (
 							<Box flexDirection="column" marginTop={1}>
 								{message.metadata.toolCalls.map((tc, idx) => (
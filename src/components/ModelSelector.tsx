@@ -206,7 +206,11 @@ export function ModelSelector({
 									{isSelected ? '[x]' : '[ ]'}
 								</Text>
 								<Text color={isCursor ? 'cyan' : undefined}> {model.name}</Text>
-								<Text dimColor> ({model.id})</Text>
+								<Text dimColor>
+									{' '}
+									({model.provider ? `${model.provider}: ` : ''}
+									{model.id})
+								</Text>
 							</Box>
 						);
 					})
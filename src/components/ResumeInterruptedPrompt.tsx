@@ -0,0 +1,57 @@
+/**
+ * Prompt offering to continue a response that was cut off mid-stream
+ */
+
+import React, {type FC} from 'react';
+import {Box, Text, useInput} from 'ink';
+
+export interface ResumeInterruptedPromptProps {
+	content: string; // Partial response text
+	onConfirm: () => void;
+	onCancel: () => void;
+}
+
+export const ResumeInterruptedPrompt: FC<ResumeInterruptedPromptProps> = ({
+	content,
+	onConfirm,
+	onCancel,
+}) => {
+	useInput((input, key) => {
+		if (input.toLowerCase() === 'y') {
+			onConfirm();
+		} else if (input.toLowerCase() === 'n' || key.escape || key.return) {
+			onCancel();
+		}
+	});
+
+	const tail = content.length > 200 ? `…${content.slice(-200)}` : content;
+
+	return (
+		<Box
+			borderStyle="round"
+			borderColor="yellow"
+			flexDirection="column"
+			paddingX={1}
+		>
+			<Text bold color="yellow">
+				⚠️  Interrupted Response
+			</Text>
+			<Text> </Text>
+			<Text>
+				The last response stopped after {content.length.toLocaleString()}{' '}
+				characters:
+			</Text>
+			<Text dimColor>{tail}</Text>
+			<Text> </Text>
+			<Text dimColor>You can also continue it later with /continue.</Text>
+			<Text> </Text>
+			<Text>
+				Continue generating? (<Text color="green">y</Text>/
+				<Text bold color="red">
+					N
+				</Text>
+				)
+			</Text>
+		</Box>
+	);
+};
@@ -0,0 +1,120 @@
+/**
+ * Rewind picker component - choose a user turn to rewind the conversation to
+ */
+
+import React, {useState} from 'react';
+import {Box, Text, useInput} from 'ink';
+import {formatDateTime, truncate} from '../utils/formatting.js';
+
+const VISIBLE_TURNS = 15;
+
+export interface RewindTurn {
+	messageId: string; // User message that starts the turn
+	turn: number; // 1-based turn number
+	content: string; // User message text
+	timestamp: string | number;
+	changedFiles: number; // Files checkpointed during this turn
+}
+
+export interface RewindPickerProps {
+	turns: RewindTurn[];
+	onSelect: (messageId: string) => void;
+	onCancel: () => void;
+}
+
+export function RewindPicker({turns, onSelect, onCancel}: RewindPickerProps) {
+	// Start on the most recent turn
+	const [cursor, setCursor] = useState(Math.max(0, turns.length - 1));
+	const [confirming, setConfirming] = useState(false);
+
+	const selected = turns[cursor];
+
+	useInput((input, key) => {
+		if (confirming) {
+			if (input.toLowerCase() === 'y' && selected) {
+				onSelect(selected.messageId);
+			}
+
+			setConfirming(false);
+			return;
+		}
+
+		if (key.escape) {
+			onCancel();
+			return;
+		}
+
+		if (key.upArrow) {
+			setCursor(prev => Math.max(0, prev - 1));
+			return;
+		}
+
+		if (key.downArrow) {
+			setCursor(prev => Math.min(turns.length - 1, prev + 1));
+			return;
+		}
+
+		if (key.return && selected) {
+			setConfirming(true);
+		}
+	});
+
+	const windowStart = Math.max(
+		0,
+		Math.min(cursor - Math.floor(VISIBLE_TURNS / 2), turns.length - VISIBLE_TURNS),
+	);
+	const visibleTurns = turns.slice(windowStart, windowStart + VISIBLE_TURNS);
+
+	// Files restored by rewinding to the selected turn include later turns' changes
+	const filesToRestore = turns
+		.slice(cursor)
+		.reduce((total, turn) => total + turn.changedFiles, 0);
+
+	return (
+		<Box flexDirection="column" borderStyle="round" borderColor="cyan" paddingX={1}>
+			<Box marginBottom={1} flexDirection="column">
+				<Text bold color="cyan">
+					Rewind to before a turn
+				</Text>
+				<Text dimColor>↑↓ navigate | Enter rewind | Esc cancel | ✎ files changed</Text>
+			</Box>
+
+			{turns.length === 0 ? (
+				<Text color="yellow">Nothing to rewind yet.</Text>
+			) : (
+				visibleTurns.map((turn, offset) => {
+					const isCursor = windowStart + offset === cursor;
+
+					return (
+						<Box key={turn.messageId}>
+							<Text color={isCursor ? 'cyan' : undefined}>
+								{isCursor ? '>' : ' '}{' '}
+							</Text>
+							<Text dimColor>{String(turn.turn).padStart(3)}. </Text>
+							<Text bold={isCursor} color={isCursor ? 'cyan' : undefined}>
+								{truncate(turn.content.replace(/\s+/g, ' '), 60)}
+							</Text>
+							<Text dimColor> · {formatDateTime(turn.timestamp)}</Text>
+							{turn.changedFiles > 0 && (
+								<Text color="magenta"> ✎ {turn.changedFiles}</Text>
+							)}
+						</Box>
+					);
+				})
+			)}
+
+			{confirming && selected && (
+				<Box marginTop={1}>
+					<Text color="yellow">
+						Rewind to before turn {selected.turn}? This removes{' '}
+						{turns.length - cursor} turn{turns.length - cursor !== 1 ? 's' : ''}
+						{filesToRestore > 0
+							? ` and restores ${filesToRestore} file change${filesToRestore !== 1 ? 's' : ''}`
+							: ''}
+						. (y/N)
+					</Text>
+				</Box>
+			)}
+		</Box>
+	);
+}
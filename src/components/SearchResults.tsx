@@ -0,0 +1,100 @@
+/**
+ * Search results component - pick a matching message to open
+ */
+
+import React, {useState} from 'react';
+import {Box, Text, useInput} from 'ink';
+import type {SearchHit} from '../types/index.js';
+import {formatDateTime, truncate} from '../utils/formatting.js';
+
+const VISIBLE_HITS = 10;
+
+export interface SearchResultsProps {
+	query: string;
+	hits: SearchHit[];
+	currentWorkingDirectory: string;
+	onSelect: (hit: SearchHit) => void;
+	onCancel: () => void;
+}
+
+export function SearchResults({
+	query,
+	hits,
+	currentWorkingDirectory,
+	onSelect,
+	onCancel,
+}: SearchResultsProps) {
+	const [cursor, setCursor] = useState(0);
+
+	useInput((_input, key) => {
+		if (key.escape) {
+			onCancel();
+			return;
+		}
+
+		if (key.upArrow) {
+			setCursor(prev => Math.max(0, prev - 1));
+			return;
+		}
+
+		if (key.downArrow) {
+			setCursor(prev => Math.min(hits.length - 1, prev + 1));
+			return;
+		}
+
+		if (key.return && hits[cursor]) {
+			onSelect(hits[cursor]);
+		}
+	});
+
+	const windowStart = Math.max(
+		0,
+		Math.min(cursor - Math.floor(VISIBLE_HITS / 2), hits.length - VISIBLE_HITS),
+	);
+	const visibleHits = hits.slice(windowStart, windowStart + VISIBLE_HITS);
+
+	return (
+		<Box flexDirection="column" borderStyle="round" borderColor="cyan" paddingX={1}>
+			<Box marginBottom={1} flexDirection="column">
+				<Text bold color="cyan">
+					Search: "{query}" ({hits.length} result{hits.length === 1 ? '' : 's'})
+				</Text>
+				<Text dimColor>↑↓ navigate | Enter open | Esc cancel</Text>
+			</Box>
+
+			{hits.length === 0 ? (
+				<Text color="yellow">No matching messages found.</Text>
+			) : (
+				visibleHits.map((hit, offset) => {
+					const index = windowStart + offset;
+					const isCursor = index === cursor;
+					const isOtherDirectory = hit.workingDirectory !== currentWorkingDirectory;
+
+					return (
+						<Box key={`${hit.sessionId}-${hit.messageId}`} flexDirection="column">
+							<Box>
+								<Text color={isCursor ? 'cyan' : undefined}>
+									{isCursor ? '>' : ' '}{' '}
+								</Text>
+								<Text dimColor>
+									{hit.sessionId.slice(0, 8)}/{hit.messageId.slice(0, 8)}{' '}
+								</Text>
+								<Text bold={isCursor} color={isCursor ? 'cyan' : undefined}>
+									{truncate(hit.sessionTitle ?? 'Untitled', 40)}
+								</Text>
+								<Text dimColor>
+									{' '}
+									· {hit.role} · {formatDateTime(hit.timestamp)}
+								</Text>
+								{isOtherDirectory && (
+									<Text color="magenta"> · {hit.workingDirectory}</Text>
+								)}
+							</Box>
+							<Text dimColor>    {hit.snippet}</Text>
+						</Box>
+					);
+				})
+			)}
+		</Box>
+	);
+}
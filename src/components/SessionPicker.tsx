@@ -0,0 +1,194 @@
+/**
+ * Session picker component - browse, switch, rename and delete sessions
+ */
+
+import React, {useState, useEffect} from 'react';
+import {Box, Text, useInput} from 'ink';
+import TextInput from 'ink-text-input';
+import type {SessionInfo} from '../types/index.js';
+import {formatDateTime, formatMessageCount, truncate} from '../utils/formatting.js';
+
+const VISIBLE_SESSIONS = 15;
+
+export interface SessionPickerProps {
+	sessions: SessionInfo[];
+	currentSessionId?: string;
+	title?: string;
+	onSelect: (sessionId: string) => void;
+	onCancel: () => void;
+	onRename?: (sessionId: string, title: string) => void;
+	onDelete?: (sessionId: string) => void;
+}
+
+export function SessionPicker({
+	sessions,
+	currentSessionId,
+	title = 'Sessions',
+	onSelect,
+	onCancel,
+	onRename,
+	onDelete,
+}: SessionPickerProps) {
+	const [cursor, setCursor] = useState(0);
+	const [mode, setMode] = useState<'list' | 'rename' | 'confirmDelete'>('list');
+	const [renameValue, setRenameValue] = useState('');
+
+	// Keep cursor in range when the list shrinks (e.g., after delete)
+	useEffect(() => {
+		if (cursor >= sessions.length) {
+			setCursor(Math.max(0, sessions.length - 1));
+		}
+	}, [sessions.length, cursor]);
+
+	const selected = sessions[cursor];
+
+	useInput((input, key) => {
+		// In rename mode - let TextInput handle everything except Escape
+		if (mode === 'rename') {
+			if (key.escape) {
+				setMode('list');
+			}
+
+			return;
+		}
+
+		if (mode === 'confirmDelete') {
+			if (input.toLowerCase() === 'y' && selected && onDelete) {
+				onDelete(selected.id);
+			}
+
+			setMode('list');
+			return;
+		}
+
+		if (key.escape) {
+			onCancel();
+			return;
+		}
+
+		if (key.upArrow) {
+			setCursor(prev => Math.max(0, prev - 1));
+			return;
+		}
+
+		if (key.downArrow) {
+			setCursor(prev => Math.min(sessions.length - 1, prev + 1));
+			return;
+		}
+
+		if (!selected) {
+			return;
+		}
+
+		if (key.return) {
+			onSelect(selected.id);
+			return;
+		}
+
+		if (input === 'r' && onRename) {
+			setRenameValue(selected.title ?? '');
+			setMode('rename');
+			return;
+		}
+
+		if (input === 'd' && onDelete) {
+			setMode('confirmDelete');
+		}
+	});
+
+	// Scroll window that keeps the cursor visible
+	const windowStart = Math.max(
+		0,
+		Math.min(cursor - Math.floor(VISIBLE_SESSIONS / 2), sessions.length - VISIBLE_SESSIONS),
+	);
+	const visibleSessions = sessions.slice(windowStart, windowStart + VISIBLE_SESSIONS);
+
+	const hints = ['↑↓ navigate', 'Enter open'];
+	if (onRename) hints.push('r rename');
+	if (onDelete) hints.push('d delete');
+	hints.push('Esc cancel');
+	if (sessions.some(s => s.parentSessionId)) hints.push('⑂ forked from');
+
+	return (
+		<Box flexDirection="column" borderStyle="round" borderColor="cyan" paddingX={1}>
+			<Box marginBottom={1} flexDirection="column">
+				<Text bold color="cyan">
+					{title}
+				</Text>
+				<Text dimColor>{hints.join(' | ')}</Text>
+			</Box>
+
+			{sessions.length === 0 ? (
+				<Text color="yellow">No saved sessions in this directory.</Text>
+			) : (
+				visibleSessions.map((sessionInfo, offset) => {
+					const index = windowStart + offset;
+					const isCursor = index === cursor;
+					const isCurrent = sessionInfo.id === currentSessionId;
+
+					return (
+						<Box key={sessionInfo.id}>
+							<Text color={isCursor ? 'cyan' : undefined}>
+								{isCursor ? '>' : ' '}{' '}
+							</Text>
+							<Text color={isCurrent ? 'green' : undefined}>
+								{isCurrent ? '●' : ' '}{' '}
+							</Text>
+							<Text dimColor>{sessionInfo.id.slice(0, 8)} </Text>
+							<Text bold={isCursor} color={isCursor ? 'cyan' : undefined}>
+								{truncate(sessionInfo.title ?? 'Untitled', 50)}
+							</Text>
+							<Text dimColor>
+								{' '}
+								· {formatDateTime(sessionInfo.lastActivity)} ·{' '}
+								{formatMessageCount(sessionInfo.messageCount)} ·{' '}
+								{sessionInfo.model}
+							</Text>
+							{sessionInfo.parentSessionId && (
+								<Text color="magenta">
+									{' '}
+									⑂ {sessionInfo.parentSessionId.slice(0, 8)}
+								</Text>
+							)}
+						</Box>
+					);
+				})
+			)}
+
+			{sessions.length > VISIBLE_SESSIONS && (
+				<Text dimColor>
+					{cursor + 1}/{sessions.length}
+				</Text>
+			)}
+
+			{mode === 'rename' && selected && (
+				<Box marginTop={1}>
+					<Text>Rename {selected.id.slice(0, 8)}: </Text>
+					<TextInput
+						value={renameValue}
+						onChange={setRenameValue}
+						onSubmit={value => {
+							onRename?.(selected.id, value);
+							setMode('list');
+						}}
+						placeholder="New title..."
+						focus={true}
+					/>
+				</Box>
+			)}
+
+			{mode === 'confirmDelete' && selected && (
+				<Box marginTop={1}>
+					<Text color="yellow">
+						Delete session {selected.id.slice(0, 8)} and its history? (
+						<Text color="green">y</Text>/
+						<Text bold color="red">
+							N
+						</Text>
+						)
+					</Text>
+				</Box>
+			)}
+		</Box>
+	);
+}
@@ -1,10 +1,10 @@
 /**
- * Status bar component - displays current model, context usage, and todo counts
+ * Status bar component - displays current model, context usage, session cost and todo counts
  */
 
 import React from 'react';
 import {Box, Text} from 'ink';
-import {formatContextUsage} from '../utils/formatting.js';
+import {formatContextUsage, formatCost} from '../utils/formatting.js';
 
 export interface TodoCounts {
 	pending: number;
@@ -16,18 +16,24 @@ export interface StatusBarProps {
 	model: string;
 	contextUsage: number;
 	showContextUsage?: boolean;
+	contextWarningThreshold?: number; // Usage from which context is highlighted
+	contextThreshold?: number; // Usage at which the conversation is compacted
 	isExecutingTools?: boolean;
 	currentTool?: string;
 	todoCounts?: TodoCounts | null;
+	sessionCost?: number | null; // US dollars spent in this session, if known
 }
 
 export function StatusBar({
 	model,
 	contextUsage,
 	showContextUsage = true,
+	contextWarningThreshold = 1,
+	contextThreshold = 1,
 	isExecutingTools = false,
 	currentTool = '',
 	todoCounts = null,
+	sessionCost = null,
 }: StatusBarProps) {
 	// Format todo counts for display
 	const formatTodoCounts = React.useMemo(() => {
@@ -60,8 +66,20 @@ export function StatusBar({
 					</Text>
 				)}
 				<Text bold>{model}</Text>
-				{showContextUsage && (
-					<Text dimColor> | Context: {formatContextUsage(contextUsage)}</Text>
+				{contextUsage >= contextThreshold ? (
+					<Text color="red">
+						{' '}
+						| ⚠ Context: {formatContextUsage(contextUsage)} - /compact
+					</Text>
+				) : contextUsage >= contextWarningThreshold ? (
+					<Text color="yellow"> | Context: {formatContextUsage(contextUsage)}</Text>
+				) : (
+					showContextUsage && (
+						<Text dimColor> | Context: {formatContextUsage(contextUsage)}</Text>
+					)
+				)}
+				{sessionCost !== null && (
+					<Text dimColor> | {formatCost(sessionCost)}</Text>
 				)}
 				{formatTodoCounts && (
 					<Text dimColor> | Todos: {formatTodoCounts}</Text>
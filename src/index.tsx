@@ -7,15 +7,22 @@ import React from 'react';
 import {render} from 'ink';
 import {App} from './components/App.js';
 import {parseCLIArguments} from './cli.js';
+import {runSubcommand} from './commands/index.js';
 
 // Parse command-line arguments
 const options = parseCLIArguments();
 
+// Run non-interactive subcommands without rendering the UI
+if (options.command) {
+	process.exit(await runSubcommand(options.workDir!, options.command));
+}
+
 // Render the app
 const {waitUntilExit} = render(
 	<App
 		workingDirectory={options.workDir!}
 		continueSession={options.continue}
+		resumeSession={options.resume}
 		query={options.query}
 		modelId={options.model}
 	/>,
@@ -0,0 +1,243 @@
+/**
+ * File checkpoints - snapshots of files taken before tools change them
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type {Checkpoint, CheckpointFile} from '../types/index.js';
+import {CHECKPOINT_VERSION} from '../types/index.js';
+import {
+	decryptStoredValue,
+	encryptStoredValue,
+	ensureDir,
+	fileExists,
+	getCheckpointPath,
+	getCheckpointsDir,
+	readJsonFile,
+	withFileLock,
+	writeJsonFile,
+} from '../utils/storage.js';
+import {validatePath} from '../utils/path-validator.js';
+import {isEncrypted} from '../utils/encryption.js';
+
+/**
+ * Tools whose `path` argument names a file they modify
+ */
+export const CHECKPOINTED_TOOLS = new Set(['write_file', 'str_replace_file']);
+
+/**
+ * Load the checkpoint of a conversation turn
+ */
+export async function loadCheckpoint(
+	workingDirectory: string,
+	messageId: string,
+): Promise<Checkpoint | null> {
+	const checkpointPath = getCheckpointPath(workingDirectory, messageId);
+
+	if (!fileExists(checkpointPath)) {
+		return null;
+	}
+
+	try {
+		return await readJsonFile<Checkpoint>(checkpointPath);
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Snapshot a file before a tool changes it
+ * Only the first snapshot per file and turn is kept, so the checkpoint always
+ * holds the file as it was before the turn started changing it
+ */
+export async function recordFileCheckpoint(
+	workingDirectory: string,
+	turn: {sessionId: string; messageId: string},
+	filePath: string,
+): Promise<void> {
+	// Never snapshot (and later restore) files outside the working directory
+	if (!validatePath(filePath, workingDirectory).isValid) {
+		return;
+	}
+
+	const resolvedPath = path.resolve(filePath);
+	const checkpointPath = getCheckpointPath(workingDirectory, turn.messageId);
+
+	await withFileLock(checkpointPath, async () => {
+		const checkpoint: Checkpoint = (await loadCheckpoint(
+			workingDirectory,
+			turn.messageId,
+		)) ?? {
+			version: CHECKPOINT_VERSION,
+			sessionId: turn.sessionId,
+			messageId: turn.messageId,
+			createdAt: new Date().toISOString(),
+			files: [],
+		};
+
+		if (checkpoint.files.some(file => file.path === resolvedPath)) {
+			return;
+		}
+
+		let file: CheckpointFile;
+		try {
+			const content = await fs.readFile(resolvedPath);
+			file = {
+				path: resolvedPath,
+				existed: true,
+				content: await encryptStoredValue(content.toString('base64')),
+			};
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+				return; // Directories and unreadable paths fail in the tool itself
+			}
+
+			file = {path: resolvedPath, existed: false};
+		}
+
+		checkpoint.files.push(file);
+		await writeJsonFile(checkpointPath, checkpoint);
+	});
+}
+
+/**
+ * List the files changed during the given turns
+ */
+export async function getCheckpointedFiles(
+	workingDirectory: string,
+	messageIds: string[],
+): Promise<string[]> {
+	const files = new Set<string>();
+
+	for (const messageId of messageIds) {
+		const checkpoint = await loadCheckpoint(workingDirectory, messageId);
+		for (const file of checkpoint?.files ?? []) {
+			files.add(file.path);
+		}
+	}
+
+	return [...files];
+}
+
+/**
+ * Restore files to their state before the earliest of the given turns and
+ * delete those turns' checkpoints
+ * messageIds must be in conversation order
+ */
+export async function restoreCheckpoints(
+	workingDirectory: string,
+	messageIds: string[],
+): Promise<{restoredFiles: string[]; deletedFiles: string[]}> {
+	// The earliest snapshot of each file is its state before the rewound turns
+	const originals = new Map<string, CheckpointFile>();
+	for (const messageId of messageIds) {
+		const checkpoint = await loadCheckpoint(workingDirectory, messageId);
+		for (const file of checkpoint?.files ?? []) {
+			if (!originals.has(file.path)) {
+				originals.set(file.path, file);
+			}
+		}
+	}
+
+	// Decrypt everything first, so a wrong key fails before any file is touched
+	const contents = new Map<string, Buffer>();
+	for (const file of originals.values()) {
+		if (file.existed) {
+			contents.set(file.path, Buffer.from(await decryptStoredValue(file.content ?? ''), 'base64'));
+		}
+	}
+
+	const restoredFiles: string[] = [];
+	const deletedFiles: string[] = [];
+
+	for (const file of originals.values()) {
+		if (file.existed) {
+			await ensureDir(path.dirname(file.path));
+			await fs.writeFile(file.path, contents.get(file.path) ?? Buffer.alloc(0));
+			restoredFiles.push(file.path);
+		} else if (fileExists(file.path)) {
+			await fs.unlink(file.path);
+			deletedFiles.push(file.path);
+		}
+	}
+
+	for (const messageId of messageIds) {
+		await fs.rm(getCheckpointPath(workingDirectory, messageId), {force: true});
+	}
+
+	return {restoredFiles, deletedFiles};
+}
+
+/**
+ * List checkpoint files whose session is not in the given set
+ */
+export async function findOrphanedCheckpoints(
+	workingDirectory: string,
+	sessionIds: Set<string>,
+): Promise<string[]> {
+	const checkpointsDir = getCheckpointsDir(workingDirectory);
+	let entries: string[];
+	try {
+		entries = await fs.readdir(checkpointsDir);
+	} catch {
+		return [];
+	}
+
+	const orphaned: string[] = [];
+	for (const entry of entries.filter(e => e.endsWith('.json'))) {
+		const checkpointPath = path.join(checkpointsDir, entry);
+		try {
+			const checkpoint = await readJsonFile<Checkpoint>(checkpointPath);
+			if (!sessionIds.has(checkpoint.sessionId)) {
+				orphaned.push(checkpointPath);
+			}
+		} catch {
+			orphaned.push(checkpointPath); // Unreadable checkpoints cannot be restored
+		}
+	}
+
+	return orphaned;
+}
+
+/**
+ * Encrypt the file contents of every checkpoint in a working directory
+ * Returns the number of checkpoint files rewritten.
+ */
+export async function encryptCheckpoints(workingDirectory: string): Promise<number> {
+	let entries: string[];
+	try {
+		entries = await fs.readdir(getCheckpointsDir(workingDirectory));
+	} catch {
+		return 0;
+	}
+
+	let encrypted = 0;
+	for (const entry of entries.filter(e => e.endsWith('.json'))) {
+		const checkpointPath = path.join(getCheckpointsDir(workingDirectory), entry);
+		const rewritten = await withFileLock(checkpointPath, async () => {
+			const checkpoint = await readJsonFile<Checkpoint>(checkpointPath).catch(() => null);
+			const plaintext = checkpoint?.files.filter(
+				file => file.content !== undefined && !isEncrypted(file.content),
+			);
+			if (!checkpoint || !plaintext?.length) {
+				return false;
+			}
+
+			for (const file of plaintext) {
+				file.content = await encryptStoredValue(file.content ?? '');
+				if (!isEncrypted(file.content)) {
+					throw new Error('Encryption is not configured');
+				}
+			}
+
+			await writeJsonFile(checkpointPath, checkpoint);
+			return true;
+		});
+
+		if (rewritten) {
+			encrypted++;
+		}
+	}
+
+	return encrypted;
+}
@@ -0,0 +1,296 @@
+/**
+ * Conversation compaction strategies
+ */
+
+import {randomUUID} from 'node:crypto';
+import type {
+	Message,
+	CompactionConfig,
+	CompactionContext,
+	CompactionStrategy,
+	CompactionStrategyName,
+	UserPreferences,
+} from '../types/index.js';
+import {
+	estimateConversationTokens,
+	estimateTokens,
+	truncate,
+} from '../utils/formatting.js';
+import {getPinnedMessageIds} from '../utils/storage.js';
+
+const SUMMARY_PROMPT = `You are compacting a conversation history to reduce context size while preserving key information.
+
+**Compression Priorities:**
+1. Current topic/question being discussed
+2. Important facts, decisions, or conclusions reached
+3. Key context about the user's goals or project
+4. Unresolved questions or ongoing tasks
+5. Critical information that affects future responses
+
+**Compression Rules:**
+- KEEP: Current topic, user goals, important facts, unresolved issues
+- MERGE: Similar topics into summary points
+- REMOVE: Redundant explanations, verbose examples, casual chat
+- CONDENSE: Long explanations → key points only
+
+**Output format:**
+<conversation_summary>
+**Current Focus:** [What we're discussing now]
+
+**Key Points:**
+- [Important fact/decision 1]
+- [Important fact/decision 2]
+
+**Context:**
+- [Relevant background information]
+
+**Unresolved:**
+- [Open questions or pending tasks]
+</conversation_summary>`;
+
+/**
+ * Split a conversation into the leading system prompt, the older messages to
+ * compact and the messages kept verbatim: pinned older ones and recent ones
+ */
+export function splitForCompaction(
+	messages: Message[],
+	config: CompactionConfig,
+): {
+	systemMessage: Message | null;
+	olderMessages: Message[];
+	pinnedMessages: Message[];
+	recentMessages: Message[];
+} {
+	const systemMessage = messages[0]?.role === 'system' ? messages[0] : null;
+	const startIndex = systemMessage ? 1 : 0;
+
+	// Never start the recent slice with tool results cut off from their call
+	let splitIndex = Math.max(startIndex, messages.length - config.preserveRecentCount);
+	while (splitIndex > startIndex && messages[splitIndex]?.role === 'tool') {
+		splitIndex--;
+	}
+
+	const pinnedIds = getPinnedMessageIds(messages);
+	const older = messages.slice(startIndex, splitIndex);
+	return {
+		systemMessage,
+		olderMessages: older.filter(m => !pinnedIds.has(m.id)),
+		pinnedMessages: older.filter(m => pinnedIds.has(m.id)),
+		recentMessages: messages.slice(splitIndex),
+	};
+}
+
+/**
+ * Render messages as plain text for a summarization prompt
+ */
+function toTranscript(messages: Message[]): string {
+	return messages.map(m => `${m.role}: ${m.content}`).join('\n\n');
+}
+
+/**
+ * Ask a model to summarize text, enforcing the summary token limit
+ * The limit is sent as max_tokens; a summary still over it by estimate is
+ * truncated rather than discarded, since the request is already paid for
+ */
+async function summarize(
+	text: string,
+	context: CompactionContext,
+	previousSummaries = false,
+): Promise<string> {
+	const intro = previousSummaries
+		? '**Summaries of consecutive parts of the conversation, oldest first:**'
+		: '**Conversation to summarize:**';
+
+	if (context.confirmBudget && !(await context.confirmBudget())) {
+		throw new Error('Stopped: spending budget used up');
+	}
+
+	const response = await context.client.createChatCompletion({
+		model: context.model,
+		max_tokens: context.config.summaryTokenLimit,
+		messages: [
+			{
+				role: 'user',
+				content: `${SUMMARY_PROMPT}
+
+Keep the summary under ${context.config.summaryTokenLimit} tokens.
+
+${intro}
+${text}`,
+			},
+		],
+	});
+	if (response.usage) {
+		await context.recordUsage?.(response.usage);
+	}
+
+	const summary =
+		response.choices[0]?.message?.content ?? 'Summary generation failed';
+
+	return estimateTokens(summary) > context.config.summaryTokenLimit
+		? truncate(summary, context.config.summaryTokenLimit * 4)
+		: summary;
+}
+
+/**
+ * Wrap summary text in an assistant message
+ */
+function toSummaryMessage(summary: string, model: string): Message {
+	return {
+		id: randomUUID(),
+		role: 'assistant',
+		content: summary,
+		timestamp: new Date().toISOString(),
+		model,
+		metadata: {
+			tokensEstimate: estimateTokens(summary),
+		},
+	};
+}
+
+/**
+ * Group messages into chunks that stay under a token budget
+ * Tool results stay in the chunk of the call that produced them
+ */
+export function chunkMessages(messages: Message[], tokenLimit: number): Message[][] {
+	const chunks: Message[][] = [];
+	let current: Message[] = [];
+	let currentTokens = 0;
+
+	for (const message of messages) {
+		const tokens = estimateConversationTokens([message]);
+		if (current.length > 0 && currentTokens + tokens > tokenLimit && message.role !== 'tool') {
+			chunks.push(current);
+			current = [];
+			currentTokens = 0;
+		}
+
+		current.push(message);
+		currentTokens += tokens;
+	}
+
+	if (current.length > 0) {
+		chunks.push(current);
+	}
+
+	return chunks;
+}
+
+/**
+ * Replace long tool output with a stub, keeping the call it answers
+ */
+export function pruneToolMessage(message: Message, maxLength: number): Message {
+	if (message.role !== 'tool' || message.content.length <= maxLength) {
+		return message;
+	}
+
+	const lineCount = message.content.split('\n').length;
+	return {
+		...message,
+		content: `[${message.metadata?.toolName ?? 'tool'} output pruned during compaction: ${lineCount} lines, ${message.content.length} characters]`,
+	};
+}
+
+const summaryStrategy: CompactionStrategy = {
+	name: 'summary',
+	description: 'Summarize older messages with the current model',
+	usesModel: true,
+	async compact(olderMessages, context) {
+		const summary = await summarize(toTranscript(olderMessages), context);
+		return [toSummaryMessage(summary, context.model)];
+	},
+	estimateTokens: (_olderMessages, config) => config.summaryTokenLimit,
+};
+
+const pruneStrategy: CompactionStrategy = {
+	name: 'prune',
+	description: 'Replace old tool output with short stubs (no API call)',
+	usesModel: false,
+	async compact(olderMessages, context) {
+		return olderMessages.map(message =>
+			pruneToolMessage(message, context.config.prunedToolOutputLength),
+		);
+	},
+	estimateTokens: (olderMessages, config) =>
+		estimateConversationTokens(
+			olderMessages.map(message =>
+				pruneToolMessage(message, config.prunedToolOutputLength),
+			),
+		),
+};
+
+const hierarchicalStrategy: CompactionStrategy = {
+	name: 'hierarchical',
+	description: 'Summarize very long histories chunk by chunk, then combine',
+	usesModel: true,
+	async compact(olderMessages, context) {
+		let summaries: string[] = [];
+		for (const chunk of chunkMessages(olderMessages, context.config.chunkTokenLimit)) {
+			summaries.push(await summarize(toTranscript(chunk), context));
+		}
+
+		// Combine summaries level by level until one remains; each level merges
+		// as many summaries as fit in a chunk (at least two, so it always shrinks)
+		const groupSize = Math.max(
+			2,
+			Math.floor(context.config.chunkTokenLimit / context.config.summaryTokenLimit),
+		);
+		while (summaries.length > 1) {
+			const combined: string[] = [];
+			for (let index = 0; index < summaries.length; index += groupSize) {
+				const group = summaries.slice(index, index + groupSize);
+				combined.push(
+					group.length === 1
+						? group[0]
+						: await summarize(group.join('\n\n---\n\n'), context, true),
+				);
+			}
+
+			summaries = combined;
+		}
+
+		return [toSummaryMessage(summaries[0] ?? '', context.model)];
+	},
+	estimateTokens: (_olderMessages, config) => config.summaryTokenLimit,
+};
+
+const cheapModelStrategy: CompactionStrategy = {
+	...summaryStrategy,
+	name: 'cheap',
+	description: 'Summarize older messages with the configured compaction model',
+};
+
+export const COMPACTION_STRATEGIES: CompactionStrategy[] = [
+	summaryStrategy,
+	pruneStrategy,
+	hierarchicalStrategy,
+	cheapModelStrategy,
+];
+
+/**
+ * Look up a compaction strategy by name
+ */
+export function getCompactionStrategy(name: string): CompactionStrategy | null {
+	return COMPACTION_STRATEGIES.find(s => s.name === name.toLowerCase()) ?? null;
+}
+
+/**
+ * Resolve the model a strategy summarizes with
+ */
+export function resolveCompactionModel(
+	strategy: CompactionStrategyName,
+	currentModel: string,
+	preferences: UserPreferences,
+): string {
+	if (strategy !== 'cheap') {
+		return currentModel;
+	}
+
+	if (!preferences.compactionModel) {
+		throw new Error(
+			'The cheap strategy needs a compaction model (set preferences.compactionModel in config.json)',
+		);
+	}
+
+	return preferences.compactionModel;
+}
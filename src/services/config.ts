@@ -8,9 +8,28 @@ import {
 	CURRENT_CONFIG_VERSION,
 	MODEL_CACHE_TTL,
 } from '../types/index.js';
-import {loadConfig, saveConfig, ensureDir, getConfigDir} from '../utils/storage.js';
+import {
+	loadConfig,
+	saveConfig,
+	ensureDir,
+	getConfigDir,
+	encryptHistoryFile,
+	fileExists,
+	getHistoryPath,
+	listHistoryFileIds,
+	loadSessionIndex,
+	getSessionIndexPath,
+	updateSessionIndex,
+	updateSessionMetadata,
+} from '../utils/storage.js';
+import {
+	createEncryptionSettings,
+	readEncryptionSecret,
+	readKeyFile,
+} from '../utils/encryption.js';
 import {validateConfig, validateApiKey} from '../utils/validation.js';
-import {OpenRouterClient} from './openrouter.js';
+import {listProviderModels} from './providers.js';
+import {encryptCheckpoints} from './checkpoints.js';
 
 /**
  * Initialize a new configuration
@@ -80,9 +99,15 @@ export async function updateEnabledModels(
 		? config.defaultModel
 		: undefined;
 
+	// Models that stay enabled keep their settings, such as fallbacks
+	const models = modelConfigs.map(m => ({
+		...config.models.find(existing => existing.id === m.id),
+		...m,
+	}));
+
 	const updatedConfig = {
 		...config,
-		models: modelConfigs,
+		models,
 		defaultModel,
 	};
 
@@ -142,20 +167,19 @@ export function getCurrentModel(config: Configuration): ModelConfig | null {
 }
 
 /**
- * Refresh model cache from API
+ * Refresh model cache from the APIs of all providers
  */
 export async function refreshModelCache(
 	config: Configuration,
 ): Promise<Configuration> {
-	const client = new OpenRouterClient({apiKey: config.apiKey});
-	const response = await client.listModels();
+	const models = await listProviderModels(config);
 
 	const updatedConfig = {
 		...config,
 		modelCache: {
 			lastUpdated: new Date().toISOString(),
 			ttl: MODEL_CACHE_TTL,
-			models: response.data as Model[],
+			models,
 		},
 	};
 
@@ -218,6 +242,7 @@ export function migrateConfig(oldConfig: Configuration): Configuration {
 	return {
 		version: CURRENT_CONFIG_VERSION,
 		apiKey: oldConfig.apiKey,
+		providers: oldConfig.providers,
 		models: oldConfig.models || [],
 		defaultModel: oldConfig.defaultModel,
 		preferences: {
@@ -225,6 +250,7 @@ export function migrateConfig(oldConfig: Configuration): Configuration {
 			...oldConfig.preferences,
 		},
 		modelCache: oldConfig.modelCache,
+		encryption: oldConfig.encryption,
 	};
 }
 
@@ -235,3 +261,66 @@ export async function ensureConfigDir(): Promise<void> {
 	const configDir = getConfigDir();
 	await ensureDir(configDir);
 }
+
+/**
+ * Turn on encryption at rest and encrypt the API key
+ * The key is derived from keyFile when given, otherwise from YOLO_PASSPHRASE.
+ */
+export async function enableEncryption(
+	config: Configuration,
+	keyFile?: string,
+): Promise<Configuration> {
+	if (config.encryption) {
+		throw new Error('Encryption is already enabled');
+	}
+
+	const secret = keyFile ? await readKeyFile(keyFile) : await readEncryptionSecret();
+	const {settings} = await createEncryptionSettings(secret, keyFile);
+	const updatedConfig = {...config, encryption: settings};
+
+	await saveConfig(updatedConfig);
+	return updatedConfig;
+}
+
+/**
+ * Encrypt the history files, checkpoints and session titles of every
+ * directory YOLO CLI knows about
+ * Returns the number of files of each kind rewritten.
+ */
+export async function encryptStoredHistory(
+	workingDirectory: string,
+): Promise<{historyFiles: number; checkpoints: number; sessionMetadataFiles: number}> {
+	const directories = new Set([
+		workingDirectory,
+		...(await loadSessionIndex()).sessions.map(s => s.workingDirectory),
+	]);
+
+	let encrypted = 0;
+	let checkpoints = 0;
+	let sessionMetadataFiles = 0;
+	for (const directory of directories) {
+		const sessionIds: Array<string | undefined> = await listHistoryFileIds(directory);
+		if (fileExists(getHistoryPath(directory))) {
+			sessionIds.push(undefined); // Legacy single-session history.jsonl
+		}
+
+		for (const sessionId of sessionIds) {
+			if (await encryptHistoryFile(directory, sessionId)) {
+				encrypted++;
+			}
+		}
+
+		checkpoints += await encryptCheckpoints(directory);
+
+		// Rewriting session metadata encrypts the titles in it
+		if (await updateSessionMetadata(directory, metadata => metadata)) {
+			sessionMetadataFiles++;
+		}
+	}
+
+	if (fileExists(getSessionIndexPath())) {
+		await updateSessionIndex(() => {});
+	}
+
+	return {historyFiles: encrypted, checkpoints, sessionMetadataFiles};
+}
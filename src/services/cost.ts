@@ -0,0 +1,350 @@
+/**
+ * Token usage and cost tracking
+ */
+
+import fs from 'node:fs/promises';
+import type {
+	BudgetExceeded,
+	BudgetScope,
+	BudgetSettings,
+	DailyUsage,
+	Message,
+	MessageUsage,
+	Model,
+	Session,
+	TokenUsage,
+	UsageLedgerEntry,
+	UsageTotals,
+} from '../types/index.js';
+import {
+	ensureDir,
+	getConfigDir,
+	getUsageLedgerPath,
+	readRawHistory,
+	withFileLock,
+} from '../utils/storage.js';
+import {formatCost, formatTokenCount} from '../utils/formatting.js';
+
+// Exit code of `yolo -q` runs stopped by a budget limit
+export const BUDGET_EXCEEDED_EXIT_CODE = 3;
+
+const BUDGET_SCOPES: BudgetScope[] = ['request', 'session', 'day'];
+
+/**
+ * Convert provider-reported usage to what is stored on a message
+ * Cost comes from the model's per-token pricing; when the model is not in the
+ * cache, the cost OpenRouter reported is used instead.
+ */
+export function toMessageUsage(usage: TokenUsage, model?: Model): MessageUsage {
+	const cost = model
+		? usage.prompt_tokens * Number.parseFloat(model.pricing.prompt) +
+			usage.completion_tokens * Number.parseFloat(model.pricing.completion)
+		: usage.cost;
+
+	return {
+		promptTokens: usage.prompt_tokens,
+		completionTokens: usage.completion_tokens,
+		...(cost !== undefined && Number.isFinite(cost) ? {cost} : {}),
+	};
+}
+
+/**
+ * Add the usage of a continued response to what the first part used
+ */
+export function addUsage(
+	previous: MessageUsage | undefined,
+	usage: MessageUsage,
+): MessageUsage {
+	if (!previous) {
+		return usage;
+	}
+
+	return {
+		promptTokens: previous.promptTokens + usage.promptTokens,
+		completionTokens: previous.completionTokens + usage.completionTokens,
+		...(previous.cost !== undefined || usage.cost !== undefined
+			? {cost: (previous.cost ?? 0) + (usage.cost ?? 0)}
+			: {}),
+	};
+}
+
+/**
+ * Messages with their alternates (answers discarded by /retry still cost money)
+ */
+function withAlternates(messages: Message[]): Message[] {
+	return messages.flatMap(message => [
+		message,
+		...withAlternates(
+			message.metadata?.alternates?.flatMap(alternate => alternate.messages) ?? [],
+		),
+	]);
+}
+
+function emptyTotals(): UsageTotals {
+	return {promptTokens: 0, completionTokens: 0, cost: 0, responses: 0};
+}
+
+function addToTotals(totals: UsageTotals, usage: MessageUsage): void {
+	totals.promptTokens += usage.promptTokens;
+	totals.completionTokens += usage.completionTokens;
+	totals.cost += usage.cost ?? 0;
+	totals.responses++;
+}
+
+/**
+ * Add up the usage recorded on messages
+ */
+export function summarizeUsage(messages: Message[]): UsageTotals {
+	const totals = emptyTotals();
+	for (const message of withAlternates(messages)) {
+		if (message.metadata?.usage) {
+			addToTotals(totals, message.metadata.usage);
+		}
+	}
+
+	return totals;
+}
+
+/**
+ * Local date of a timestamp as YYYY-MM-DD
+ */
+export function toLocalDate(timestamp: string | number): string {
+	const date = new Date(timestamp);
+	const month = String(date.getMonth() + 1).padStart(2, '0');
+	const day = String(date.getDate()).padStart(2, '0');
+	return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Add up the usage recorded on messages per local day, newest day first
+ */
+export function summarizeUsageByDay(messages: Message[]): DailyUsage[] {
+	const days = new Map<string, DailyUsage>();
+	for (const message of withAlternates(messages)) {
+		const usage = message.metadata?.usage;
+		if (!usage) {
+			continue;
+		}
+
+		const date = toLocalDate(message.timestamp);
+		const totals = days.get(date) ?? {date, ...emptyTotals()};
+		addToTotals(totals, usage);
+		days.set(date, totals);
+	}
+
+	return [...days.values()].sort((a, b) => b.date.localeCompare(a.date));
+}
+
+/**
+ * Usage of everything stored for a session, including messages replaced by
+ * compaction
+ */
+export async function loadSessionUsage(session: Session): Promise<UsageTotals> {
+	return summarizeUsage(await readRawHistory(session.workingDirectory, session.id));
+}
+
+/**
+ * Append a response's usage to the usage ledger
+ * Unlike usage stored on messages, the ledger keeps spending that /clear,
+ * /rewind, history limits or deleted sessions remove from history.
+ */
+export async function recordUsage(
+	session: Session,
+	usage: MessageUsage,
+	model?: string,
+	now = Date.now(),
+): Promise<void> {
+	const entry: UsageLedgerEntry = {
+		timestamp: new Date(now).toISOString(),
+		date: toLocalDate(now),
+		sessionId: session.id,
+		workingDirectory: session.workingDirectory,
+		...(model ? {model} : {}),
+		...usage,
+	};
+
+	const ledgerPath = getUsageLedgerPath();
+	await ensureDir(getConfigDir());
+	await withFileLock(ledgerPath, async () => {
+		await fs.appendFile(ledgerPath, `${JSON.stringify(entry)}\n`, 'utf-8');
+	});
+}
+
+// Running totals of the usage ledger, keyed by path. Only lines appended
+// since the last read are parsed; a replaced or truncated ledger is reread.
+interface LedgerTotals {
+	inode: number;
+	size: number; // Bytes read, up to the end of the last complete line
+	days: Map<string, UsageTotals>;
+	sessions: Map<string, {totals: UsageTotals; entries: LedgerUsage[]}>;
+}
+
+interface LedgerUsage {
+	time: number; // Milliseconds since the epoch
+	usage: MessageUsage;
+}
+
+const ledgerTotals = new Map<string, LedgerTotals>();
+let ledgerRead: Promise<unknown> = Promise.resolve();
+
+function addLedgerEntry(totals: LedgerTotals, entry: UsageLedgerEntry): void {
+	const day = totals.days.get(entry.date) ?? emptyTotals();
+	addToTotals(day, entry);
+	totals.days.set(entry.date, day);
+
+	const session = totals.sessions.get(entry.sessionId) ?? {
+		totals: emptyTotals(),
+		entries: [],
+	};
+	addToTotals(session.totals, entry);
+	session.entries.push({time: Date.parse(entry.timestamp), usage: entry});
+	totals.sessions.set(entry.sessionId, session);
+}
+
+/**
+ * Bring the running totals up to date with the usage ledger, parsing only
+ * what was appended since the last call and skipping malformed lines
+ */
+async function updateLedgerTotals(ledgerPath: string): Promise<LedgerTotals> {
+	let handle: fs.FileHandle;
+	try {
+		handle = await fs.open(ledgerPath, 'r');
+	} catch {
+		ledgerTotals.delete(ledgerPath);
+		return {inode: 0, size: 0, days: new Map(), sessions: new Map()};
+	}
+
+	try {
+		const stat = await handle.stat();
+		let totals = ledgerTotals.get(ledgerPath);
+		if (!totals || totals.inode !== stat.ino || totals.size > stat.size) {
+			totals = {inode: stat.ino, size: 0, days: new Map(), sessions: new Map()};
+			ledgerTotals.set(ledgerPath, totals);
+		}
+
+		if (stat.size === totals.size) {
+			return totals;
+		}
+
+		const buffer = Buffer.alloc(stat.size - totals.size);
+		const {bytesRead} = await handle.read(buffer, 0, buffer.length, totals.size);
+		const end = buffer.lastIndexOf(0x0a, bytesRead - 1) + 1; // A line still being written waits
+		for (const line of buffer.subarray(0, end).toString('utf-8').split('\n')) {
+			try {
+				if (line.trim()) {
+					addLedgerEntry(totals, JSON.parse(line) as UsageLedgerEntry);
+				}
+			} catch {
+				// A line cut short by a crash
+			}
+		}
+
+		totals.size += end;
+		return totals;
+	} finally {
+		await handle.close();
+	}
+}
+
+/**
+ * Running totals of the usage ledger, one update at a time
+ */
+async function loadLedgerTotals(): Promise<LedgerTotals> {
+	const update = ledgerRead.then(async () => updateLedgerTotals(getUsageLedgerPath()));
+	ledgerRead = update.catch(() => undefined);
+	return update;
+}
+
+/**
+ * Usage of every session per local day from the usage ledger, newest day first
+ * These are the same totals the day budget is checked against.
+ */
+export async function loadDailyUsage(): Promise<DailyUsage[]> {
+	const {days} = await loadLedgerTotals();
+	return [...days.entries()]
+		.map(([date, totals]) => ({date, ...totals}))
+		.sort((a, b) => b.date.localeCompare(a.date));
+}
+
+/**
+ * Spending to check budgets against, from the usage ledger
+ * request covers the session's usage since requestStartedAt (ISO 8601), and
+ * day every session's usage on the local day of now.
+ */
+export async function loadBudgetUsage(
+	sessionId: string,
+	requestStartedAt?: string,
+	now = Date.now(),
+): Promise<Record<BudgetScope, UsageTotals>> {
+	const {days, sessions} = await loadLedgerTotals();
+	const session = sessions.get(sessionId);
+	const request = emptyTotals();
+	const requestStart = requestStartedAt ? Date.parse(requestStartedAt) : Infinity;
+
+	// Entries are appended in time order, so the request's are at the end
+	const entries = session?.entries ?? [];
+	for (let i = entries.length - 1; i >= 0; i--) {
+		const entry = entries[i];
+		if (!entry || entry.time < requestStart) {
+			break;
+		}
+
+		addToTotals(request, entry.usage);
+	}
+
+	return {
+		request,
+		session: {...(session?.totals ?? emptyTotals())},
+		day: {...(days.get(toLocalDate(now)) ?? emptyTotals())},
+	};
+}
+
+/**
+ * Find the first budget limit the spending has reached
+ * Each extension raises a scope's limits by their configured amount.
+ */
+export function checkBudget(
+	budget: BudgetSettings | undefined,
+	spent: Record<BudgetScope, UsageTotals>,
+	extensions: Partial<Record<BudgetScope, number>> = {},
+): BudgetExceeded | null {
+	for (const scope of BUDGET_SCOPES) {
+		const limit = budget?.[scope];
+		const factor = 1 + (extensions[scope] ?? 0);
+		const usage = spent[scope];
+
+		if (limit?.dollars !== undefined && usage.cost >= limit.dollars * factor) {
+			return {
+				scope,
+				unit: 'dollars',
+				limit: limit.dollars * factor,
+				used: usage.cost,
+				step: limit.dollars,
+			};
+		}
+
+		const tokens = usage.promptTokens + usage.completionTokens;
+		if (limit?.tokens !== undefined && tokens >= limit.tokens * factor) {
+			return {scope, unit: 'tokens', limit: limit.tokens * factor, used: tokens, step: limit.tokens};
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Format a budget amount, e.g. "$2.00" or "200,000 tokens"
+ */
+export function formatBudgetAmount(amount: number, unit: BudgetExceeded['unit']): string {
+	return unit === 'dollars' ? formatCost(amount) : `${formatTokenCount(amount)} tokens`;
+}
+
+/**
+ * Describe a reached budget, e.g. "Session budget reached: $2.03 of $2.00"
+ */
+export function describeBudgetExceeded(exceeded: BudgetExceeded): string {
+	const scope = exceeded.scope.charAt(0).toUpperCase() + exceeded.scope.slice(1);
+	const used =
+		exceeded.unit === 'dollars' ? formatCost(exceeded.used) : formatTokenCount(exceeded.used);
+	return `${scope} budget reached: ${used} of ${formatBudgetAmount(exceeded.limit, exceeded.unit)}`;
+}
@@ -0,0 +1,355 @@
+/**
+ * Session export to Markdown, standalone HTML and normalized JSON
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type {
+	Session,
+	SessionInfo,
+	Message,
+	ExportFormat,
+	SessionExport,
+} from '../types/index.js';
+import {SESSION_EXPORT_VERSION} from '../types/index.js';
+import {ensureDir, loadSessionMetadata} from '../utils/storage.js';
+import {deriveSessionTitle} from './session.js';
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+	md: 'md',
+	html: 'html',
+	json: 'json',
+};
+
+/**
+ * Parse a user-supplied format name
+ */
+export function parseExportFormat(value: string): ExportFormat | null {
+	switch (value.toLowerCase()) {
+		case 'md':
+		case 'markdown': {
+			return 'md';
+		}
+
+		case 'html':
+		case 'htm': {
+			return 'html';
+		}
+
+		case 'json': {
+			return 'json';
+		}
+
+		default: {
+			return null;
+		}
+	}
+}
+
+/**
+ * Format a message timestamp as ISO 8601
+ */
+function toISO(timestamp: string | number): string {
+	const date = new Date(timestamp);
+	return Number.isNaN(date.getTime()) ? String(timestamp) : date.toISOString();
+}
+
+/**
+ * Describe token usage (actual when recorded, otherwise the estimate)
+ */
+function describeTokens(message: Message): string | null {
+	if (message.metadata?.tokensUsed !== undefined) {
+		return `${message.metadata.tokensUsed} tokens`;
+	}
+
+	if (message.metadata?.tokensEstimate !== undefined) {
+		return `~${message.metadata.tokensEstimate} tokens (est.)`;
+	}
+
+	return null;
+}
+
+/**
+ * Pretty-print tool call arguments when they are valid JSON
+ */
+function formatArguments(argumentsJson: string): string {
+	try {
+		return JSON.stringify(JSON.parse(argumentsJson), null, 2);
+	} catch {
+		return argumentsJson;
+	}
+}
+
+/**
+ * Wrap text in a Markdown code fence longer than any backtick run inside it
+ */
+function fence(text: string, language = ''): string {
+	const longestRun = Math.max(
+		0,
+		...(text.match(/`+/g) ?? []).map(run => run.length),
+	);
+	const marker = '`'.repeat(Math.max(3, longestRun + 1));
+	return `${marker}${language}\n${text}\n${marker}`;
+}
+
+/**
+ * Escape text for HTML output
+ */
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;');
+}
+
+/**
+ * Resolve a title for the export header
+ */
+function resolveTitle(session: Session, sessionInfo?: SessionInfo): string {
+	return (
+		sessionInfo?.title ??
+		deriveSessionTitle(session.messages) ??
+		`Session ${session.id.slice(0, 8)}`
+	);
+}
+
+/**
+ * Build the header label for a message
+ */
+function describeMessage(message: Message): string {
+	const parts: string[] = [];
+
+	switch (message.role) {
+		case 'user': {
+			parts.push('User');
+			break;
+		}
+
+		case 'assistant': {
+			parts.push(message.model ? `Assistant (${message.model})` : 'Assistant');
+			break;
+		}
+
+		case 'system': {
+			parts.push('System');
+			break;
+		}
+
+		case 'tool': {
+			parts.push(`Tool result: ${message.metadata?.toolName ?? 'tool'}`);
+			break;
+		}
+	}
+
+	parts.push(toISO(message.timestamp));
+
+	const tokens = describeTokens(message);
+	if (tokens) {
+		parts.push(tokens);
+	}
+
+	return parts.join(' · ');
+}
+
+/**
+ * Render a session as Markdown
+ */
+export function renderMarkdown(session: Session, sessionInfo?: SessionInfo): string {
+	const lines: string[] = [
+		`# ${resolveTitle(session, sessionInfo)}`,
+		'',
+		`- **Session:** \`${session.id}\``,
+		`- **Working directory:** \`${session.workingDirectory}\``,
+		`- **Created:** ${session.createdAt}`,
+		`- **Model:** ${session.currentModel}`,
+		`- **Messages:** ${session.messages.length}`,
+	];
+
+	if (sessionInfo?.parentSessionId) {
+		lines.push(`- **Forked from:** \`${sessionInfo.parentSessionId}\``);
+	}
+
+	lines.push('', '---', '');
+
+	for (const message of session.messages) {
+		lines.push(`## ${describeMessage(message)}`, '');
+
+		if (message.role === 'tool') {
+			if (message.metadata?.toolCallId) {
+				lines.push(`Call ID: \`${message.metadata.toolCallId}\``, '');
+			}
+
+			lines.push(fence(message.content), '');
+			continue;
+		}
+
+		if (message.content) {
+			lines.push(message.content, '');
+		}
+
+		for (const toolCall of message.metadata?.toolCalls ?? []) {
+			lines.push(
+				`**Tool call:** \`${toolCall.function.name}\` (\`${toolCall.id}\`)`,
+				'',
+				fence(formatArguments(toolCall.function.arguments), 'json'),
+				'',
+			);
+		}
+	}
+
+	return lines.join('\n');
+}
+
+/**
+ * Render a session as a standalone HTML document
+ */
+export function renderHtml(session: Session, sessionInfo?: SessionInfo): string {
+	const title = escapeHtml(resolveTitle(session, sessionInfo));
+
+	const messages = session.messages
+		.map(message => {
+			const toolCalls = (message.metadata?.toolCalls ?? [])
+				.map(
+					toolCall => `
+			<details class="tool-call">
+				<summary>Tool call: <code>${escapeHtml(toolCall.function.name)}</code> <span class="meta">${escapeHtml(toolCall.id)}</span></summary>
+				<pre>${escapeHtml(formatArguments(toolCall.function.arguments))}</pre>
+			</details>`,
+				)
+				.join('');
+
+			const body =
+				message.role === 'tool'
+					? `<details><summary>Output${message.metadata?.toolCallId ? ` <span class="meta">${escapeHtml(message.metadata.toolCallId)}</span>` : ''}</summary><pre>${escapeHtml(message.content)}</pre></details>`
+					: message.content
+						? `<pre class="content">${escapeHtml(message.content)}</pre>`
+						: '';
+
+			return `
+		<section class="message ${message.role}" id="msg-${escapeHtml(message.id)}">
+			<header>${escapeHtml(describeMessage(message))}</header>
+			${body}${toolCalls}
+		</section>`;
+		})
+		.join('');
+
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+	<meta charset="utf-8">
+	<meta name="viewport" content="width=device-width, initial-scale=1">
+	<title>${title}</title>
+	<style>
+		body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; }
+		dl.summary { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; }
+		dl.summary dt { font-weight: 600; }
+		dl.summary dd { margin: 0; }
+		.message { border: 1px solid #d0d7de; border-radius: 6px; margin: 1rem 0; padding: 0.75rem 1rem; }
+		.message header { font-size: 0.85rem; color: #57606a; margin-bottom: 0.5rem; }
+		.message.user { border-left: 4px solid #0969da; }
+		.message.assistant { border-left: 4px solid #1a7f37; }
+		.message.system { border-left: 4px solid #8250df; }
+		.message.tool { border-left: 4px solid #bf8700; background: #f6f8fa; }
+		pre { white-space: pre-wrap; word-wrap: break-word; margin: 0; font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 0.85rem; }
+		pre.content { font-family: inherit; font-size: 1rem; }
+		details { margin-top: 0.5rem; }
+		.meta { color: #57606a; font-size: 0.8rem; }
+	</style>
+</head>
+<body>
+	<h1>${title}</h1>
+	<dl class="summary">
+		<dt>Session</dt><dd><code>${escapeHtml(session.id)}</code></dd>
+		<dt>Working directory</dt><dd><code>${escapeHtml(session.workingDirectory)}</code></dd>
+		<dt>Created</dt><dd>${escapeHtml(session.createdAt)}</dd>
+		<dt>Model</dt><dd>${escapeHtml(session.currentModel)}</dd>
+		<dt>Messages</dt><dd>${session.messages.length}</dd>${
+			sessionInfo?.parentSessionId
+				? `
+		<dt>Forked from</dt><dd><code>${escapeHtml(sessionInfo.parentSessionId)}</code></dd>`
+				: ''
+		}
+	</dl>
+	<main>${messages}
+	</main>
+</body>
+</html>
+`;
+}
+
+/**
+ * Build the normalized JSON export object
+ */
+export function buildSessionExport(
+	session: Session,
+	sessionInfo?: SessionInfo,
+): SessionExport {
+	return {
+		format: 'yolo-session',
+		version: SESSION_EXPORT_VERSION,
+		exportedAt: new Date().toISOString(),
+		session: {
+			id: session.id,
+			workingDirectory: session.workingDirectory,
+			createdAt: session.createdAt,
+			currentModel: session.currentModel,
+			title: sessionInfo?.title ?? deriveSessionTitle(session.messages),
+			parentSessionId: sessionInfo?.parentSessionId,
+			forkedFromMessageId: sessionInfo?.forkedFromMessageId,
+			messages: session.messages,
+		},
+	};
+}
+
+/**
+ * Render a session in the requested format
+ */
+export function renderSession(
+	session: Session,
+	format: ExportFormat,
+	sessionInfo?: SessionInfo,
+): string {
+	switch (format) {
+		case 'md': {
+			return renderMarkdown(session, sessionInfo);
+		}
+
+		case 'html': {
+			return renderHtml(session, sessionInfo);
+		}
+
+		case 'json': {
+			return JSON.stringify(buildSessionExport(session, sessionInfo), null, 2) + '\n';
+		}
+	}
+}
+
+/**
+ * Default export file path in the session's working directory
+ */
+export function getDefaultExportPath(session: Session, format: ExportFormat): string {
+	return path.join(
+		session.workingDirectory,
+		`yolo-session-${session.id.slice(0, 8)}.${FILE_EXTENSIONS[format]}`,
+	);
+}
+
+/**
+ * Export a session to a file and return the written path
+ */
+export async function exportSession(
+	session: Session,
+	format: ExportFormat,
+	outputPath?: string,
+): Promise<string> {
+	const metadata = await loadSessionMetadata(session.workingDirectory);
+	const sessionInfo = metadata?.sessions.find(s => s.id === session.id);
+
+	const targetPath = outputPath ?? getDefaultExportPath(session, format);
+	await ensureDir(path.dirname(targetPath));
+	await fs.writeFile(targetPath, renderSession(session, format, sessionInfo), 'utf-8');
+
+	return targetPath;
+}
@@ -0,0 +1,132 @@
+/**
+ * Fallback model chains - retry a failed request on the next model
+ */
+
+import type {
+	ChatCompletionChunk,
+	ChatCompletionRequest,
+	Configuration,
+	FallbackReason,
+} from '../types/index.js';
+import {createModelClient, DEFAULT_PROVIDER, getModelProviderName} from './providers.js';
+
+const FALLBACK_REASON_LABELS: Record<FallbackReason, string> = {
+	'server-error': 'server error',
+	'rate-limit': 'rate limited',
+	'context-length': 'context too long',
+};
+
+const CONTEXT_LENGTH_ERROR =
+	/context[ _](length|size|window)|too many tokens|prompt is too long/i;
+
+/**
+ * Get a model followed by its fallbacks, without repeats
+ * A model's own fallbacks take precedence over preferences.fallbackModels.
+ */
+export function getFallbackChain(config: Configuration, modelId: string): string[] {
+	const fallbacks =
+		config.models.find(m => m.id === modelId)?.fallbacks ??
+		config.preferences.fallbackModels ??
+		[];
+
+	return [...new Set([modelId, ...fallbacks])];
+}
+
+/**
+ * Classify a failed request; null when another model would not help
+ */
+export function classifyModelFailure(error: unknown): FallbackReason | null {
+	if (!(error instanceof Error) || error.name === 'AbortError') {
+		return null;
+	}
+
+	const {status} = error as Error & {status?: number};
+	if (status === 429) {
+		return 'rate-limit';
+	}
+
+	if (status !== undefined && status >= 500) {
+		return 'server-error';
+	}
+
+	return CONTEXT_LENGTH_ERROR.test(error.message) ? 'context-length' : null;
+}
+
+/**
+ * Split a fallback chain into the models each request is sent with
+ * With OpenRouter routing, consecutive OpenRouter models share one request.
+ */
+export function groupFallbackChain(config: Configuration, chain: string[]): string[][] {
+	if (config.preferences.fallbackRouting !== 'openrouter') {
+		return chain.map(model => [model]);
+	}
+
+	const groups: string[][] = [];
+	let previousRouted = false;
+	for (const model of chain) {
+		const routed = getModelProviderName(config, model) === DEFAULT_PROVIDER;
+		const last = groups.at(-1);
+		if (routed && previousRouted && last) {
+			last.push(model);
+		} else {
+			groups.push([model]);
+		}
+
+		previousRouted = routed;
+	}
+
+	return groups;
+}
+
+/**
+ * Stream a chat completion, moving down the model's fallback chain on failure
+ * Only a request that fails before its first chunk falls back. onFallback is
+ * told which model answers instead and gets a notice to show; with OpenRouter
+ * routing it is also called when OpenRouter picked a fallback itself.
+ */
+export async function* streamWithFallback(
+	config: Configuration,
+	request: ChatCompletionRequest,
+	onFallback: (model: string, notice: string) => void,
+	signal?: AbortSignal,
+): AsyncGenerator<ChatCompletionChunk> {
+	const groups = groupFallbackChain(config, getFallbackChain(config, request.model));
+
+	for (const [index, group] of groups.entries()) {
+		const model = group[0] ?? request.model;
+		const stream = createModelClient(config, model).streamChatCompletion(
+			{...request, model, ...(group.length > 1 ? {models: group} : {})},
+			signal,
+		);
+
+		let first: IteratorResult<ChatCompletionChunk>;
+		try {
+			first = await stream.next();
+		} catch (error) {
+			const reason = classifyModelFailure(error);
+			const next = groups[index + 1]?.[0];
+			if (!reason || !next) {
+				throw error;
+			}
+
+			onFallback(
+				next,
+				`⚠️ ${group.join(', ')} failed (${FALLBACK_REASON_LABELS[reason]}), retrying with ${next}`,
+			);
+			continue;
+		}
+
+		if (first.done) {
+			return;
+		}
+
+		const routed = first.value.model;
+		if (routed !== model && group.includes(routed)) {
+			onFallback(routed, `⚠️ OpenRouter answered with fallback model ${routed}`);
+		}
+
+		yield first.value;
+		yield* stream;
+		return;
+	}
+}
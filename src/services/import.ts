@@ -0,0 +1,450 @@
+/**
+ * Conversation import from yolo JSON exports and OpenAI-style message arrays
+ */
+
+import fs from 'node:fs/promises';
+import {randomUUID} from 'node:crypto';
+import type {
+	Session,
+	Message,
+	ToolCall,
+	SessionExport,
+	ImportSource,
+	ImportReport,
+	ImportOptions,
+} from '../types/index.js';
+import {appendMessages} from '../utils/storage.js';
+import {
+	validateMessage,
+	validateMessageAlternation,
+	validateChronologicalOrder,
+	isValidISODate,
+	MAX_MESSAGE_LENGTH,
+} from '../utils/validation.js';
+import {estimateConversationTokens} from '../utils/formatting.js';
+import {deriveSessionTitle, registerSession} from './session.js';
+
+const SUPPORTED_ROLES = new Set(['user', 'assistant', 'system', 'tool']);
+
+export interface ParsedImport {
+	source: ImportSource;
+	rawMessages: unknown[];
+	title?: string;
+	model?: string;
+}
+
+export interface ImportResult {
+	session: Session | null; // null when unrepairable problems blocked the import
+	report: ImportReport;
+}
+
+/**
+ * Collects repairs by kind so reports stay short for large conversations
+ */
+class RepairLog {
+	private readonly counts = new Map<string, number>();
+
+	add(kind: string): void {
+		this.counts.set(kind, (this.counts.get(kind) ?? 0) + 1);
+	}
+
+	toStrings(): string[] {
+		return [...this.counts].map(
+			([kind, count]) => `${kind} (${count} message${count === 1 ? '' : 's'})`,
+		);
+	}
+}
+
+/**
+ * Detect the file format and extract raw messages
+ */
+export function parseImportContent(content: string): ParsedImport {
+	let data: unknown;
+	try {
+		data = JSON.parse(content);
+	} catch {
+		throw new Error('Import file is not valid JSON');
+	}
+
+	if (Array.isArray(data)) {
+		return {source: 'openai', rawMessages: data};
+	}
+
+	if (data && typeof data === 'object') {
+		const exported = data as Partial<SessionExport>;
+		if (exported.format === 'yolo-session' && exported.session) {
+			if (!Array.isArray(exported.session.messages)) {
+				throw new Error('yolo export has no messages array');
+			}
+
+			return {
+				source: 'yolo-export',
+				rawMessages: exported.session.messages,
+				title: exported.session.title,
+				model: exported.session.currentModel,
+			};
+		}
+
+		const withMessages = data as {messages?: unknown; model?: unknown};
+		if (Array.isArray(withMessages.messages)) {
+			return {
+				source: 'openai',
+				rawMessages: withMessages.messages,
+				model:
+					typeof withMessages.model === 'string' ? withMessages.model : undefined,
+			};
+		}
+	}
+
+	throw new Error(
+		'Unrecognized import format (expected a yolo JSON export or an OpenAI-style messages array)',
+	);
+}
+
+/**
+ * Flatten OpenAI content (string, null or array of parts) into text
+ */
+function normalizeContent(content: unknown, repairs: RepairLog): string | null {
+	if (typeof content === 'string') {
+		return content;
+	}
+
+	if (content === null || content === undefined) {
+		return '';
+	}
+
+	if (Array.isArray(content)) {
+		repairs.add('flattened content parts to text');
+		return content
+			.map(part =>
+				part && typeof part === 'object' && typeof (part as {text?: unknown}).text === 'string'
+					? (part as {text: string}).text
+					: '',
+			)
+			.filter(text => text.length > 0)
+			.join('\n');
+	}
+
+	return null;
+}
+
+/**
+ * Normalize a timestamp to a value validateMessage accepts
+ */
+function normalizeTimestamp(
+	timestamp: unknown,
+	repairs: RepairLog,
+): string | number | null {
+	if (typeof timestamp === 'number' && Number.isFinite(timestamp) && timestamp > 0) {
+		// Seconds since epoch (OpenAI style) rather than milliseconds
+		if (timestamp < 1e11) {
+			repairs.add('converted second-based timestamps');
+			return new Date(timestamp * 1000).toISOString();
+		}
+
+		return timestamp;
+	}
+
+	if (typeof timestamp === 'string') {
+		if (isValidISODate(timestamp)) {
+			return timestamp;
+		}
+
+		const date = new Date(timestamp);
+		if (!Number.isNaN(date.getTime())) {
+			repairs.add('normalized timestamps to ISO 8601');
+			return date.toISOString();
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Explain why a normalized message still fails validation
+ */
+function explainInvalid(message: Message): string {
+	if (!SUPPORTED_ROLES.has(message.role)) {
+		return `unsupported role "${String(message.role)}"`;
+	}
+
+	if (message.content.length > MAX_MESSAGE_LENGTH) {
+		return `content exceeds ${MAX_MESSAGE_LENGTH} characters`;
+	}
+
+	if (message.content.length === 0) {
+		return 'empty content';
+	}
+
+	if (message.role === 'tool' && !message.metadata?.toolCallId) {
+		return 'tool result without a tool call ID';
+	}
+
+	return 'failed validation';
+}
+
+/**
+ * Convert raw messages into yolo messages, repairing what can be repaired
+ * Returns one entry per raw message; null marks a message that cannot be used
+ */
+function normalizeMessages(
+	parsed: ParsedImport,
+	repairs: RepairLog,
+	errors: string[],
+): Array<Message | null> {
+	const toolNames = new Map<string, string>();
+	const defaultModel = parsed.model ?? 'unknown';
+
+	// Messages without timestamps are spaced one second apart ending now
+	const syntheticBase = Date.now() - parsed.rawMessages.length * 1000;
+
+	return parsed.rawMessages.map((raw, index) => {
+		const label = `message ${index + 1}`;
+
+		if (!raw || typeof raw !== 'object') {
+			errors.push(`${label}: not an object`);
+			return null;
+		}
+
+		const source = raw as Record<string, unknown> & Partial<Message>;
+		let role = source.role as string | undefined;
+		if (role === 'developer') {
+			repairs.add('mapped developer role to system');
+			role = 'system';
+		}
+
+		if (!role || !SUPPORTED_ROLES.has(role)) {
+			errors.push(`${label}: unsupported role "${String(role)}"`);
+			return null;
+		}
+
+		const content = normalizeContent(source.content, repairs);
+		if (content === null) {
+			errors.push(`${label}: content is not text`);
+			return null;
+		}
+
+		let id = source.id;
+		if (typeof id !== 'string' || !id) {
+			repairs.add('assigned missing IDs');
+			id = randomUUID();
+		}
+
+		let timestamp = normalizeTimestamp(source.timestamp, repairs);
+		if (timestamp === null) {
+			repairs.add('added missing timestamps');
+			timestamp = new Date(syntheticBase + index * 1000).toISOString();
+		}
+
+		const message: Message = {
+			id,
+			role: role as Message['role'],
+			content,
+			timestamp,
+		};
+
+		// Keep existing metadata verbatim (yolo exports) and map OpenAI fields
+		const metadata = {...source.metadata};
+
+		const toolCalls = (source.tool_calls as ToolCall[] | undefined) ?? metadata.toolCalls;
+		if (role === 'assistant' && Array.isArray(toolCalls) && toolCalls.length > 0) {
+			metadata.toolCalls = toolCalls;
+			for (const toolCall of toolCalls) {
+				toolNames.set(toolCall.id, toolCall.function?.name);
+			}
+		}
+
+		if (role === 'tool') {
+			const toolCallId =
+				(source.tool_call_id as string | undefined) ?? metadata.toolCallId;
+			if (toolCallId) {
+				metadata.toolCallId = toolCallId;
+			}
+
+			const toolName =
+				(source.name as string | undefined) ??
+				metadata.toolName ??
+				(toolCallId ? toolNames.get(toolCallId) : undefined);
+			if (toolName) {
+				metadata.toolName = toolName;
+			}
+		}
+
+		if (Object.keys(metadata).length > 0) {
+			message.metadata = metadata;
+		}
+
+		if (role === 'assistant') {
+			if (typeof source.model === 'string' && source.model) {
+				message.model = source.model;
+			} else {
+				repairs.add(`set missing assistant model to ${defaultModel}`);
+				message.model = defaultModel;
+			}
+		} else if (source.model !== undefined) {
+			if (role === 'user') {
+				repairs.add('removed model from user messages');
+			} else {
+				message.model = source.model;
+			}
+		}
+
+		if (!validateMessage(message)) {
+			errors.push(`${label} (${role}): ${explainInvalid(message)}`);
+			return null;
+		}
+
+		return message;
+	});
+}
+
+/**
+ * Clamp out-of-order timestamps so the conversation reads chronologically
+ */
+function repairChronology(messages: Message[], repairs: RepairLog): Message[] {
+	if (validateChronologicalOrder(messages)) {
+		return messages;
+	}
+
+	let previous = 0;
+	return messages.map(message => {
+		const time = new Date(message.timestamp).getTime();
+		if (time >= previous) {
+			previous = time;
+			return message;
+		}
+
+		repairs.add('reordered out-of-sequence timestamps');
+		return {...message, timestamp: new Date(previous).toISOString()};
+	});
+}
+
+/**
+ * Merge consecutive user messages, or consecutive plain assistant messages,
+ * that break role alternation
+ */
+function repairAlternation(messages: Message[], repairs: RepairLog): Message[] {
+	if (validateMessageAlternation(messages)) {
+		return messages;
+	}
+
+	const merged: Message[] = [];
+	for (const message of messages) {
+		const previous = merged[merged.length - 1];
+		const isPlain = (m: Message) =>
+			(m.role === 'user' || m.role === 'assistant') &&
+			!(m.metadata?.toolCalls?.length);
+
+		if (previous && previous.role === message.role && isPlain(previous) && isPlain(message)) {
+			repairs.add('merged consecutive same-role messages');
+			merged[merged.length - 1] = {
+				...previous,
+				content: `${previous.content}\n\n${message.content}`,
+			};
+			continue;
+		}
+
+		merged.push(message);
+	}
+
+	return merged;
+}
+
+/**
+ * Validate and repair a parsed import
+ */
+export function prepareImport(
+	parsed: ParsedImport,
+	options: ImportOptions = {},
+): {messages: Message[]; report: ImportReport; canImport: boolean} {
+	const repairs = new RepairLog();
+	const errors: string[] = [];
+
+	const normalized = normalizeMessages(parsed, repairs, errors);
+	let messages = normalized.filter((m): m is Message => m !== null);
+	const skippedCount = normalized.length - messages.length;
+
+	messages = repairChronology(messages, repairs);
+	messages = repairAlternation(messages, repairs);
+
+	// Per-message problems can be skipped; conversation-level ones always block
+	let canImport = skippedCount === 0 || Boolean(options.skipInvalid);
+
+	if (!validateMessageAlternation(messages)) {
+		canImport = false;
+		errors.push(
+			'conversation must start with a user message (after any system prompt) and alternate between user and assistant',
+		);
+	}
+
+	if (messages.length === 0) {
+		canImport = false;
+		errors.push('no importable messages');
+	}
+
+	return {
+		messages,
+		canImport,
+		report: {
+			source: parsed.source,
+			importedCount: 0,
+			skippedCount: options.skipInvalid ? skippedCount : 0,
+			repairs: repairs.toStrings(),
+			errors,
+		},
+	};
+}
+
+/**
+ * Import a conversation file into a new registered session
+ * The new session becomes current in the working directory
+ */
+export async function importConversation(
+	workingDirectory: string,
+	filePath: string,
+	options: ImportOptions = {},
+): Promise<ImportResult> {
+	const parsed = parseImportContent(await fs.readFile(filePath, 'utf-8'));
+	const {messages, report, canImport} = prepareImport(parsed, options);
+
+	if (!canImport) {
+		return {session: null, report};
+	}
+
+	const sessionId = randomUUID();
+	const now = new Date().toISOString();
+	const model =
+		parsed.model ??
+		[...messages].reverse().find(m => m.role === 'assistant')?.model ??
+		'unknown';
+
+	await appendMessages(workingDirectory, messages, sessionId);
+
+	await registerSession(workingDirectory, {
+		id: sessionId,
+		createdAt: now,
+		lastActivity: now,
+		messageCount: messages.length,
+		model,
+		historyFile: `history-${sessionId}.jsonl`,
+		title: parsed.title ?? deriveSessionTitle(messages),
+	});
+
+	report.importedCount = messages.length;
+
+	return {
+		session: {
+			id: sessionId,
+			workingDirectory,
+			createdAt: now,
+			currentModel: model,
+			messages,
+			metadata: {
+				isContinuation: true,
+				totalMessages: messages.length,
+				totalTokensEstimate: estimateConversationTokens(messages),
+			},
+		},
+		report,
+	};
+}
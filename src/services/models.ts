@@ -17,6 +17,16 @@ export async function getModelById(
 	return models.find(m => m.id === modelId) ?? null;
 }
 
+/**
+ * Get model by ID from the cached model list without refreshing it
+ */
+export function getCachedModel(
+	config: Configuration,
+	modelId: string,
+): Model | null {
+	return config.modelCache?.models.find(m => m.id === modelId) ?? null;
+}
+
 /**
  * Search models by name or ID
  */
@@ -63,6 +73,7 @@ export function modelToConfig(model: Model, enabled = true): ModelConfig {
 		id: model.id,
 		name: model.name || formatModelName(model.id),
 		enabled,
+		...(model.provider ? {provider: model.provider} : {}),
 	};
 }
 
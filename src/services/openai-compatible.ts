@@ -0,0 +1,338 @@
+/**
+ * Client for OpenAI-compatible chat completion APIs (llama.cpp, vLLM, Ollama, ...)
+ */
+
+import type {
+	ChatCompletionRequest,
+	ChatCompletionResponse,
+	ChatCompletionChunk,
+	ChatProvider,
+	ModelsListResponse,
+	ModelInfo,
+	ErrorResponse,
+} from '../types/index.js';
+
+const DEFAULT_TIMEOUT = 300000; // 5 minutes (increased for tool usage)
+const MAX_RETRIES = 3;
+const RETRY_DELAYS = [1000, 2000, 4000]; // Exponential backoff
+const MAX_RETRY_AFTER = 60000; // Longer Retry-After waits fail instead, leaving it to fallback models
+
+export interface OpenAICompatibleClientOptions {
+	baseUrl: string; // e.g., http://localhost:11434/v1
+	apiKey?: string; // Omitted for servers without auth
+	authHeader?: string; // Header carrying the key (default: Authorization)
+	modelsPath?: string; // Model list endpoint relative to baseUrl (default: /models)
+	timeout?: number;
+}
+
+// Model list entries only need an id; servers fill in what they know
+type ListedModel = Partial<ModelInfo> & {id: string; max_model_len?: number};
+
+/**
+ * Parse a Retry-After header (seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | null {
+	if (!value?.trim()) {
+		return null;
+	}
+
+	const seconds = Number(value);
+	if (Number.isFinite(seconds)) {
+		return Math.max(0, seconds * 1000);
+	}
+
+	const date = Date.parse(value);
+	return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Check whether a stream failed because its connection dropped mid-response
+ */
+export function isStreamDropped(error: unknown): boolean {
+	return error instanceof Error && (error as Error & {dropped?: boolean}).dropped === true;
+}
+
+/**
+ * Error for a stream that ended before the response finished
+ */
+function streamDroppedError(cause?: unknown): Error {
+	const reason = cause instanceof Error ? `: ${cause.message}` : '';
+	const error = new Error(`Connection lost while streaming the response${reason}`, {cause});
+	(error as Error & {dropped: boolean}).dropped = true;
+	return error;
+}
+
+export class OpenAICompatibleClient implements ChatProvider {
+	protected readonly baseUrl: string;
+	protected readonly timeout: number;
+	private readonly apiKey: string | undefined;
+	private readonly authHeader: string;
+	private readonly modelsPath: string;
+
+	constructor(options: OpenAICompatibleClientOptions) {
+		this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+		this.apiKey = options.apiKey;
+		this.authHeader = options.authHeader ?? 'Authorization';
+		this.modelsPath = `/${(options.modelsPath ?? 'models').replace(/^\/+/, '')}`;
+		this.timeout = options.timeout ?? DEFAULT_TIMEOUT;
+	}
+
+	/**
+	 * Create a chat completion (non-streaming)
+	 */
+	async createChatCompletion(
+		request: ChatCompletionRequest,
+	): Promise<ChatCompletionResponse> {
+		const url = `${this.baseUrl}/chat/completions`;
+
+		const response = await this.fetchWithRetry(url, {
+			method: 'POST',
+			headers: this.getHeaders(),
+			body: JSON.stringify({
+				...request,
+				stream: false,
+			}),
+		});
+
+		if (!response.ok) {
+			throw await this.handleErrorResponse(response);
+		}
+
+		return (await response.json()) as ChatCompletionResponse;
+	}
+
+	/**
+	 * Create a chat completion with streaming
+	 * Usage is requested, so the final chunk carries token usage. Connecting is
+	 * retried like other requests; a stream that breaks off before its finish
+	 * reason or [DONE] throws an error isStreamDropped recognizes.
+	 */
+	async *streamChatCompletion(
+		request: ChatCompletionRequest,
+		signal?: AbortSignal,
+	): AsyncGenerator<ChatCompletionChunk> {
+		const url = `${this.baseUrl}/chat/completions`;
+
+		const response = await this.fetchWithRetry(url, {
+			method: 'POST',
+			headers: this.getHeaders(),
+			body: JSON.stringify({
+				...request,
+				stream: true,
+				...this.getUsageOptions(),
+			}),
+			signal,
+		});
+
+		if (!response.ok) {
+			throw await this.handleErrorResponse(response);
+		}
+
+		if (!response.body) {
+			throw new Error('Response body is null');
+		}
+
+		const reader = response.body.getReader();
+		const decoder = new TextDecoder();
+		let buffer = '';
+		let finished = false;
+
+		try {
+			while (true) {
+				let result: Awaited<ReturnType<typeof reader.read>>;
+				try {
+					result = await reader.read();
+				} catch (error) {
+					// Cancelling is not a dropped connection
+					throw signal?.aborted ? error : streamDroppedError(error);
+				}
+
+				const {done, value} = result;
+
+				if (done) {
+					if (!finished) {
+						throw streamDroppedError();
+					}
+
+					break;
+				}
+
+				buffer += decoder.decode(value, {stream: true});
+				const lines = buffer.split('\n');
+
+				// Keep the last incomplete line in buffer
+				buffer = lines.pop() || '';
+
+				for (const line of lines) {
+					const trimmed = line.trim();
+
+					if (trimmed === 'data: [DONE]') {
+						return;
+					}
+
+					if (!trimmed) {
+						continue;
+					}
+
+					if (trimmed.startsWith('data: ')) {
+						const data = trimmed.slice(6);
+
+						try {
+							const chunk = JSON.parse(data) as ChatCompletionChunk;
+							finished ||= chunk.choices?.some(c => c.finish_reason) ?? false;
+							yield chunk;
+						} catch {
+							// Skip malformed chunks
+							console.warn('Skipping malformed chunk:', data);
+						}
+					}
+				}
+			}
+		} finally {
+			reader.releaseLock();
+		}
+	}
+
+	/**
+	 * List available models
+	 * Servers that only report ids get the id as name, an unknown (0) context
+	 * length and zero pricing.
+	 */
+	async listModels(): Promise<ModelsListResponse> {
+		const url = `${this.baseUrl}${this.modelsPath}`;
+
+		const response = await this.fetchWithRetry(url, {
+			method: 'GET',
+			headers: this.getHeaders(),
+		});
+
+		if (!response.ok) {
+			throw await this.handleErrorResponse(response);
+		}
+
+		const body = (await response.json()) as {data?: ListedModel[]};
+		return {
+			data: (body.data ?? []).map(model => ({
+				...model,
+				name: model.name ?? model.id,
+				context_length: model.context_length ?? model.max_model_len ?? 0,
+				pricing: model.pricing ?? {prompt: '0', completion: '0'},
+			})),
+		};
+	}
+
+	/**
+	 * Get request headers
+	 */
+	protected getHeaders(): Record<string, string> {
+		const headers: Record<string, string> = {'Content-Type': 'application/json'};
+
+		if (this.apiKey) {
+			headers[this.authHeader] =
+				this.authHeader.toLowerCase() === 'authorization'
+					? `Bearer ${this.apiKey}`
+					: this.apiKey;
+		}
+
+		return headers;
+	}
+
+	/**
+	 * Request fields that make the stream end with a usage chunk
+	 */
+	protected getUsageOptions(): Partial<ChatCompletionRequest> {
+		return {stream_options: {include_usage: true}};
+	}
+
+	/**
+	 * Fetch with retry logic
+	 * Waits as long as a Retry-After header asks, unless that is longer than
+	 * MAX_RETRY_AFTER; a signal in options cancels without retrying.
+	 */
+	protected async fetchWithRetry(
+		url: string,
+		options: RequestInit,
+		retryCount = 0,
+	): Promise<Response> {
+		// Combine timeout signal with user-provided signal
+		const signals = [AbortSignal.timeout(this.timeout)];
+		if (options.signal) {
+			signals.push(options.signal);
+		}
+
+		try {
+			const response = await fetch(url, {
+				...options,
+				signal: AbortSignal.any(signals),
+			});
+
+			// Retry on rate limit or server errors
+			if (
+				(response.status === 429 || response.status >= 500) &&
+				retryCount < MAX_RETRIES
+			) {
+				const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+				if (retryAfter !== null && retryAfter > MAX_RETRY_AFTER) {
+					return response;
+				}
+
+				const delay = retryAfter ?? RETRY_DELAYS[retryCount];
+				await this.sleep(delay, options.signal);
+				return this.fetchWithRetry(url, options, retryCount + 1);
+			}
+
+			return response;
+		} catch (error) {
+			// Retry on network errors, but not once the caller cancelled
+			if (retryCount < MAX_RETRIES && !options.signal?.aborted) {
+				const delay = RETRY_DELAYS[retryCount];
+				await this.sleep(delay, options.signal);
+				return this.fetchWithRetry(url, options, retryCount + 1);
+			}
+
+			throw error;
+		}
+	}
+
+	/**
+	 * Handle error response
+	 */
+	protected async handleErrorResponse(response: Response): Promise<Error> {
+		let errorMessage = `API error: ${response.status} ${response.statusText}`;
+
+		try {
+			const errorData = (await response.json()) as ErrorResponse;
+			if (errorData.error?.message) {
+				errorMessage = errorData.error.message;
+			}
+		} catch {
+			// Use default error message
+		}
+
+		const error = new Error(errorMessage);
+		(error as Error & {status: number}).status = response.status;
+		return error;
+	}
+
+	/**
+	 * Sleep for a specified duration, rejecting as soon as the signal aborts
+	 */
+	private sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+		return new Promise((resolve, reject) => {
+			if (signal?.aborted) {
+				reject(signal.reason);
+				return;
+			}
+
+			const onAbort = () => {
+				clearTimeout(timer);
+				reject(signal?.reason);
+			};
+			const timer = setTimeout(() => {
+				signal?.removeEventListener('abort', onAbort);
+				resolve();
+			}, ms);
+			signal?.addEventListener('abort', onAbort, {once: true});
+		});
+	}
+}
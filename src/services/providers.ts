@@ -0,0 +1,114 @@
+/**
+ * Chat providers - resolve which endpoint serves a model and build its client
+ */
+
+import type {
+	ChatProvider,
+	Configuration,
+	Model,
+	ProviderConfig,
+} from '../types/index.js';
+import {OpenAICompatibleClient} from './openai-compatible.js';
+import {OpenRouterClient} from './openrouter.js';
+
+export const DEFAULT_PROVIDER = 'openrouter';
+
+/**
+ * Get the configured providers, OpenRouter first
+ * A provider named "openrouter" in the config replaces the built-in one.
+ */
+export function getProviders(config: Configuration): ProviderConfig[] {
+	const providers = config.providers ?? [];
+	const builtIn: ProviderConfig = {name: DEFAULT_PROVIDER, type: 'openrouter'};
+
+	return providers.some(p => p.name === DEFAULT_PROVIDER)
+		? providers
+		: [builtIn, ...providers];
+}
+
+/**
+ * Get the name of the provider serving a model
+ */
+export function getModelProviderName(config: Configuration, modelId: string): string {
+	return (
+		config.models.find(m => m.id === modelId)?.provider ??
+		config.modelCache?.models.find(m => m.id === modelId)?.provider ??
+		DEFAULT_PROVIDER
+	);
+}
+
+/**
+ * Create a client for a provider
+ */
+export function createProvider(
+	config: Configuration,
+	provider: ProviderConfig,
+): ChatProvider {
+	if (provider.type === 'openrouter') {
+		return new OpenRouterClient({
+			apiKey: provider.apiKey ?? config.apiKey,
+			baseUrl: provider.baseUrl,
+		});
+	}
+
+	if (!provider.baseUrl) {
+		throw new Error(`Provider ${provider.name} has no baseUrl`);
+	}
+
+	return new OpenAICompatibleClient({
+		baseUrl: provider.baseUrl,
+		apiKey: provider.apiKey,
+		authHeader: provider.authHeader,
+		modelsPath: provider.modelsPath,
+	});
+}
+
+/**
+ * Create a client for the provider serving a model
+ */
+export function createModelClient(config: Configuration, modelId: string): ChatProvider {
+	const name = getModelProviderName(config, modelId);
+	const provider = getProviders(config).find(p => p.name === name);
+
+	if (!provider) {
+		throw new Error(`Unknown provider ${name} for model ${modelId}`);
+	}
+
+	return createProvider(config, provider);
+}
+
+/**
+ * List the models of every provider, tagged with the provider that serves them
+ * A model id already listed by an earlier provider is skipped, so ids stay
+ * unique. A provider other than OpenRouter that cannot be reached keeps the
+ * models cached for it last time.
+ */
+export async function listProviderModels(config: Configuration): Promise<Model[]> {
+	const models: Model[] = [];
+	const seen = new Set<string>();
+
+	for (const provider of getProviders(config)) {
+		let listed: Model[];
+		try {
+			const response = await createProvider(config, provider).listModels();
+			listed = response.data as Model[];
+		} catch (error) {
+			if (provider.name === DEFAULT_PROVIDER) {
+				throw error;
+			}
+
+			listed = (config.modelCache?.models ?? []).filter(m => m.provider === provider.name);
+		}
+
+		for (const model of listed) {
+			if (!seen.has(model.id)) {
+				seen.add(model.id);
+				models.push(
+					provider.name === DEFAULT_PROVIDER ? model : {...model, provider: provider.name},
+				);
+			}
+		}
+	}
+
+	return models;
+}
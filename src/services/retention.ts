@@ -0,0 +1,209 @@
+/**
+ * Session retention - trim, expire and clean up stored sessions
+ */
+
+import fs from 'node:fs/promises';
+import type {
+	Configuration,
+	PruneOptions,
+	PruneReport,
+	PrunedSession,
+	RetentionPolicy,
+	SessionInfo,
+} from '../types/index.js';
+import {
+	getHistoryPath,
+	limitMessages,
+	listHistoryFileIds,
+	loadSessionMetadata,
+	readHistory,
+	rotateHistory,
+	updateSessionMetadata,
+} from '../utils/storage.js';
+import {formatMessageCount, pluralize} from '../utils/formatting.js';
+import {findOrphanedCheckpoints} from './checkpoints.js';
+import {syncSessionIndex} from './session.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Build the retention policy from user preferences
+ */
+export function getRetentionPolicy(config: Configuration): RetentionPolicy {
+	return {
+		historyLimit: config.preferences.historyLimit,
+		maxAgeDays: config.preferences.sessionMaxAgeDays,
+		maxSessions: config.preferences.maxSessions,
+	};
+}
+
+/**
+ * Pick the sessions to delete by age and count
+ * The current session and the active one are always kept.
+ */
+export function selectExpiredSessions(
+	sessions: SessionInfo[],
+	policy: RetentionPolicy,
+	protectedIds: Set<string>,
+	now = Date.now(),
+): PrunedSession[] {
+	const expired: PrunedSession[] = [];
+	const newestFirst = [...sessions].sort(
+		(a, b) =>
+			new Date(b.lastActivity).getTime() - new Date(a.lastActivity).getTime(),
+	);
+
+	let kept = 0;
+	for (const session of newestFirst) {
+		if (protectedIds.has(session.id)) {
+			kept++;
+			continue;
+		}
+
+		const ageMs = now - new Date(session.lastActivity).getTime();
+		if (policy.maxAgeDays !== undefined && ageMs > policy.maxAgeDays * DAY_MS) {
+			expired.push({id: session.id, title: session.title, reason: 'age'});
+		} else if (policy.maxSessions !== undefined && kept >= policy.maxSessions) {
+			expired.push({id: session.id, title: session.title, reason: 'count'});
+		} else {
+			kept++;
+		}
+	}
+
+	return expired;
+}
+
+/**
+ * List history and checkpoint files that belong to no known session
+ * History files of sessions being deleted are not counted as orphans.
+ */
+async function findOrphanedFiles(
+	workingDirectory: string,
+	sessionIds: Set<string>,
+	deletedIds: Set<string>,
+): Promise<string[]> {
+	const orphaned: string[] = [];
+	for (const id of await listHistoryFileIds(workingDirectory)) {
+		if (!sessionIds.has(id) && !deletedIds.has(id)) {
+			orphaned.push(getHistoryPath(workingDirectory, id));
+		}
+	}
+
+	orphaned.push(...(await findOrphanedCheckpoints(workingDirectory, sessionIds)));
+	return orphaned;
+}
+
+/**
+ * Apply the retention policy to the sessions of a working directory
+ */
+export async function pruneSessions(
+	workingDirectory: string,
+	policy: RetentionPolicy,
+	options: PruneOptions = {},
+): Promise<PruneReport> {
+	const report: PruneReport = {
+		trimmedSessions: [],
+		deletedSessions: [],
+		orphanedFiles: [],
+	};
+
+	const metadata = await loadSessionMetadata(workingDirectory);
+	const sessions = metadata?.sessions ?? [];
+	const protectedIds = new Set(
+		[metadata?.currentSessionId, options.activeSessionId].filter(
+			(id): id is string => Boolean(id),
+		),
+	);
+
+	report.deletedSessions = selectExpiredSessions(sessions, policy, protectedIds);
+	const deletedIds = new Set(report.deletedSessions.map(s => s.id));
+	const keptSessions = sessions.filter(s => !deletedIds.has(s.id));
+
+	for (const session of keptSessions) {
+		let removedMessages: number;
+		if (options.dryRun) {
+			const messages = await readHistory(workingDirectory, session.id);
+			removedMessages =
+				messages.length - limitMessages(messages, policy.historyLimit).length;
+		} else {
+			removedMessages = await rotateHistory(
+				workingDirectory,
+				policy.historyLimit,
+				session.id,
+			);
+		}
+
+		if (removedMessages > 0) {
+			report.trimmedSessions.push({id: session.id, removedMessages});
+		}
+	}
+
+	if (options.dryRun) {
+		report.orphanedFiles = await findOrphanedFiles(
+			workingDirectory,
+			new Set(keptSessions.map(s => s.id)),
+			deletedIds,
+		);
+		return report;
+	}
+
+	// Apply against the latest metadata, under its lock, so sessions another
+	// process registered meanwhile are neither dropped nor mistaken for orphans
+	const trimmedCounts = new Map(
+		report.trimmedSessions.map(s => [s.id, s.removedMessages]),
+	);
+	const updated = await updateSessionMetadata(workingDirectory, async latest => {
+		const latestSessions = (latest?.sessions ?? []).filter(
+			s => !deletedIds.has(s.id),
+		);
+
+		for (const id of deletedIds) {
+			await fs.rm(getHistoryPath(workingDirectory, id), {force: true});
+		}
+
+		report.orphanedFiles = await findOrphanedFiles(
+			workingDirectory,
+			new Set(latestSessions.map(s => s.id)),
+			deletedIds,
+		);
+		for (const file of report.orphanedFiles) {
+			await fs.rm(file, {force: true});
+		}
+
+		if (!latest || (deletedIds.size === 0 && trimmedCounts.size === 0)) {
+			return null;
+		}
+
+		latest.sessions = latestSessions;
+		for (const sessionInfo of latest.sessions) {
+			const removed = trimmedCounts.get(sessionInfo.id) ?? 0;
+			sessionInfo.messageCount = Math.max(0, sessionInfo.messageCount - removed);
+		}
+
+		return latest;
+	});
+
+	if (updated) {
+		await syncSessionIndex(workingDirectory, updated);
+	}
+
+	return report;
+}
+
+/**
+ * Describe a prune report in one line
+ */
+export function summarizePruneReport(report: PruneReport, dryRun = false): string {
+	const plural = (count: number, word: string) =>
+		`${count} ${pluralize(word, count)}`;
+	const trimmedMessages = report.trimmedSessions.reduce(
+		(total, s) => total + s.removedMessages,
+		0,
+	);
+
+	const [remove, trim, del] = dryRun
+		? ['Would remove', 'trim', 'delete']
+		: ['Removed', 'trimmed', 'deleted'];
+
+	return `${remove} ${plural(report.deletedSessions.length, 'session')}, ${trim} ${formatMessageCount(trimmedMessages)} from ${plural(report.trimmedSessions.length, 'session')}, ${del} ${plural(report.orphanedFiles.length, 'orphaned file')}`;
+}
@@ -0,0 +1,206 @@
+/**
+ * Full-text search across stored conversations
+ */
+
+import type {Message, SearchHit, SearchOptions} from '../types/index.js';
+import {
+	readHistory,
+	loadSessionMetadata,
+	loadSessionIndex,
+} from '../utils/storage.js';
+import {deriveSessionTitle} from './session.js';
+
+const DEFAULT_LIMIT = 20;
+const SNIPPET_RADIUS = 60;
+const RECENCY_HALF_LIFE_DAYS = 30;
+const TOOL_MESSAGE_WEIGHT = 0.5; // Tool output is noisier than conversation text
+
+/**
+ * Split a query into unique lowercase terms
+ */
+export function tokenizeQuery(query: string): string[] {
+	const terms = query
+		.toLowerCase()
+		.split(/\s+/)
+		.filter(term => term.length > 0);
+
+	return [...new Set(terms)];
+}
+
+/**
+ * Count non-overlapping occurrences of a term in lowercase text
+ */
+function countOccurrences(text: string, term: string): number {
+	let count = 0;
+	let index = text.indexOf(term);
+
+	while (index !== -1) {
+		count++;
+		index = text.indexOf(term, index + term.length);
+	}
+
+	return count;
+}
+
+/**
+ * Score message content against query terms
+ * Every term must appear; repeated terms add diminishing weight and an exact
+ * phrase match earns a bonus. Returns 0 when the message does not match.
+ */
+export function scoreContent(content: string, terms: string[]): number {
+	if (terms.length === 0) {
+		return 0;
+	}
+
+	const text = content.toLowerCase();
+	let score = 0;
+
+	for (const term of terms) {
+		const count = countOccurrences(text, term);
+		if (count === 0) {
+			return 0;
+		}
+
+		score += 1 + Math.log(count);
+	}
+
+	if (terms.length > 1 && text.includes(terms.join(' '))) {
+		score += 2;
+	}
+
+	return score;
+}
+
+/**
+ * Weight between 0.5 and 1 that halves its recency bonus every half-life
+ */
+export function recencyWeight(timestamp: string | number, now = Date.now()): number {
+	const time = new Date(timestamp).getTime();
+	if (Number.isNaN(time)) {
+		return 0.5;
+	}
+
+	const ageDays = Math.max(0, now - time) / 86400000;
+	return 0.5 + 0.5 * 0.5 ** (ageDays / RECENCY_HALF_LIFE_DAYS);
+}
+
+/**
+ * Build a single-line excerpt around the first matching term
+ */
+export function buildSnippet(content: string, terms: string[]): string {
+	const text = content.replace(/\s+/g, ' ').trim();
+	const lower = text.toLowerCase();
+
+	const positions = terms
+		.map(term => lower.indexOf(term))
+		.filter(position => position !== -1);
+	const matchIndex = positions.length > 0 ? Math.min(...positions) : 0;
+
+	const start = Math.max(0, matchIndex - SNIPPET_RADIUS);
+	const end = Math.min(text.length, matchIndex + SNIPPET_RADIUS);
+
+	return (
+		(start > 0 ? '...' : '') +
+		text.slice(start, end) +
+		(end < text.length ? '...' : '')
+	);
+}
+
+/**
+ * Search all sessions of one working directory
+ */
+async function searchDirectory(
+	workingDirectory: string,
+	terms: string[],
+	now: number,
+): Promise<SearchHit[]> {
+	const metadata = await loadSessionMetadata(workingDirectory);
+	if (!metadata) {
+		return [];
+	}
+
+	const hits: SearchHit[] = [];
+
+	for (const sessionInfo of metadata.sessions) {
+		const messages: Message[] = await readHistory(
+			workingDirectory,
+			sessionInfo.id,
+		);
+		const sessionTitle = sessionInfo.title ?? deriveSessionTitle(messages);
+
+		for (const message of messages) {
+			if (typeof message.content !== 'string' || !message.content) {
+				continue;
+			}
+
+			let relevance = scoreContent(message.content, terms);
+			if (relevance === 0) {
+				continue;
+			}
+
+			if (message.role === 'tool') {
+				relevance *= TOOL_MESSAGE_WEIGHT;
+			}
+
+			hits.push({
+				workingDirectory,
+				sessionId: sessionInfo.id,
+				sessionTitle,
+				messageId: message.id,
+				role: message.role,
+				timestamp: message.timestamp,
+				snippet: buildSnippet(message.content, terms),
+				score: relevance * recencyWeight(message.timestamp, now),
+			});
+		}
+	}
+
+	return hits;
+}
+
+/**
+ * Search stored conversations, ranked by relevance and recency
+ * Searches the given working directory, or every known directory in global mode,
+ * where directories that cannot be read are skipped and reported to onSkip
+ */
+export async function searchSessions(
+	workingDirectory: string,
+	query: string,
+	options: SearchOptions = {},
+): Promise<SearchHit[]> {
+	const terms = tokenizeQuery(query);
+	if (terms.length === 0) {
+		return [];
+	}
+
+	const directories = [workingDirectory];
+	if (options.global) {
+		const index = await loadSessionIndex();
+		for (const entry of index.sessions) {
+			if (!directories.includes(entry.workingDirectory)) {
+				directories.push(entry.workingDirectory);
+			}
+		}
+	}
+
+	const now = Date.now();
+	const hits: SearchHit[] = [];
+	for (const directory of directories) {
+		try {
+			hits.push(...(await searchDirectory(directory, terms, now)));
+		} catch (error) {
+			if (!options.global) {
+				throw error;
+			}
+
+			options.onSkip?.(
+				directory,
+				error instanceof Error ? error.message : 'Unknown error',
+			);
+		}
+	}
+
+	return hits
+		.sort((a, b) => b.score - a.score)
+		.slice(0, options.limit ?? DEFAULT_LIMIT);
+}
@@ -6,29 +6,53 @@ import {randomUUID} from 'node:crypto';
 import type {
 	Session,
 	Message,
+	MessageUsage,
 	SessionMetadata,
 	Configuration,
 	ToolCall,
 	SessionMetadataFile,
 	SessionInfo,
+	SessionIndexEntry,
+	IndexedSession,
 	CompactionResult,
+	CompactionRecord,
+	ChatProvider,
 	CompactionConfig,
+	CompactionContext,
+	CompactionStrategyName,
+	RewindResult,
+	EditResubmitMode,
 } from '../types/index.js';
 import {SESSION_METADATA_VERSION} from '../types/index.js';
 import {
 	readHistory,
+	readRawHistory,
 	appendToHistory,
+	appendMessages,
+	upsertMessage,
+	appendCompactionRecord,
+	rewriteHistory,
+	truncateHistory,
+	isCompactionRecord,
+	limitMessages,
+	replaceMessages,
 	rotateHistory,
 	clearHistory as clearHistoryFile,
+	deleteHistoryFile,
 	loadSessionMetadata,
-	saveSessionMetadata,
+	updateSessionMetadata,
+	loadSessionIndex,
+	updateSessionIndex,
+	fileExists,
 } from '../utils/storage.js';
 import {
 	validateMessage,
 	validateMessageAlternation,
 	validateChronologicalOrder,
 } from '../utils/validation.js';
-import {estimateConversationTokens} from '../utils/formatting.js';
+import {estimateConversationTokens, truncate} from '../utils/formatting.js';
+import {getCompactionStrategy, splitForCompaction} from './compaction.js';
+import {restoreCheckpoints} from './checkpoints.js';
 
 /**
  * Create a new session
@@ -60,8 +84,27 @@ export async function loadSession(
 	currentModel: string,
 	config: Configuration,
 ): Promise<Session> {
-	const historyMessages = await readHistory(workingDirectory);
+	const messages = validateStoredMessages(await readHistory(workingDirectory), config);
+	if (!messages) {
+		return createSession(workingDirectory, currentModel, false);
+	}
+
+	const session = createSession(workingDirectory, currentModel, true);
+	session.messages = messages;
+	session.metadata.totalMessages = messages.length;
+	session.metadata.totalTokensEstimate = estimateConversationTokens(messages);
 
+	return session;
+}
+
+/**
+ * Drop invalid stored messages and apply the history limit
+ * Returns null when the conversation structure is broken
+ */
+function validateStoredMessages(
+	historyMessages: Message[],
+	config: Configuration,
+): Message[] | null {
 	// Validate messages
 	const validMessages = historyMessages.filter((msg): msg is Message => {
 		if (!validateMessage(msg)) {
@@ -72,30 +115,45 @@ export async function loadSession(
 		return true;
 	});
 
-	// Apply history limit
-	const historyLimit = config.preferences.historyLimit;
-	const messages =
-		validMessages.length > historyLimit
-			? validMessages.slice(-historyLimit)
-			: validMessages;
+	// Apply history limit (pinned messages are kept)
+	const messages = limitMessages(validMessages, config.preferences.historyLimit);
 
 	// Validate conversation structure
 	if (!validateMessageAlternation(messages)) {
 		console.warn('Message alternation validation failed, starting fresh session');
-		return createSession(workingDirectory, currentModel, false);
+		return null;
 	}
 
 	if (!validateChronologicalOrder(messages)) {
 		console.warn('Chronological order validation failed, starting fresh session');
-		return createSession(workingDirectory, currentModel, false);
+		return null;
 	}
 
-	const session = createSession(workingDirectory, currentModel, true);
-	session.messages = messages;
-	session.metadata.totalMessages = messages.length;
-	session.metadata.totalTokensEstimate = estimateConversationTokens(messages);
+	return messages;
+}
 
-	return session;
+/**
+ * Validate a session resumed with --continue and apply the history limit
+ * Returns null when its history is broken, so a fresh session starts instead
+ */
+export function prepareContinuedSession(
+	session: Session,
+	config: Configuration,
+): Session | null {
+	const messages = validateStoredMessages(session.messages, config);
+	if (!messages) {
+		return null;
+	}
+
+	return {
+		...session,
+		messages,
+		metadata: {
+			...session.metadata,
+			totalMessages: messages.length,
+			totalTokensEstimate: estimateConversationTokens(messages),
+		},
+	};
 }
 
 /**
@@ -128,12 +186,15 @@ export function addAssistantMessage(
 	model: string,
 	metadata?: {
 		tokensUsed?: number;
+		usage?: MessageUsage;
 		streamingDuration?: number;
 		toolCalls?: ToolCall[];
+		interrupted?: boolean;
 	},
+	id: string = randomUUID(),
 ): Message {
 	const message: Message = {
-		id: randomUUID(),
+		id,
 		role: 'assistant',
 		content,
 		timestamp: new Date().toISOString(),
@@ -154,24 +215,132 @@ export function addAssistantMessage(
 
 /**
  * Save message to history file
+ * With a sessionId, appends to the session-specific file and updates its metadata.
+ * Messages already in the file are not written again.
  */
 export async function saveMessage(
 	workingDirectory: string,
 	message: Message,
+	sessionId?: string,
 ): Promise<void> {
-	await appendToHistory(workingDirectory, message);
+	const written = await appendToHistory(workingDirectory, message, sessionId);
+
+	if (!sessionId || !written) {
+		return;
+	}
+
+	await updateSessionInfo(workingDirectory, sessionId, sessionInfo => {
+		sessionInfo.lastActivity = new Date().toISOString();
+		sessionInfo.messageCount++;
+	});
+}
+
+/**
+ * Save a message that may already be in the session file, replacing the
+ * stored copy (used for responses written while they stream)
+ */
+export async function upsertSessionMessage(
+	session: Session,
+	message: Message,
+): Promise<void> {
+	const appended = await upsertMessage(session.workingDirectory, message, session.id);
+
+	if (appended) {
+		await updateSessionInfo(
+			session.workingDirectory,
+			session.id,
+			sessionInfo => {
+				sessionInfo.lastActivity = new Date().toISOString();
+				sessionInfo.messageCount++;
+			},
+			session,
+		);
+	}
+}
+
+/**
+ * Get the last message of a session if it is a response cut off mid-stream
+ */
+export function getInterruptedMessage(session: Session): Message | null {
+	const last = session.messages[session.messages.length - 1];
+	return last?.role === 'assistant' && last.metadata?.interrupted ? last : null;
+}
+
+/**
+ * Change session metadata and mirror the result into the global session index
+ * Only for changes the index tracks: registering, renaming, deleting and
+ * switching sessions. Message counts and activity are read live when listing.
+ */
+async function updateMetadata(
+	workingDirectory: string,
+	update: Parameters<typeof updateSessionMetadata>[1],
+): Promise<void> {
+	const metadata = await updateSessionMetadata(workingDirectory, update);
+	if (metadata) {
+		await syncSessionIndex(workingDirectory, metadata);
+	}
+}
+
+/**
+ * Change a registered session's metadata entry
+ * A session that is not registered is skipped, unless it is passed as
+ * `register`: new sessions only live in memory until their first message is
+ * saved, and are registered (and made current) then.
+ */
+async function updateSessionInfo(
+	workingDirectory: string,
+	sessionId: string,
+	update: (sessionInfo: SessionInfo) => void,
+	register?: Session,
+): Promise<void> {
+	let registered = false;
+	const updated = await updateSessionMetadata(workingDirectory, metadata => {
+		let sessionInfo = metadata?.sessions.find(s => s.id === sessionId);
+		if (!sessionInfo && register) {
+			sessionInfo = {
+				id: register.id,
+				createdAt: register.createdAt,
+				lastActivity: register.createdAt,
+				messageCount: 0,
+				model: register.currentModel,
+				historyFile: `history-${register.id}.jsonl`,
+			};
+			metadata ??= {
+				version: SESSION_METADATA_VERSION,
+				currentSessionId: '',
+				lastUpdated: new Date().toISOString(),
+				sessions: [],
+			};
+			metadata.sessions.push(sessionInfo);
+			metadata.currentSessionId = sessionInfo.id;
+			registered = true;
+		}
+
+		if (!metadata || !sessionInfo) {
+			return null;
+		}
+
+		update(sessionInfo);
+		return metadata;
+	});
+
+	if (updated && registered) {
+		await syncSessionIndex(workingDirectory, updated);
+	}
 }
 
 /**
  * Save session messages to history
  */
 export async function saveSession(session: Session, config: Configuration): Promise<void> {
-	for (const message of session.messages) {
-		await saveMessage(session.workingDirectory, message);
-	}
+	await saveSessionToHistory(session);
 
 	// Rotate history if needed
-	await rotateHistory(session.workingDirectory, config.preferences.historyLimit);
+	await rotateHistory(
+		session.workingDirectory,
+		config.preferences.historyLimit,
+		session.id,
+	);
 }
 
 /**
@@ -259,8 +428,9 @@ export function getLastAssistantMessage(session: Session): Message | null {
 // ============================================================================
 
 /**
- * Create a new session with multi-session support
- * Automatically creates session metadata and history file
+ * Create a new session and register it in session metadata right away
+ * Sessions started from the UI use createSession instead and are registered
+ * when their first message is saved, so empty sessions are never listed.
  */
 export async function createNewSession(
 	workingDirectory: string,
@@ -304,16 +474,29 @@ export async function loadCurrentSession(
 		return null;
 	}
 
-	const sessionInfo = metadata.sessions.find(
-		s => s.id === metadata.currentSessionId,
-	);
+	return loadSessionById(workingDirectory, metadata.currentSessionId);
+}
+
+/**
+ * Load a registered session by ID without changing the current session
+ * With raw set, compactions are ignored and every stored message is returned
+ */
+export async function loadSessionById(
+	workingDirectory: string,
+	sessionId: string,
+	options: {raw?: boolean} = {},
+): Promise<Session | null> {
+	const metadata = await loadSessionMetadata(workingDirectory);
+	const sessionInfo = metadata?.sessions.find(s => s.id === sessionId);
 
 	if (!sessionInfo) {
 		return null;
 	}
 
 	// Load messages from session-specific history file
-	const messages = await readHistory(workingDirectory, sessionInfo.id);
+	const messages = options.raw
+		? await readRawHistory(workingDirectory, sessionInfo.id)
+		: await readHistory(workingDirectory, sessionInfo.id);
 
 	const session: Session = {
 		id: sessionInfo.id,
@@ -338,46 +521,539 @@ export async function registerSession(
 	workingDirectory: string,
 	sessionInfo: SessionInfo,
 ): Promise<void> {
-	let metadata = await loadSessionMetadata(workingDirectory);
+	await updateMetadata(workingDirectory, metadata => {
+		if (!metadata) {
+			// Create new metadata file
+			return {
+				version: SESSION_METADATA_VERSION,
+				currentSessionId: sessionInfo.id,
+				lastUpdated: new Date().toISOString(),
+				sessions: [sessionInfo],
+			};
+		}
 
-	if (!metadata) {
-		// Create new metadata file
-		metadata = {
-			version: SESSION_METADATA_VERSION,
-			currentSessionId: sessionInfo.id,
-			lastUpdated: new Date().toISOString(),
-			sessions: [sessionInfo],
-		};
-	} else {
 		// Add new session to existing metadata
 		metadata.sessions.push(sessionInfo);
 		metadata.currentSessionId = sessionInfo.id;
-		metadata.lastUpdated = new Date().toISOString();
+		return metadata;
+	});
+}
+
+/**
+ * Derive a display title from the first user message of a conversation
+ */
+export function deriveSessionTitle(messages: Message[]): string | undefined {
+	const firstUserMessage = messages.find(m => m.role === 'user');
+	if (!firstUserMessage) {
+		return undefined;
 	}
 
-	await saveSessionMetadata(workingDirectory, metadata);
+	const firstLine = firstUserMessage.content.trim().split('\n')[0] ?? '';
+	return firstLine ? truncate(firstLine, 60) : undefined;
+}
+
+/**
+ * List all registered sessions, most recently active first
+ * Sessions without a stored title get one derived from their history
+ */
+export async function listSessions(
+	workingDirectory: string,
+): Promise<SessionInfo[]> {
+	const metadata = await loadSessionMetadata(workingDirectory);
+
+	if (!metadata) {
+		return [];
+	}
+
+	const sessions: SessionInfo[] = [];
+	for (const sessionInfo of metadata.sessions) {
+		if (sessionInfo.title) {
+			sessions.push(sessionInfo);
+			continue;
+		}
+
+		const messages = await readHistory(workingDirectory, sessionInfo.id);
+		sessions.push({...sessionInfo, title: deriveSessionTitle(messages)});
+	}
+
+	return sessions.sort(
+		(a, b) =>
+			new Date(b.lastActivity).getTime() - new Date(a.lastActivity).getTime(),
+	);
+}
+
+/**
+ * Resolve a full session ID from an ID or unique prefix
+ */
+export async function resolveSessionId(
+	workingDirectory: string,
+	idOrPrefix: string,
+): Promise<string> {
+	const metadata = await loadSessionMetadata(workingDirectory);
+	const sessions = metadata?.sessions ?? [];
+
+	const exact = sessions.find(s => s.id === idOrPrefix);
+	if (exact) {
+		return exact.id;
+	}
+
+	const matches = sessions.filter(s => s.id.startsWith(idOrPrefix));
+	if (matches.length === 0) {
+		throw new Error(`No session matches "${idOrPrefix}"`);
+	}
+
+	if (matches.length > 1) {
+		throw new Error(
+			`Session prefix "${idOrPrefix}" is ambiguous (${matches.length} matches)`,
+		);
+	}
+
+	return matches[0].id;
+}
+
+/**
+ * Make another registered session the current one and load it
+ */
+export async function switchSession(
+	workingDirectory: string,
+	sessionId: string,
+): Promise<Session> {
+	await updateMetadata(workingDirectory, metadata => {
+		if (!metadata?.sessions.some(s => s.id === sessionId)) {
+			throw new Error(`Session not found: ${sessionId}`);
+		}
+
+		metadata.currentSessionId = sessionId;
+		return metadata;
+	});
+
+	const session = await loadCurrentSession(workingDirectory);
+	if (!session) {
+		throw new Error(`Failed to load session: ${sessionId}`);
+	}
+
+	return session;
+}
+
+/**
+ * Set the display title of a registered session
+ */
+export async function renameSession(
+	workingDirectory: string,
+	sessionId: string,
+	title: string,
+): Promise<void> {
+	await updateMetadata(workingDirectory, metadata => {
+		const sessionInfo = metadata?.sessions.find(s => s.id === sessionId);
+
+		if (!metadata || !sessionInfo) {
+			throw new Error(`Session not found: ${sessionId}`);
+		}
+
+		const trimmed = title.trim();
+		sessionInfo.title = trimmed || undefined;
+		return metadata;
+	});
+}
+
+/**
+ * Delete a session's history file and remove it from metadata
+ * If the deleted session was current, the most recently active remaining
+ * session becomes current
+ */
+export async function deleteSession(
+	workingDirectory: string,
+	sessionId: string,
+): Promise<void> {
+	await updateMetadata(workingDirectory, async metadata => {
+		if (!metadata?.sessions.some(s => s.id === sessionId)) {
+			throw new Error(`Session not found: ${sessionId}`);
+		}
+
+		await deleteHistoryFile(workingDirectory, sessionId);
+
+		metadata.sessions = metadata.sessions.filter(s => s.id !== sessionId);
+
+		if (metadata.currentSessionId === sessionId) {
+			const [mostRecent] = [...metadata.sessions].sort(
+				(a, b) =>
+					new Date(b.lastActivity).getTime() -
+					new Date(a.lastActivity).getTime(),
+			);
+			metadata.currentSessionId = mostRecent?.id ?? '';
+		}
+
+		return metadata;
+	});
+}
+
+/**
+ * Resolve a 1-based turn argument (as in /edit 3) to the user message opening it
+ * Returns null when the argument is not a number or not a turn of the session.
+ */
+export function resolveUserTurn(
+	session: Session,
+	arg: string,
+): {turn: number; message: Message} | null {
+	const turn = Number(arg);
+	const message = Number.isInteger(turn) && turn > 0
+		? session.messages.filter(m => m.role === 'user')[turn - 1]
+		: undefined;
+
+	return message ? {turn, message} : null;
+}
+
+/**
+ * Find the last message of the given user turn (1-based)
+ * A turn runs from a user message up to the next user message, so forking
+ * there never splits an assistant tool call from its results
+ */
+export function findTurnEndMessageId(
+	messages: Message[],
+	turn: number,
+): string | null {
+	let userTurns = 0;
+
+	for (let i = 0; i < messages.length; i++) {
+		if (messages[i].role !== 'user') {
+			continue;
+		}
+
+		userTurns++;
+		if (userTurns === turn + 1) {
+			return i > 0 ? messages[i - 1].id : null;
+		}
+	}
+
+	return userTurns === turn && messages.length > 0
+		? messages[messages.length - 1].id
+		: null;
+}
+
+/**
+ * Fork a session into a new session file
+ * Copies messages up to and including uptoMessageId (all messages if omitted),
+ * registers the fork with its lineage and makes it the current session
+ */
+export async function forkSession(
+	session: Session,
+	uptoMessageId?: string,
+): Promise<Session> {
+	const {workingDirectory} = session;
+	let messages = session.messages;
+
+	if (uptoMessageId) {
+		const index = messages.findIndex(m => m.id === uptoMessageId);
+		if (index === -1) {
+			throw new Error(`Message not found: ${uptoMessageId}`);
+		}
+
+		messages = messages.slice(0, index + 1);
+	}
+
+	if (messages.length === 0) {
+		throw new Error('Cannot fork an empty conversation');
+	}
+
+	const forkId = randomUUID();
+	const now = new Date().toISOString();
+
+	await appendMessages(workingDirectory, messages, forkId);
+
+	const metadata = await loadSessionMetadata(workingDirectory);
+	const parentInfo = metadata?.sessions.find(s => s.id === session.id);
+	const parentTitle = parentInfo?.title ?? deriveSessionTitle(messages);
+
+	await registerSession(workingDirectory, {
+		id: forkId,
+		createdAt: now,
+		lastActivity: now,
+		messageCount: messages.length,
+		model: session.currentModel,
+		historyFile: `history-${forkId}.jsonl`,
+		title: parentTitle ? `${parentTitle} (fork)` : undefined,
+		parentSessionId: session.id,
+		forkedFromMessageId: messages[messages.length - 1].id,
+	});
+
+	return {
+		id: forkId,
+		workingDirectory,
+		createdAt: now,
+		currentModel: session.currentModel,
+		messages: [...messages],
+		metadata: {
+			isContinuation: true,
+			previousSessionId: session.id,
+			totalMessages: messages.length,
+			totalTokensEstimate: estimateConversationTokens(messages),
+		},
+	};
+}
+
+/**
+ * Rewind a session to just before one of its user messages
+ * Truncates the history file and restores files changed by tools in the
+ * removed turns from their checkpoints
+ */
+export async function rewindSession(
+	session: Session,
+	userMessageId: string,
+): Promise<{session: Session; result: RewindResult}> {
+	const target = session.messages.find(m => m.id === userMessageId);
+	if (target?.role !== 'user') {
+		throw new Error('Can only rewind to a user message in this session');
+	}
+
+	const removed = await truncateHistory(
+		session.workingDirectory,
+		session.id,
+		userMessageId,
+	);
+	const removedMessages = removed.filter(
+		(record): record is Message => !isCompactionRecord(record),
+	);
+	const removedTurnIds = removedMessages
+		.filter(m => m.role === 'user')
+		.map(m => m.id);
+
+	const {restoredFiles, deletedFiles} = await restoreCheckpoints(
+		session.workingDirectory,
+		removedTurnIds,
+	);
+
+	// Reload so the view matches the file (compactions covering removed messages are gone)
+	const messages = await readHistory(session.workingDirectory, session.id);
+
+	await updateSessionInfo(session.workingDirectory, session.id, sessionInfo => {
+		sessionInfo.lastActivity = new Date().toISOString();
+		sessionInfo.messageCount = messages.length;
+	});
+
+	return {
+		session: {
+			...session,
+			messages,
+			metadata: {
+				...session.metadata,
+				totalMessages: messages.length,
+				totalTokensEstimate: estimateConversationTokens(messages),
+			},
+		},
+		result: {
+			removedMessageCount: removedMessages.length,
+			restoredFiles,
+			deletedFiles,
+			undoneCompactionCount: removed.length - removedMessages.length,
+		},
+	};
+}
+
+/**
+ * Prepare a session for resubmitting an edited user message
+ * replace rewinds to just before the message, restoring files; fork starts a
+ * new session with the messages before it and leaves files as they are.
+ * The edited text is sent afterwards like any prompt.
+ */
+export async function editUserMessage(
+	session: Session,
+	userMessageId: string,
+	mode: EditResubmitMode,
+): Promise<{session: Session; result: RewindResult | null}> {
+	const index = session.messages.findIndex(m => m.id === userMessageId);
+	if (session.messages[index]?.role !== 'user') {
+		throw new Error('Can only edit a user message in this session');
+	}
+
+	if (mode === 'replace') {
+		return rewindSession(session, userMessageId);
+	}
+
+	const previous = session.messages[index - 1];
+	const forked = previous
+		? await forkSession(session, previous.id)
+		: createSession(session.workingDirectory, session.currentModel);
+	return {session: forked, result: null};
+}
+
+/**
+ * Pin or unpin a message so compaction and history limits keep it verbatim
+ */
+export async function setMessagePinned(
+	session: Session,
+	messageId: string,
+	pinned: boolean,
+): Promise<Session> {
+	const message = session.messages.find(m => m.id === messageId);
+	if (!message) {
+		throw new Error(`Message not found: ${messageId}`);
+	}
+
+	if (message.role !== 'user' && message.role !== 'assistant') {
+		throw new Error('Only user and assistant messages can be pinned');
+	}
+
+	const metadata = {...message.metadata};
+	if (pinned) {
+		metadata.pinned = true;
+	} else {
+		delete metadata.pinned;
+	}
+
+	const updated: Message = {...message, metadata};
+
+	await upsertMessage(session.workingDirectory, updated, session.id);
+
+	return {
+		...session,
+		messages: session.messages.map(m => (m.id === messageId ? updated : m)),
+	};
+}
+
+/**
+ * Model that wrote the answer to the last user message, if there is one
+ */
+function getLastAnswerModel(session: Session, userMessage: Message): string | undefined {
+	const answer = getLastAssistantMessage(session);
+	return answer && session.messages.indexOf(answer) > session.messages.indexOf(userMessage)
+		? answer.model
+		: undefined;
+}
+
+/**
+ * Put a new answer after the last user message, in the session and its file
+ * The session is reloaded from the file afterwards, so compactions stay as
+ * the file has them
+ */
+async function replaceLastAnswer(
+	session: Session,
+	userMessage: Message,
+	answer: Message[],
+): Promise<Session> {
+	const {workingDirectory} = session;
+	const index = session.messages.findIndex(m => m.id === userMessage.id);
+	const current = session.messages.slice(index + 1);
+
+	if (current.length > 0) {
+		await truncateHistory(workingDirectory, session.id, current[0].id);
+	}
+
+	await upsertMessage(workingDirectory, userMessage, session.id);
+	await appendMessages(workingDirectory, answer, session.id);
+
+	const messages = await readHistory(workingDirectory, session.id);
+	await updateSessionInfo(workingDirectory, session.id, sessionInfo => {
+		sessionInfo.lastActivity = new Date().toISOString();
+		sessionInfo.messageCount = messages.length;
+	});
+
+	return {
+		...session,
+		messages,
+		metadata: {
+			...session.metadata,
+			totalMessages: messages.length,
+			totalTokensEstimate: estimateConversationTokens(messages),
+		},
+	};
+}
+
+/**
+ * Discard the answer to the last user message so it can be generated again
+ * The assistant messages and tool results are kept on the user message as an
+ * alternate; files changed by its tools are left as they are.
+ */
+export async function retryLastTurn(
+	session: Session,
+): Promise<{session: Session; discarded: Message[]}> {
+	const userMessage = getLastUserMessage(session);
+	if (!userMessage) {
+		throw new Error('Nothing to retry yet');
+	}
+
+	const discarded = session.messages.slice(session.messages.indexOf(userMessage) + 1);
+	const alternates = [...(userMessage.metadata?.alternates ?? [])];
+	if (discarded.length > 0) {
+		alternates.push({
+			model: getLastAnswerModel(session, userMessage),
+			messages: discarded,
+			discardedAt: new Date().toISOString(),
+		});
+	}
+
+	const updated = await replaceLastAnswer(
+		session,
+		{...userMessage, metadata: {...userMessage.metadata, alternates}},
+		[],
+	);
+	return {session: updated, discarded};
+}
+
+/**
+ * Swap the answer to the last user message with one of its alternates
+ * (the most recent if index is omitted). The current answer takes the
+ * alternate's place, so swapping again flips back.
+ */
+export async function swapAlternate(
+	session: Session,
+	index?: number,
+): Promise<Session> {
+	const userMessage = getLastUserMessage(session);
+	const alternates = [...(userMessage?.metadata?.alternates ?? [])];
+	if (!userMessage || alternates.length === 0) {
+		throw new Error('No alternate answers to switch to');
+	}
+
+	const slot = index ?? alternates.length - 1;
+	const alternate = alternates[slot];
+	if (!alternate) {
+		throw new Error(`Invalid alternate: ${slot + 1}. Use a number between 1 and ${alternates.length}.`);
+	}
+
+	const current = session.messages.slice(session.messages.indexOf(userMessage) + 1);
+	if (current.length > 0) {
+		alternates[slot] = {
+			model: getLastAnswerModel(session, userMessage),
+			messages: current,
+			discardedAt: new Date().toISOString(),
+		};
+	} else {
+		alternates.splice(slot, 1); // A failed retry leaves nothing to keep
+	}
+
+	return replaceLastAnswer(
+		session,
+		{...userMessage, metadata: {...userMessage.metadata, alternates}},
+		alternate.messages,
+	);
 }
 
 /**
  * Save session to session-specific history file
+ * Only messages not yet in the file are appended, so this can be called after
+ * every change to the conversation
  */
 export async function saveSessionToHistory(session: Session): Promise<void> {
-	// Write all messages to session-specific history file
-	for (const message of session.messages) {
-		await appendToHistory(session.workingDirectory, message, session.id);
+	const appended = await appendMessages(
+		session.workingDirectory,
+		session.messages,
+		session.id,
+	);
+
+	if (appended.length === 0) {
+		return;
 	}
 
-	// Update session metadata
-	const metadata = await loadSessionMetadata(session.workingDirectory);
-	if (metadata) {
-		const sessionInfo = metadata.sessions.find(s => s.id === session.id);
-		if (sessionInfo) {
+	// Update session metadata, registering the session on its first save
+	await updateSessionInfo(
+		session.workingDirectory,
+		session.id,
+		sessionInfo => {
 			sessionInfo.lastActivity = new Date().toISOString();
 			sessionInfo.messageCount = session.messages.length;
-			metadata.lastUpdated = new Date().toISOString();
-			await saveSessionMetadata(session.workingDirectory, metadata);
-		}
-	}
+		},
+		session,
+	);
 }
 
 /**
@@ -396,8 +1072,12 @@ export async function clearConversationHistory(
 		},
 	};
 
-	// Save empty session to history (overwrites file)
-	await saveSessionToHistory(cleared);
+	// Empty the session file (atomic rewrite)
+	await rewriteHistory(session.workingDirectory, [], session.id);
+	await updateSessionInfo(session.workingDirectory, session.id, sessionInfo => {
+		sessionInfo.lastActivity = new Date().toISOString();
+		sessionInfo.messageCount = 0;
+	});
 
 	return cleared;
 }
@@ -443,9 +1123,7 @@ export async function migrateToMultiSession(
 	};
 
 	// Write messages to new session-specific file
-	for (const message of messages) {
-		await appendToHistory(workingDirectory, message, newSessionId);
-	}
+	await appendMessages(workingDirectory, messages, newSessionId);
 
 	// Create metadata
 	await registerSession(workingDirectory, sessionInfo);
@@ -465,12 +1143,34 @@ export function estimateConversationTokensLocal(messages: Message[]): number {
 }
 
 /**
- * Compact conversation using AI summarization
+ * Check whether a conversation should be compacted before the next request
+ * contextUsage is the estimated fraction of the model's context window in use
+ */
+export function shouldAutoCompact(
+	session: Session,
+	contextUsage: number,
+	config: CompactionConfig,
+): boolean {
+	return (
+		contextUsage >= config.contextThreshold &&
+		session.messages.length >= config.minimumMessagesToCompact
+	);
+}
+
+/**
+ * Compact conversation with a compaction strategy (summary by default)
+ * Older messages are replaced by the strategy's output; the system prompt,
+ * pinned and recent messages are kept verbatim. Budget hooks in options are
+ * passed on to strategies that call the API
  */
 export async function compactConversation(
 	session: Session,
 	config: CompactionConfig,
-	apiKey: string,
+	client: ChatProvider,
+	options: {strategy?: CompactionStrategyName; model?: string} & Pick<
+		CompactionContext,
+		'confirmBudget' | 'recordUsage'
+	> = {},
 ): Promise<CompactionResult> {
 	const {messages} = session;
 
@@ -481,105 +1181,48 @@ export async function compactConversation(
 		);
 	}
 
-	// Separate system, older, and recent messages
-	const systemMessage = messages[0]?.role === 'system' ? messages[0] : null;
-	const startIndex = systemMessage ? 1 : 0;
-	const recentMessages = messages.slice(-config.preserveRecentCount);
-	const olderMessages = messages.slice(
-		startIndex,
-		messages.length - config.preserveRecentCount,
-	);
-
-	// Build summarization prompt
-	const conversationText = olderMessages
-		.map(m => `${m.role}: ${m.content}`)
-		.join('\n\n');
-
-	const summaryPrompt = `You are compacting a conversation history to reduce context size while preserving key information.
-
-**Compression Priorities:**
-1. Current topic/question being discussed
-2. Important facts, decisions, or conclusions reached
-3. Key context about the user's goals or project
-4. Unresolved questions or ongoing tasks
-5. Critical information that affects future responses
-
-**Compression Rules:**
-- KEEP: Current topic, user goals, important facts, unresolved issues
-- MERGE: Similar topics into summary points
-- REMOVE: Redundant explanations, verbose examples, casual chat
-- CONDENSE: Long explanations → key points only
-
-**Output format:**
-<conversation_summary>
-**Current Focus:** [What we're discussing now]
-
-**Key Points:**
-- [Important fact/decision 1]
-- [Important fact/decision 2]
-
-**Context:**
-- [Relevant background information]
-
-**Unresolved:**
-- [Open questions or pending tasks]
-</conversation_summary>
-
-Keep the summary under 500 tokens.
-
-**Conversation to summarize:**
-${conversationText}`;
+	const strategyName = options.strategy ?? config.defaultStrategy;
+	const strategy = getCompactionStrategy(strategyName);
+	if (!strategy) {
+		throw new Error(`Unknown compaction strategy: ${strategyName}`);
+	}
 
-	// Call OpenRouter API for summarization
-	const {OpenRouterClient} = await import('./openrouter.js');
-	const client = new OpenRouterClient({apiKey});
+	const {olderMessages} = splitForCompaction(messages, config);
+	if (olderMessages.length === 0) {
+		throw new Error('Cannot compact: all older messages are pinned');
+	}
 
 	try {
-		const response = await client.createChatCompletion({
-			model: session.currentModel,
-			messages: [{role: 'user', content: summaryPrompt}],
+		const replacementMessages = await strategy.compact(olderMessages, {
+			client,
+			model: options.model ?? session.currentModel,
+			config,
+			confirmBudget: options.confirmBudget,
+			recordUsage: options.recordUsage,
 		});
 
-		const summaryContent =
-			response.choices[0]?.message?.content ?? 'Summary generation failed';
-
-		// Validate summary length
-		const summaryTokens = Math.ceil(summaryContent.length / 4);
-		if (summaryTokens > config.summaryTokenLimit) {
-			throw new Error(
-				`Summary exceeds token limit: ${summaryTokens} > ${config.summaryTokenLimit}`,
-			);
-		}
-
-		const summaryMessage: Message = {
-			id: randomUUID(),
-			role: 'assistant',
-			content: summaryContent,
-			timestamp: new Date().toISOString(),
-			metadata: {
-				tokensEstimate: summaryTokens,
-			},
-		};
-
 		// Calculate metrics
 		const originalTokens = estimateConversationTokens(messages);
-		const compactedMessages = [
-			...(systemMessage ? [systemMessage] : []),
-			summaryMessage,
-			...recentMessages,
-		];
+		const replacedMessageIds = olderMessages.map(m => m.id);
+		const compactedMessages = replaceMessages(
+			messages,
+			replacedMessageIds,
+			replacementMessages,
+		);
 		const compactedTokens = estimateConversationTokens(compactedMessages);
 		const reduction =
 			((originalTokens - compactedTokens) / originalTokens) * 100;
 
 		return {
+			strategy: strategy.name,
 			originalMessageCount: messages.length,
 			compactedMessageCount: compactedMessages.length,
 			originalTokenEstimate: originalTokens,
 			compactedTokenEstimate: compactedTokens,
 			reductionPercentage: reduction,
-			summaryMessage,
-			preservedMessages: recentMessages,
+			messages: compactedMessages,
+			replacedMessageIds,
+			replacementMessages,
 		};
 	} catch (error) {
 		throw new Error(
@@ -587,3 +1230,188 @@ ${conversationText}`;
 		);
 	}
 }
+
+/**
+ * Estimate the outcome of compacting with a strategy, for confirmation prompts
+ */
+export function estimateCompaction(
+	session: Session,
+	config: CompactionConfig,
+	strategyName: CompactionStrategyName = config.defaultStrategy,
+): {compactedMessageCount: number; originalTokens: number; compactedTokens: number} {
+	const strategy = getCompactionStrategy(strategyName);
+	const {systemMessage, olderMessages, pinnedMessages, recentMessages} =
+		splitForCompaction(session.messages, config);
+	const keptMessages = [
+		...(systemMessage ? [systemMessage] : []),
+		...pinnedMessages,
+		...recentMessages,
+	];
+	const replacementCount = strategy?.usesModel ? 1 : olderMessages.length;
+
+	return {
+		compactedMessageCount: keptMessages.length + replacementCount,
+		originalTokens: estimateConversationTokens(session.messages),
+		compactedTokens:
+			estimateConversationTokens(keptMessages) +
+			(strategy?.estimateTokens(olderMessages, config) ?? 0),
+	};
+}
+
+/**
+ * Record a compaction in the session history file and return the compacted session
+ * The replaced messages stay in the file and remain readable with readRawHistory
+ */
+export async function persistCompaction(
+	session: Session,
+	result: CompactionResult,
+): Promise<Session> {
+	const {messages} = result;
+	const record: CompactionRecord = {
+		type: 'compaction',
+		id: randomUUID(),
+		timestamp: new Date().toISOString(),
+		messages: result.replacementMessages,
+		replacedMessageIds: result.replacedMessageIds,
+	};
+
+	await appendCompactionRecord(session.workingDirectory, record, session.id);
+
+	await updateSessionInfo(session.workingDirectory, session.id, sessionInfo => {
+		sessionInfo.lastActivity = record.timestamp;
+		sessionInfo.messageCount = messages.length;
+	});
+
+	return {
+		...session,
+		messages,
+		metadata: {
+			...session.metadata,
+			totalMessages: messages.length,
+			totalTokensEstimate: estimateConversationTokens(messages),
+		},
+	};
+}
+
+// ============================================================================
+// Global Session Index
+// ============================================================================
+
+/**
+ * Replace the index entries of a working directory with its registered sessions
+ * A session already indexed under a directory that no longer exists is treated
+ * as moved and its old entry is dropped. Best-effort: failures are ignored,
+ * since the index only powers `yolo sessions --all`.
+ */
+export async function syncSessionIndex(
+	workingDirectory: string,
+	metadata: SessionMetadataFile,
+): Promise<void> {
+	try {
+		await updateSessionIndex(async index => {
+			const previous = new Map<string, SessionIndexEntry>();
+			for (const entry of index.sessions) {
+				if (entry.workingDirectory === workingDirectory) {
+					previous.set(entry.sessionId, entry);
+				}
+			}
+
+			const sessionIds = new Set(metadata.sessions.map(s => s.id));
+			const movedFrom = new Map<string, string>();
+			index.sessions = index.sessions.filter(entry => {
+				if (entry.workingDirectory === workingDirectory) {
+					return false;
+				}
+
+				if (sessionIds.has(entry.sessionId) && !fileExists(entry.workingDirectory)) {
+					movedFrom.set(entry.sessionId, entry.workingDirectory);
+					return false;
+				}
+
+				return true;
+			});
+
+			for (const sessionInfo of metadata.sessions) {
+				const known = previous.get(sessionInfo.id);
+				let title = sessionInfo.title ?? known?.title;
+				if (!title && sessionInfo.messageCount > 0) {
+					title = deriveSessionTitle(
+						await readHistory(workingDirectory, sessionInfo.id),
+					);
+				}
+
+				index.sessions.push({
+					sessionId: sessionInfo.id,
+					workingDirectory,
+					title,
+					lastActivity: sessionInfo.lastActivity,
+					messageCount: sessionInfo.messageCount,
+					model: sessionInfo.model,
+					movedFrom: movedFrom.get(sessionInfo.id) ?? known?.movedFrom,
+				});
+			}
+		});
+	} catch {
+		// Ignore index write failures
+	}
+}
+
+/**
+ * List indexed sessions of every working directory, most recently active first
+ * Activity, message count and model come from the directory's session
+ * metadata. Entries whose directory is gone are marked missing; entries whose
+ * directory no longer has the session are marked stale.
+ */
+export async function listIndexedSessions(): Promise<IndexedSession[]> {
+	const index = await loadSessionIndex();
+	const directorySessions = new Map<string, Map<string, SessionInfo> | null>();
+
+	const sessions: IndexedSession[] = [];
+	for (const entry of index.sessions) {
+		if (!directorySessions.has(entry.workingDirectory)) {
+			const exists = fileExists(entry.workingDirectory);
+			const metadata = exists ? await loadSessionMetadata(entry.workingDirectory) : null;
+			directorySessions.set(
+				entry.workingDirectory,
+				exists ? new Map(metadata?.sessions.map(s => [s.id, s]) ?? []) : null,
+			);
+		}
+
+		const known = directorySessions.get(entry.workingDirectory);
+		const sessionInfo = known?.get(entry.sessionId);
+		sessions.push({
+			...entry,
+			title: sessionInfo?.title ?? entry.title,
+			lastActivity: sessionInfo?.lastActivity ?? entry.lastActivity,
+			messageCount: sessionInfo?.messageCount ?? entry.messageCount,
+			model: sessionInfo?.model ?? entry.model,
+			status: !known ? 'missing' : sessionInfo ? 'ok' : 'stale',
+		});
+	}
+
+	return sessions.sort(
+		(a, b) =>
+			new Date(b.lastActivity).getTime() - new Date(a.lastActivity).getTime(),
+	);
+}
+
+/**
+ * Remove index entries that are missing or stale; returns how many were removed
+ */
+export async function pruneSessionIndex(): Promise<number> {
+	const gone = new Set(
+		(await listIndexedSessions())
+			.filter(s => s.status !== 'ok')
+			.map(s => `${s.workingDirectory}\0${s.sessionId}`),
+	);
+
+	if (gone.size > 0) {
+		await updateSessionIndex(index => {
+			index.sessions = index.sessions.filter(
+				entry => !gone.has(`${entry.workingDirectory}\0${entry.sessionId}`),
+			);
+		});
+	}
+
+	return gone.size;
+}
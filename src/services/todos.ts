@@ -6,6 +6,7 @@
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
 import type {TodoList, Todo} from '../types/index.js';
+import {withFileLock} from '../utils/storage.js';
 
 const TODOS_FILENAME = 'todos.json';
 const YOLO_DIR = '.yolo';
@@ -81,10 +82,13 @@ export async function saveTodos(
 	};
 
 	// Write atomically: write to temp file then rename
-	// Use unique temp file name to avoid conflicts during concurrent writes
+	// Use unique temp file name to avoid conflicts during concurrent writes,
+	// and hold the lock so other yolo processes never interleave with us
 	const tempPath = `${todosPath}.tmp.${Date.now()}.${Math.random().toString(36).slice(2)}`;
-	await fs.writeFile(tempPath, JSON.stringify(todoList, null, 2), 'utf-8');
-	await fs.rename(tempPath, todosPath);
+	await withFileLock(todosPath, async () => {
+		await fs.writeFile(tempPath, JSON.stringify(todoList, null, 2), 'utf-8');
+		await fs.rename(tempPath, todosPath);
+	});
 }
 
 /**
@@ -9,10 +9,12 @@ import type {
 	ToolExecutionResult,
 } from '../types/tools.js';
 import {ALL_TOOLS} from '../tools/index.js';
+import {CHECKPOINTED_TOOLS, recordFileCheckpoint} from './checkpoints.js';
 
 export interface ToolContext {
 	workingDirectory: string;
 	requestApproval?: (action: string, details: string) => Promise<boolean>;
+	checkpoint?: {sessionId: string; messageId: string}; // Turn that file snapshots belong to
 }
 
 export class ToolExecutor {
@@ -89,6 +91,19 @@ export class ToolExecutor {
 
 		// Execute tool with context
 		try {
+			// Snapshot the target file first so /rewind can restore it
+			if (
+				this.context.checkpoint &&
+				CHECKPOINTED_TOOLS.has(name) &&
+				typeof args.path === 'string'
+			) {
+				await recordFileCheckpoint(
+					this.context.workingDirectory,
+					this.context.checkpoint,
+					args.path,
+				);
+			}
+
 			// Inject context into args
 			const argsWithContext = {
 				...args,
@@ -0,0 +1,27 @@
+/**
+ * File checkpoint types for YOLO CLI
+ * Stored in .yolo/checkpoints/{messageId}.json
+ */
+
+export interface Checkpoint {
+	version: string; // Schema version (e.g., "1.0.0")
+	sessionId: string; // Session the turn belongs to
+	messageId: string; // User message that started the turn
+	createdAt: string; // ISO 8601 timestamp
+	files: CheckpointFile[]; // Files as they were before the turn first changed them
+}
+
+export interface CheckpointFile {
+	path: string; // Absolute file path
+	existed: boolean; // false when the turn created the file
+	content?: string; // Base64-encoded original contents (when existed), encrypted like history
+}
+
+export interface RewindResult {
+	removedMessageCount: number; // Messages dropped from the conversation
+	restoredFiles: string[]; // Files written back to their earlier contents
+	deletedFiles: string[]; // Files removed because the rewound turns created them
+	undoneCompactionCount: number; // Compactions dropped because they covered removed messages
+}
+
+export const CHECKPOINT_VERSION = '1.0.0';
@@ -3,29 +3,54 @@
  * Stored in ~/.config/yolo-cli/config.json
  */
 
+import type {CompactionStrategyName} from './slash-commands.js';
+import type {RedactionSettings} from './redaction.js';
+import type {BudgetSettings} from './cost.js';
+import type {FallbackRouting, ProviderConfig} from './providers.js';
+
 export interface Configuration {
 	version: string; // Config schema version (e.g., "1.0.0")
 	apiKey: string; // OpenRouter API key
+	providers?: ProviderConfig[]; // Other OpenAI-compatible endpoints (e.g., Ollama, vLLM)
 	models: ModelConfig[]; // User's enabled models
 	defaultModel?: string; // Default model ID (optional)
 	preferences: UserPreferences;
 	modelCache?: ModelCache; // Cached model metadata
+	encryption?: EncryptionSettings; // Set once `yolo config encrypt` has run
 }
 
 export interface ModelConfig {
-	id: string; // OpenRouter model ID (e.g., "anthropic/claude-3-opus")
+	id: string; // Model ID as the provider knows it (e.g., "anthropic/claude-3-opus")
 	name: string; // Display name (e.g., "Claude 3 Opus")
 	enabled: boolean; // Whether model appears in Tab cycling
+	provider?: string; // Name of the provider serving it (default: openrouter)
+	fallbacks?: string[]; // Models tried in order when a request fails (default: preferences.fallbackModels)
 	lastUsed?: string; // ISO 8601 timestamp of last use
 }
 
 export interface UserPreferences {
 	showContextUsage: boolean; // Display context % in status bar (default: true)
 	historyLimit: number; // Max messages to keep in history (default: 100)
+	sessionMaxAgeDays?: number; // Prune sessions inactive for longer than this (default: never)
+	maxSessions?: number; // Prune the oldest sessions beyond this count (default: unlimited)
 	autoApprove: boolean; // Auto-approve destructive operations (default: false)
+	autoCompact?: boolean; // Compact at the context threshold without asking (default: false)
+	compactionStrategy?: CompactionStrategyName; // Strategy for /compact and auto-compaction (default: summary)
+	compactionModel?: string; // Cheap model used by the "cheap" compaction strategy
+	redaction?: RedactionSettings; // Secret redaction of tool output and stored history (default: mask)
+	budget?: BudgetSettings; // Spending limits checked before each API call (default: none)
+	fallbackModels?: string[]; // Fallback chain for models without their own (default: none)
+	fallbackRouting?: FallbackRouting; // Who walks the fallback chain (default: client)
 	theme?: 'auto' | 'light' | 'dark'; // Terminal color scheme (future)
 }
 
+export interface EncryptionSettings {
+	version: number; // Encryption format version
+	salt: string; // Base64 scrypt salt
+	keyCheck: string; // Known text encrypted with the key, to detect a wrong key
+	keyFile?: string; // Derive the key from this file instead of YOLO_PASSPHRASE
+}
+
 export interface ModelCache {
 	lastUpdated: string; // ISO 8601 timestamp
 	ttl: number; // Cache lifetime in milliseconds (default: 86400000 = 24h)
@@ -33,7 +58,8 @@ export interface ModelCache {
 }
 
 export interface Model {
-	id: string; // Unique OpenRouter model identifier
+	id: string; // Unique model identifier
+	provider?: string; // Provider that listed the model (default: openrouter)
 	name: string; // Human-readable model name
 	description?: string; // Model description
 	context_length: number; // Maximum context window in tokens
@@ -57,6 +83,7 @@ export const DEFAULT_PREFERENCES: UserPreferences = {
 	showContextUsage: true,
 	historyLimit: 100,
 	autoApprove: false, // Require approval for destructive operations by default
+	autoCompact: false, // Offer compaction at the context threshold instead of compacting
 };
 
 export const MODEL_CACHE_TTL = 86400000; // 24 hours in milliseconds
@@ -0,0 +1,57 @@
+/**
+ * Token usage and cost tracking types for YOLO CLI
+ */
+
+export interface MessageUsage {
+	promptTokens: number; // Tokens sent, as counted by the provider
+	completionTokens: number; // Tokens generated
+	cost?: number; // US dollars, from model pricing (or reported by OpenRouter)
+}
+
+export interface UsageTotals {
+	promptTokens: number;
+	completionTokens: number;
+	cost: number; // US dollars
+	responses: number; // Responses with recorded usage
+}
+
+export interface DailyUsage extends UsageTotals {
+	date: string; // Local date (YYYY-MM-DD)
+}
+
+// One line of usage.jsonl in the config dir, appended for every response
+export interface UsageLedgerEntry extends MessageUsage {
+	timestamp: string; // ISO 8601 timestamp
+	date: string; // Local date (YYYY-MM-DD)
+	sessionId: string;
+	workingDirectory: string; // Absolute working directory path
+	model?: string; // Model that answered
+}
+
+export type BudgetScope = 'request' | 'session' | 'day';
+
+export interface BudgetLimit {
+	dollars?: number; // Maximum cost in US dollars
+	tokens?: number; // Maximum prompt + completion tokens
+}
+
+export interface BudgetSettings {
+	request?: BudgetLimit; // One prompt, including its tool iterations
+	session?: BudgetLimit; // Everything the session spent, even if since cleared
+	day?: BudgetLimit; // All sessions in every directory, per local day
+}
+
+// A prompt being answered, for checking its request budget
+export interface BudgetRequest {
+	startedAt: string; // ISO 8601; usage recorded from then on counts toward it
+	extensions: number; // Times the request budget was extended
+	stopped?: boolean; // Set once the user (or -q) stopped at a used-up budget
+}
+
+export interface BudgetExceeded {
+	scope: BudgetScope;
+	unit: 'dollars' | 'tokens';
+	limit: number; // Effective limit, including extensions
+	used: number;
+	step: number; // Configured limit, by which an extension raises it
+}
@@ -0,0 +1,42 @@
+/**
+ * Session export/import types for YOLO CLI
+ */
+
+import type {Message} from './session.js';
+
+export type ExportFormat = 'md' | 'html' | 'json';
+
+/**
+ * Normalized JSON export - round-trips through `yolo import` without loss
+ */
+export interface SessionExport {
+	format: 'yolo-session'; // Format marker used to detect yolo exports on import
+	version: string; // Export schema version
+	exportedAt: string; // ISO 8601 timestamp
+	session: {
+		id: string;
+		workingDirectory: string;
+		createdAt: string;
+		currentModel: string;
+		title?: string;
+		parentSessionId?: string;
+		forkedFromMessageId?: string;
+		messages: Message[]; // Stored verbatim, including metadata
+	};
+}
+
+export const SESSION_EXPORT_VERSION = '1.0.0';
+
+export type ImportSource = 'yolo-export' | 'openai';
+
+export interface ImportReport {
+	source: ImportSource;
+	importedCount: number; // Messages written to the new session
+	skippedCount: number; // Invalid messages dropped (only with skipInvalid)
+	repairs: string[]; // Problems fixed automatically
+	errors: string[]; // Problems that could not be fixed
+}
+
+export interface ImportOptions {
+	skipInvalid?: boolean; // Drop unrepairable messages instead of aborting
+}
@@ -9,6 +9,7 @@ export type {
 	UserPreferences,
 	ModelCache,
 	Model,
+	EncryptionSettings,
 } from './config.js';
 export {
 	DEFAULT_PREFERENCES,
@@ -23,6 +24,8 @@ export type {
 	Conversation,
 	Message,
 	MessageMetadata,
+	MessageAlternate,
+	EditResubmitMode,
 	ErrorInfo,
 	AppState,
 	ModelSelectorState,
@@ -43,6 +46,15 @@ export type {
 	ApiKeyValidationResponse,
 } from './openrouter.js';
 
+// Chat provider types
+export type {
+	ProviderType,
+	ProviderConfig,
+	ChatProvider,
+	FallbackReason,
+	FallbackRouting,
+} from './providers.js';
+
 // Tool/Function calling types
 export type {
 	ToolDefinition,
@@ -63,7 +75,58 @@ export type {
 	CommandContext,
 	SessionMetadataFile,
 	SessionInfo,
+	SessionIndexFile,
+	SessionIndexEntry,
+	SessionIndexStatus,
+	IndexedSession,
 	CompactionResult,
+	CompactionStrategyName,
+	CompactionStrategy,
+	CompactionContext,
+	CompactionRecord,
+	HistoryRecord,
 	CompactionConfig,
 } from './slash-commands.js';
 export {COMPACTION_CONFIG, SESSION_METADATA_VERSION} from './slash-commands.js';
+
+// Conversation search types
+export type {SearchOptions, SearchHit} from './search.js';
+
+// Session export/import types
+export type {
+	ExportFormat,
+	SessionExport,
+	ImportSource,
+	ImportReport,
+	ImportOptions,
+} from './export.js';
+export {SESSION_EXPORT_VERSION} from './export.js';
+
+// File checkpoint types
+export type {Checkpoint, CheckpointFile, RewindResult} from './checkpoints.js';
+export {CHECKPOINT_VERSION} from './checkpoints.js';
+
+// Session retention types
+export type {RetentionPolicy, PruneOptions, PruneReport, PrunedSession} from './retention.js';
+
+// Secret redaction types
+export type {
+	RedactionMode,
+	RedactionPattern,
+	RedactionSettings,
+	RedactionFinding,
+	RedactionResult,
+} from './redaction.js';
+
+// Usage and cost tracking types
+export type {
+	MessageUsage,
+	UsageTotals,
+	DailyUsage,
+	UsageLedgerEntry,
+	BudgetScope,
+	BudgetLimit,
+	BudgetSettings,
+	BudgetRequest,
+	BudgetExceeded,
+} from './cost.js';
@@ -9,6 +9,7 @@ import type {ToolDefinition, ToolCall} from './tools.js';
 
 export interface ChatCompletionRequest {
 	model: string; // OpenRouter model ID
+	models?: string[]; // OpenRouter fallback routing: models tried in order, model first
 	messages: APIMessage[]; // Conversation history
 	stream?: boolean; // Enable streaming (default: true for interactive)
 	max_tokens?: number; // Max tokens in response (optional)
@@ -16,6 +17,8 @@ export interface ChatCompletionRequest {
 	top_p?: number; // Nucleus sampling threshold
 	tools?: ToolDefinition[]; // Function calling tools
 	tool_choice?: 'auto' | 'none' | {type: 'function'; function: {name: string}};
+	usage?: {include: boolean}; // OpenRouter usage accounting
+	stream_options?: {include_usage: boolean}; // OpenAI-style usage in the final stream chunk
 }
 
 export interface APIMessage {
@@ -51,6 +54,7 @@ export interface TokenUsage {
 	prompt_tokens: number;
 	completion_tokens: number;
 	total_tokens: number;
+	cost?: number; // Credits charged (OpenRouter usage accounting)
 }
 
 // Streaming response types
@@ -61,6 +65,7 @@ export interface ChatCompletionChunk {
 	created: number;
 	model: string;
 	choices: ChatCompletionChunkChoice[];
+	usage?: TokenUsage; // Sent in the final chunk when usage accounting is on
 }
 
 export interface ChatCompletionChunkChoice {
@@ -0,0 +1,38 @@
+/**
+ * Chat provider types - OpenRouter and other OpenAI-compatible endpoints
+ */
+
+import type {
+	ChatCompletionRequest,
+	ChatCompletionResponse,
+	ChatCompletionChunk,
+	ModelsListResponse,
+} from './openrouter.js';
+
+export type ProviderType = 'openrouter' | 'openai-compatible';
+
+// Failures that move a request on to the next model in its fallback chain
+export type FallbackReason = 'server-error' | 'rate-limit' | 'context-length';
+
+// client: yolo retries each fallback itself; openrouter: consecutive OpenRouter
+// models are sent together in the request's `models` array
+export type FallbackRouting = 'client' | 'openrouter';
+
+// Stored in config.json under `providers`; models point at one by name
+export interface ProviderConfig {
+	name: string; // Referenced by ModelConfig.provider (e.g., "ollama")
+	type: ProviderType;
+	baseUrl?: string; // API base URL (required for openai-compatible)
+	apiKey?: string; // Omit for local servers without auth (openrouter: config.apiKey)
+	authHeader?: string; // Header carrying the key (default: Authorization, sent as "Bearer <key>")
+	modelsPath?: string; // Model list endpoint relative to baseUrl (default: /models)
+}
+
+export interface ChatProvider {
+	createChatCompletion(request: ChatCompletionRequest): Promise<ChatCompletionResponse>;
+	streamChatCompletion(
+		request: ChatCompletionRequest,
+		signal?: AbortSignal,
+	): AsyncGenerator<ChatCompletionChunk>;
+	listModels(): Promise<ModelsListResponse>;
+}
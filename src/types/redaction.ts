@@ -0,0 +1,28 @@
+/**
+ * Secret redaction types for YOLO CLI
+ */
+
+// mask: replace secrets; block: ask before sending them; warn: only report them
+export type RedactionMode = 'mask' | 'block' | 'warn' | 'off';
+
+export interface RedactionPattern {
+	name: string; // Shown in redaction notices and masks
+	pattern: string; // Regular expression source
+	flags?: string; // Regular expression flags (g is always added)
+}
+
+export interface RedactionSettings {
+	mode?: RedactionMode; // Default: mask
+	patterns?: RedactionPattern[]; // User-defined detectors, in addition to the built-in ones
+	entropyThreshold?: number; // Bits per character for high-entropy strings (e.g. 4.5; unset or 0 disables)
+}
+
+export interface RedactionFinding {
+	detector: string; // Built-in detector or user pattern name
+	length: number; // Characters masked; the secret itself is never stored
+}
+
+export interface RedactionResult {
+	text: string; // Text with every finding masked
+	findings: RedactionFinding[];
+}
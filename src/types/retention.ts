@@ -0,0 +1,26 @@
+/**
+ * Session retention types for YOLO CLI
+ */
+
+export interface RetentionPolicy {
+	historyLimit: number; // Max messages kept in each session file
+	maxAgeDays?: number; // Delete sessions inactive for longer than this
+	maxSessions?: number; // Delete the least recently active sessions beyond this count
+}
+
+export interface PruneOptions {
+	dryRun?: boolean; // Report what would be pruned without changing anything
+	activeSessionId?: string; // Session that must never be deleted (besides the current one)
+}
+
+export interface PrunedSession {
+	id: string; // Session UUID
+	title?: string; // Session title, if any
+	reason: 'age' | 'count'; // Which limit the session exceeded
+}
+
+export interface PruneReport {
+	trimmedSessions: Array<{id: string; removedMessages: number}>; // Sessions cut to historyLimit
+	deletedSessions: PrunedSession[]; // Sessions removed by age or count
+	orphanedFiles: string[]; // History and checkpoint files with no session in the metadata
+}
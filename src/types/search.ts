@@ -0,0 +1,22 @@
+/**
+ * Conversation search types for YOLO CLI
+ */
+
+import type {Message} from './session.js';
+
+export interface SearchOptions {
+	global?: boolean; // Search every known working directory
+	limit?: number; // Maximum number of hits to return (default: 20)
+	onSkip?: (workingDirectory: string, reason: string) => void; // Global mode: a directory that could not be read
+}
+
+export interface SearchHit {
+	workingDirectory: string; // Directory owning the session
+	sessionId: string; // Session UUID
+	sessionTitle?: string; // Session title (if known)
+	messageId: string; // Matching message ID
+	role: Message['role'];
+	timestamp: string | number; // Message timestamp
+	snippet: string; // Excerpt around the first match
+	score: number; // Combined relevance and recency score
+}
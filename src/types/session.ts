@@ -37,16 +37,32 @@ export interface Message {
 
 export interface MessageMetadata {
 	tokensUsed?: number; // Actual tokens from API response (if provided)
+	usage?: MessageUsage; // Provider-reported usage and its cost
 	tokensEstimate?: number; // Client-side estimate (chars / 4)
 	error?: ErrorInfo; // Error information (if message failed)
 	streamingDuration?: number; // Milliseconds to complete streaming
 	toolCalls?: ToolCall[]; // Tool calls made by assistant (if any)
 	toolCallId?: string; // Tool call ID (for tool messages)
 	toolName?: string; // Tool name (for tool messages)
+	interrupted?: boolean; // Streaming stopped before the response finished
+	redactions?: RedactionFinding[]; // Secrets found in the content (masked unless sent with approval or in warn mode)
+	alternates?: MessageAlternate[]; // Earlier answers to this user message, replaced by /retry
+	pinned?: boolean; // Kept verbatim by compaction and history limits
 }
 
+export interface MessageAlternate {
+	model?: string; // Model that wrote the answer
+	messages: Message[]; // Assistant messages with their tool results
+	discardedAt: string; // ISO 8601 timestamp
+}
+
+// replace: rewind to the edited message, restoring files; fork: new session, files unchanged
+export type EditResubmitMode = 'replace' | 'fork';
+
 // Import ToolCall from tools types
 import type {ToolCall} from './tools.js';
+import type {RedactionFinding} from './redaction.js';
+import type {MessageUsage} from './cost.js';
 
 export interface ErrorInfo {
 	type: 'auth' | 'network' | 'rate_limit' | 'server' | 'timeout' | 'unknown';
@@ -5,6 +5,8 @@
 
 import type {Session} from './session.js';
 import type {ErrorInfo} from './session.js';
+import type {ChatProvider} from './providers.js';
+import type {TokenUsage} from './openrouter.js';
 
 // Slash Command System
 
@@ -40,25 +42,88 @@ export interface SessionInfo {
 	messageCount: number; // Cached count
 	model: string; // Model used
 	historyFile: string; // e.g., "history-{id}.jsonl"
+	title?: string; // User-assigned or derived from first user message
+	parentSessionId?: string; // Session this one was forked from
+	forkedFromMessageId?: string; // Last message copied from the parent session
+}
+
+// Sessions of every working directory (global, in config dir)
+
+export interface SessionIndexFile {
+	version: string; // Schema version (e.g., "1.0.0")
+	sessions: SessionIndexEntry[];
+}
+
+export interface SessionIndexEntry {
+	sessionId: string;
+	workingDirectory: string; // Absolute working directory path
+	title?: string; // Stored or derived title
+	lastActivity: string; // ISO 8601 timestamp
+	messageCount: number;
+	model: string;
+	movedFrom?: string; // Previous working directory, when the session was seen elsewhere
+}
+
+export type SessionIndexStatus = 'ok' | 'missing' | 'stale';
+
+export interface IndexedSession extends SessionIndexEntry {
+	status: SessionIndexStatus; // missing: directory moved or deleted; stale: session gone from it
 }
 
 // Conversation Compaction
 
+export type CompactionStrategyName = 'summary' | 'prune' | 'hierarchical' | 'cheap';
+
 export interface CompactionResult {
+	strategy: CompactionStrategyName;
 	originalMessageCount: number;
 	compactedMessageCount: number;
 	originalTokenEstimate: number;
 	compactedTokenEstimate: number;
 	reductionPercentage: number;
-	summaryMessage: Message;
-	preservedMessages: Message[];
+	messages: Message[]; // Compacted conversation
+	replacedMessageIds: string[]; // Older messages removed from the conversation
+	replacementMessages: Message[]; // Messages shown in place of the replaced ones
 }
 
+export interface CompactionContext {
+	client: ChatProvider; // Client for the provider serving the model
+	model: string; // Model used to generate summaries
+	config: CompactionConfig;
+	confirmBudget?: () => Promise<boolean>; // Asked before each summary request; false stops compaction
+	recordUsage?: (usage: TokenUsage) => Promise<void>; // Given each summary response's usage
+}
+
+export interface CompactionStrategy {
+	name: CompactionStrategyName;
+	description: string; // Shown in /help and /compact usage
+	usesModel: boolean; // Whether the strategy calls the API
+	compact: (olderMessages: Message[], context: CompactionContext) => Promise<Message[]>;
+	estimateTokens: (olderMessages: Message[], config: CompactionConfig) => number;
+}
+
+// Written to the history file after the messages it replaces; readers rebuild
+// the compacted view from it while the original lines stay in the file
+export interface CompactionRecord {
+	type: 'compaction';
+	id: string; // Unique record identifier (UUID v4)
+	timestamp: string; // ISO 8601 timestamp
+	messages: Message[]; // Messages shown in place of the replaced ones
+	replacedMessageIds: string[]; // IDs of the messages being replaced
+}
+
+// A line in a session history file
+export type HistoryRecord = Message | CompactionRecord;
+
 export interface CompactionConfig {
 	preserveRecentCount: number; // Number of recent messages to keep verbatim
 	minimumMessagesToCompact: number; // Minimum messages required before compaction
-	contextThreshold: number; // Fraction of context window to trigger warning
+	contextThreshold: number; // Fraction of context window to trigger compaction
+	contextWarningThreshold: number; // Fraction of context window to start warning
 	summaryTokenLimit: number; // Maximum tokens allowed in summary
+	chunkTokenLimit: number; // Maximum tokens per chunk for hierarchical summaries
+	prunedToolOutputLength: number; // Tool output longer than this is replaced by a stub
+	defaultStrategy: CompactionStrategyName;
 }
 
 // Import Message from session types
@@ -70,7 +135,11 @@ export const COMPACTION_CONFIG: CompactionConfig = {
 	preserveRecentCount: 12, // Keep last 12 messages (6 exchanges)
 	minimumMessagesToCompact: 20, // Minimum threshold
 	contextThreshold: 0.8, // Compact at 80% context
+	contextWarningThreshold: 0.7, // Warn in the status bar from 70%
 	summaryTokenLimit: 500, // Max tokens in summary
+	chunkTokenLimit: 8000, // Chunk size for hierarchical summaries
+	prunedToolOutputLength: 200, // Keep short tool output verbatim when pruning
+	defaultStrategy: 'summary',
 };
 
 export const SESSION_METADATA_VERSION = '1.0.0';
@@ -0,0 +1,177 @@
+/**
+ * Encryption at rest for history records and config secrets
+ * AES-256-GCM with a key derived (scrypt) from a passphrase or key file
+ */
+
+import {
+	createCipheriv,
+	createDecipheriv,
+	randomBytes,
+	scrypt,
+	timingSafeEqual,
+} from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import {promisify} from 'node:util';
+import type {EncryptionSettings} from '../types/index.js';
+
+const scryptAsync = promisify(scrypt) as (
+	secret: Buffer,
+	salt: Buffer,
+	keyLength: number,
+) => Promise<Buffer>;
+
+export const PASSPHRASE_ENV = 'YOLO_PASSPHRASE';
+export const KEY_FILE_ENV = 'YOLO_KEY_FILE';
+export const ENCRYPTION_VERSION = 1;
+
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const KEY_CHECK_TEXT = 'yolo-cli-key-check';
+const MIN_PASSPHRASE_LENGTH = 8;
+
+// Keys already derived in this process, by salt (scrypt is deliberately slow)
+const derivedKeys = new Map<string, {secret: Buffer; key: Buffer}>();
+
+/**
+ * Check whether a stored value was written by encryptString
+ */
+export function isEncrypted(value: string): boolean {
+	return value.startsWith(ENCRYPTED_PREFIX);
+}
+
+/**
+ * Encrypt a string; the result is a single line of ASCII
+ */
+export function encryptString(plaintext: string, key: Buffer): string {
+	const iv = randomBytes(IV_LENGTH);
+	const cipher = createCipheriv('aes-256-gcm', key, iv);
+	const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+
+	return `${ENCRYPTED_PREFIX}${[iv, cipher.getAuthTag(), ciphertext]
+		.map(part => part.toString('base64'))
+		.join(':')}`;
+}
+
+/**
+ * Decrypt a value written by encryptString
+ * Throws when the key is wrong or the value was tampered with
+ */
+export function decryptString(value: string, key: Buffer): string {
+	const [iv, tag, ciphertext] = value
+		.slice(ENCRYPTED_PREFIX.length)
+		.split(':')
+		.map(part => Buffer.from(part, 'base64'));
+
+	if (!iv || !tag || !ciphertext) {
+		throw new Error('Malformed encrypted value');
+	}
+
+	const decipher = createDecipheriv('aes-256-gcm', key, iv);
+	decipher.setAuthTag(tag);
+	return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString(
+		'utf-8',
+	);
+}
+
+/**
+ * Read a key file as the secret the key is derived from
+ */
+export async function readKeyFile(keyFile: string): Promise<Buffer> {
+	try {
+		return await fs.readFile(path.resolve(keyFile));
+	} catch {
+		throw new Error(`Cannot read encryption key file: ${keyFile}`);
+	}
+}
+
+/**
+ * Read the secret the key is derived from
+ * A key file (YOLO_KEY_FILE, then the configured keyFile) takes precedence
+ * over the YOLO_PASSPHRASE environment variable.
+ */
+export async function readEncryptionSecret(keyFile?: string): Promise<Buffer> {
+	const keyFilePath = process.env[KEY_FILE_ENV] || keyFile;
+
+	if (keyFilePath) {
+		return readKeyFile(keyFilePath);
+	}
+
+	const passphrase = process.env[PASSPHRASE_ENV];
+	if (!passphrase) {
+		throw new Error(
+			`Stored data is encrypted. Set ${PASSPHRASE_ENV} or ${KEY_FILE_ENV} to unlock it.`,
+		);
+	}
+
+	return Buffer.from(passphrase, 'utf-8');
+}
+
+/**
+ * Derive an encryption key from a secret and a base64 salt
+ */
+async function deriveKey(secret: Buffer, salt: string): Promise<Buffer> {
+	const cached = derivedKeys.get(salt);
+	if (cached?.secret.length === secret.length && timingSafeEqual(cached.secret, secret)) {
+		return cached.key;
+	}
+
+	const key = await scryptAsync(secret, Buffer.from(salt, 'base64'), KEY_LENGTH);
+	derivedKeys.set(salt, {secret, key});
+	return key;
+}
+
+/**
+ * Set up encryption for a new secret
+ */
+export async function createEncryptionSettings(
+	secret: Buffer,
+	keyFile?: string,
+): Promise<{settings: EncryptionSettings; key: Buffer}> {
+	if (!keyFile && secret.length < MIN_PASSPHRASE_LENGTH) {
+		throw new Error(
+			`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`,
+		);
+	}
+
+	if (secret.length === 0) {
+		throw new Error('Encryption key file is empty');
+	}
+
+	const salt = randomBytes(16).toString('base64');
+	const key = await deriveKey(secret, salt);
+
+	return {
+		settings: {
+			version: ENCRYPTION_VERSION,
+			salt,
+			keyCheck: encryptString(KEY_CHECK_TEXT, key),
+			keyFile: keyFile ? path.resolve(keyFile) : undefined,
+		},
+		key,
+	};
+}
+
+/**
+ * Derive the key for configured encryption settings and make sure it is right
+ */
+export async function unlockEncryption(settings: EncryptionSettings): Promise<Buffer> {
+	const key = await deriveKey(await readEncryptionSecret(settings.keyFile), settings.salt);
+
+	let check: string;
+	try {
+		check = decryptString(settings.keyCheck, key);
+	} catch {
+		check = '';
+	}
+
+	if (check !== KEY_CHECK_TEXT) {
+		derivedKeys.delete(settings.salt);
+		throw new Error(
+			`Wrong encryption key: the passphrase (${PASSPHRASE_ENV}) or key file does not match the one used to encrypt your data`,
+		);
+	}
+
+	return key;
+}
@@ -92,7 +92,7 @@ export function formatTimestamp(timestamp: string | number): string {
  * Format date and time for display
  * Example: "2025-11-08T10:00:00Z" -> "Nov 8, 10:00 AM"
  */
-export function formatDateTime(isoTimestamp: string): string {
+export function formatDateTime(isoTimestamp: string | number): string {
 	const date = new Date(isoTimestamp);
 
 	return date.toLocaleString('en-US', {
@@ -156,6 +156,14 @@ export function formatPrice(priceString: string): string {
 	return `$${price.toFixed(6)}`;
 }
 
+/**
+ * Format a cost in US dollars, with more decimals for small amounts
+ * Example: 0.012345 -> "$0.0123", 12.5 -> "$12.50"
+ */
+export function formatCost(cost: number): string {
+	return `$${cost.toFixed(cost >= 1 ? 2 : 4)}`;
+}
+
 /**
  * Format token count with thousands separator
  * Example: 150000 -> "150,000"
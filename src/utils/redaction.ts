@@ -0,0 +1,310 @@
+/**
+ * Secret redaction - detect and mask credentials in tool output and history
+ */
+
+import type {
+	HistoryRecord,
+	Message,
+	RedactionFinding,
+	RedactionMode,
+	RedactionPattern,
+	RedactionResult,
+	RedactionSettings,
+} from '../types/index.js';
+import {pluralize} from './formatting.js';
+
+interface Detector {
+	name: string;
+	pattern: RegExp; // Must have the g flag
+}
+
+const BUILT_IN_DETECTORS: Detector[] = [
+	{
+		name: 'private-key',
+		pattern:
+			/-----BEGIN [A-Z0-9 ]*PRIVATE KEY(?: BLOCK)?-----[\s\S]*?-----END [A-Z0-9 ]*PRIVATE KEY(?: BLOCK)?-----/g,
+	},
+	{name: 'aws-access-key', pattern: /\b(?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16}\b/g},
+	{
+		name: 'aws-secret-key',
+		pattern:
+			/(?<=aws_?secret_?access_?key["']?\s*[:=]\s*["']?)[A-Za-z0-9/+=]{40}(?![A-Za-z0-9/+=])/gi,
+	},
+	{
+		name: 'github-token',
+		pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g,
+	},
+	{
+		name: 'jwt',
+		pattern: /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{10,}/g,
+	},
+];
+
+// Token-like runs long enough to be keys; checked for entropy before masking
+const HIGH_ENTROPY_CANDIDATE = /[A-Za-z0-9+_-]{32,}={0,2}/g;
+
+/**
+ * Get the configured redaction mode
+ */
+export function getRedactionMode(settings?: RedactionSettings): RedactionMode {
+	return settings?.mode ?? 'mask';
+}
+
+/**
+ * Compile a user-defined pattern; returns null if it is not a valid regex
+ */
+export function compileRedactionPattern(pattern: RedactionPattern): RegExp | null {
+	try {
+		const flags = new Set([...(pattern.flags ?? ''), 'g']);
+		return new RegExp(pattern.pattern, [...flags].join(''));
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Shannon entropy of a string in bits per character
+ */
+export function shannonEntropy(text: string): number {
+	const counts = new Map<string, number>();
+	for (const char of text) {
+		counts.set(char, (counts.get(char) ?? 0) + 1);
+	}
+
+	let entropy = 0;
+	for (const count of counts.values()) {
+		const p = count / text.length;
+		entropy -= p * Math.log2(p);
+	}
+
+	return entropy;
+}
+
+/**
+ * Find secrets in text and mask them
+ * Overlapping matches are merged, keeping the earliest and longest; the
+ * high-entropy check, enabled by entropyThreshold, only covers text no
+ * specific detector matched.
+ */
+export function redactSecrets(
+	text: string,
+	settings?: RedactionSettings,
+): RedactionResult {
+	if (getRedactionMode(settings) === 'off' || !text) {
+		return {text, findings: []};
+	}
+
+	const matches: Array<{start: number; end: number; detector: string}> = [];
+	const detectors = [
+		...BUILT_IN_DETECTORS,
+		...(settings?.patterns ?? []).flatMap(pattern => {
+			const compiled = compileRedactionPattern(pattern);
+			return compiled ? [{name: pattern.name, pattern: compiled}] : [];
+		}),
+	];
+
+	for (const detector of detectors) {
+		for (const match of text.matchAll(detector.pattern)) {
+			if (match[0]) {
+				const start = match.index ?? 0;
+				matches.push({start, end: start + match[0].length, detector: detector.name});
+			}
+		}
+	}
+
+	// Opt-in: base64 data, integrity hashes and ids would be masked too
+	const threshold = settings?.entropyThreshold ?? 0;
+	if (threshold > 0) {
+		const specific = [...matches];
+		for (const match of text.matchAll(HIGH_ENTROPY_CANDIDATE)) {
+			const token = match[0];
+			const start = match.index ?? 0;
+			const end = start + token.length;
+			if (
+				!specific.some(m => m.start < end && start < m.end) &&
+				/\d/.test(token) &&
+				/[a-z]/i.test(token) &&
+				shannonEntropy(token) >= threshold
+			) {
+				matches.push({start, end, detector: 'high-entropy'});
+			}
+		}
+	}
+
+	matches.sort((a, b) => a.start - b.start || b.end - a.end);
+
+	const findings: RedactionFinding[] = [];
+	let redacted = '';
+	let position = 0;
+	for (const match of matches) {
+		if (match.start < position) {
+			continue; // Overlaps a secret that is already masked
+		}
+
+		findings.push({detector: match.detector, length: match.end - match.start});
+		redacted += `${text.slice(position, match.start)}[REDACTED:${match.detector}]`;
+		position = match.end;
+	}
+
+	return {text: redacted + text.slice(position), findings};
+}
+
+/**
+ * Add new findings to those already on a message, skipping ones it already has
+ * A block-mode approval stores the findings before the save screens the same
+ * content again, so each detector and length is kept as often as either list has it.
+ */
+function mergeFindings(
+	existing: RedactionFinding[],
+	added: RedactionFinding[],
+): RedactionFinding[] {
+	const unmatched = [...existing];
+	const merged = [...existing];
+	for (const finding of added) {
+		const index = unmatched.findIndex(
+			f => f.detector === finding.detector && f.length === finding.length,
+		);
+		if (index === -1) {
+			merged.push(finding);
+		} else {
+			unmatched.splice(index, 1);
+		}
+	}
+
+	return merged;
+}
+
+/**
+ * Mask the secrets in a message's content and its alternate answers
+ * Returns the message itself when there is nothing to mask.
+ */
+export function redactMessage(message: Message, settings?: RedactionSettings): Message {
+	const {text, findings} = redactSecrets(message.content, settings);
+	const alternates = message.metadata?.alternates?.map(alternate => ({
+		...alternate,
+		messages: alternate.messages.map(m => redactMessage(m, settings)),
+	}));
+	const alternatesChanged = alternates?.some((alternate, i) =>
+		alternate.messages.some(
+			(m, j) => m !== message.metadata?.alternates?.[i]?.messages[j],
+		),
+	);
+	if (findings.length === 0 && !alternatesChanged) {
+		return message;
+	}
+
+	return {
+		...message,
+		content: text,
+		metadata: {
+			...message.metadata,
+			...(alternatesChanged ? {alternates} : {}),
+			...(findings.length > 0
+				? {redactions: mergeFindings(message.metadata?.redactions ?? [], findings)}
+				: {}),
+		},
+	};
+}
+
+/**
+ * Mask the secrets in a history record before it is written to disk
+ * Warn mode stores content as-is; mask and block modes never store secrets.
+ */
+export function redactHistoryRecord(
+	record: HistoryRecord,
+	settings?: RedactionSettings,
+): HistoryRecord {
+	const mode = getRedactionMode(settings);
+	if (mode === 'off' || mode === 'warn') {
+		return record;
+	}
+
+	if ('type' in record && record.type === 'compaction') {
+		return {...record, messages: record.messages.map(m => redactMessage(m, settings))};
+	}
+
+	return redactMessage(record as Message, settings);
+}
+
+/**
+ * Screen tool output before it is added to the session and sent to the model
+ * In block mode, approve decides whether the unmasked output may be sent;
+ * declined output is replaced by an error result.
+ */
+export async function screenToolOutput(
+	content: string,
+	toolName: string,
+	settings: RedactionSettings | undefined,
+	approve: (action: string, details: string) => Promise<boolean>,
+): Promise<{content: string; findings: RedactionFinding[]; blocked: boolean}> {
+	const result = redactSecrets(content, settings);
+	if (result.findings.length === 0) {
+		return {content, findings: [], blocked: false};
+	}
+
+	switch (getRedactionMode(settings)) {
+		case 'mask': {
+			return {content: result.text, findings: result.findings, blocked: false};
+		}
+
+		case 'block': {
+			const approved = await approve(
+				`Send ${toolName} output containing possible secrets to the model`,
+				describeRedactions(result.findings),
+			);
+			return approved
+				? {content, findings: result.findings, blocked: false}
+				: {
+						content: JSON.stringify({
+							success: false,
+							error: `Output withheld: it contained possible secrets (${[
+								...new Set(result.findings.map(f => f.detector)),
+							].join(', ')}) and the user declined to send it`,
+						}),
+						findings: result.findings,
+						blocked: true,
+					};
+		}
+
+		default: {
+			return {content, findings: result.findings, blocked: false};
+		}
+	}
+}
+
+/**
+ * List redaction findings in one line, e.g. "aws-access-key (20 chars), jwt (164 chars)"
+ */
+export function describeRedactions(findings: RedactionFinding[]): string {
+	return findings.map(f => `${f.detector} (${f.length} chars)`).join(', ');
+}
+
+/**
+ * Describe what happened to a tool's output after screening it for secrets
+ */
+export function describeScreenedOutput(
+	toolName: string,
+	screened: {findings: RedactionFinding[]; blocked: boolean},
+	settings?: RedactionSettings,
+): string {
+	const count = `${screened.findings.length} possible ${pluralize('secret', screened.findings.length)}`;
+	const list = describeRedactions(screened.findings);
+
+	if (screened.blocked) {
+		return `🔒 Withheld ${toolName} output containing ${count}: ${list}`;
+	}
+
+	switch (getRedactionMode(settings)) {
+		case 'mask': {
+			return `🔒 Redacted ${count} from ${toolName} output: ${list}`;
+		}
+
+		case 'block': {
+			return `⚠️ Sent ${toolName} output with ${count} after approval: ${list}`;
+		}
+
+		default: {
+			return `⚠️ ${toolName} output contains ${count}, sent unredacted: ${list}`;
+		}
+	}
+}
@@ -6,11 +6,35 @@ import fs from 'node:fs/promises';
 import {existsSync} from 'node:fs';
 import path from 'node:path';
 import os from 'node:os';
+import {randomUUID} from 'node:crypto';
+import {setTimeout as sleep} from 'node:timers/promises';
 import type {
 	Configuration,
 	Message,
 	SessionMetadataFile,
+	SessionIndexFile,
+	CompactionRecord,
+	HistoryRecord,
+	RedactionSettings,
 } from '../types/index.js';
+import {
+	decryptString,
+	encryptString,
+	isEncrypted,
+	unlockEncryption,
+} from './encryption.js';
+import {redactHistoryRecord} from './redaction.js';
+
+const LOCK_RETRY_MS = 25;
+const LOCK_TIMEOUT_MS = 5000; // Give up waiting for a lock after this long
+const LOCK_STALE_MS = 10000; // Locks from other hosts older than this are assumed abandoned
+
+interface LockOwner {
+	pid: number;
+	hostname: string;
+	acquiredAt: string; // ISO 8601 timestamp
+	token: string; // Identifies this acquisition, so only its holder releases it
+}
 
 /**
  * Get the path to the configuration directory
@@ -37,6 +61,21 @@ export function getConfigPath(): string {
 	return path.join(getConfigDir(), 'config.json');
 }
 
+/**
+ * Get the path to the global index of sessions across working directories
+ */
+export function getSessionIndexPath(): string {
+	return path.join(getConfigDir(), 'sessions.json');
+}
+
+/**
+ * Get the path to the append-only ledger of API usage, which budgets are
+ * checked against
+ */
+export function getUsageLedgerPath(): string {
+	return path.join(getConfigDir(), 'usage.jsonl');
+}
+
 /**
  * Get the path to the history directory for a working directory
  */
@@ -60,6 +99,21 @@ export function getHistoryPath(
 	return path.join(historyDir, 'history.jsonl');
 }
 
+/**
+ * Get the path to the file checkpoint directory for a working directory
+ */
+export function getCheckpointsDir(workingDir: string): string {
+	return path.join(getHistoryDir(workingDir), 'checkpoints');
+}
+
+/**
+ * Get the path to the checkpoint of a conversation turn
+ */
+export function getCheckpointPath(workingDir: string, messageId: string): string {
+	const fileName = messageId.replace(/[^\w.-]/g, '_');
+	return path.join(getCheckpointsDir(workingDir), `${fileName}.json`);
+}
+
 /**
  * Get the path to the session metadata file
  */
@@ -96,26 +150,140 @@ export async function readJsonFile<T>(filePath: string): Promise<T> {
 }
 
 /**
- * Write an object to a JSON file with atomic write
+ * Check whether a process is still running on this machine
  */
-export async function writeJsonFile<T>(
+function isProcessAlive(pid: number): boolean {
+	try {
+		process.kill(pid, 0);
+		return true;
+	} catch (error) {
+		return (error as NodeJS.ErrnoException).code === 'EPERM';
+	}
+}
+
+/**
+ * Check whether a lockfile was left behind by a crashed or hung process
+ */
+async function isLockStale(lockPath: string): Promise<boolean> {
+	let mtimeMs: number;
+	try {
+		({mtimeMs} = await fs.stat(lockPath));
+	} catch {
+		return false; // Vanished, so free again
+	}
+
+	// A live process on this host may hold a lock for as long as it needs
+	const owner = await readJsonFile<LockOwner>(lockPath).catch(() => null);
+	if (owner?.hostname === os.hostname()) {
+		return !isProcessAlive(owner.pid);
+	}
+
+	// Other hosts' processes cannot be checked; unreadable locks may still be being written
+	return Date.now() - mtimeMs > LOCK_STALE_MS;
+}
+
+/**
+ * Remove a lockfile if it still belongs to the given acquisition
+ */
+async function releaseLock(lockPath: string, token: string): Promise<void> {
+	try {
+		const owner = await readJsonFile<LockOwner>(lockPath);
+		if (owner.token === token) {
+			await fs.rm(lockPath, {force: true});
+		}
+	} catch {
+		// Already removed, or broken and taken over by another process
+	}
+}
+
+/**
+ * Run a function while holding an exclusive lock on a file
+ * The lock is a `<file>.lock` file created with O_EXCL, so it works across
+ * processes. Locks held by dead processes on this host, or from other hosts
+ * and older than LOCK_STALE_MS, are broken. Locks are not reentrant: never
+ * nest locks on the same file.
+ */
+export async function withFileLock<T>(
 	filePath: string,
-	data: T,
-): Promise<void> {
-	const dirPath = path.dirname(filePath);
-	await ensureDir(dirPath);
+	fn: () => Promise<T>,
+): Promise<T> {
+	const lockPath = `${filePath}.lock`;
+	const owner: LockOwner = {
+		pid: process.pid,
+		hostname: os.hostname(),
+		acquiredAt: new Date().toISOString(),
+		token: randomUUID(),
+	};
+	const deadline = Date.now() + LOCK_TIMEOUT_MS;
 
-	const tempPath = `${filePath}.tmp`;
-	const content = JSON.stringify(data, null, 2);
+	await ensureDir(path.dirname(filePath));
 
+	for (;;) {
+		try {
+			await fs.writeFile(lockPath, JSON.stringify(owner), {flag: 'wx'});
+			break;
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+				throw error;
+			}
+		}
+
+		if (await isLockStale(lockPath)) {
+			await fs.rm(lockPath, {force: true});
+			continue;
+		}
+
+		if (Date.now() > deadline) {
+			throw new Error(
+				`Timed out waiting for lock on ${filePath} (remove ${lockPath} if no other yolo process is running)`,
+			);
+		}
+
+		await sleep(LOCK_RETRY_MS);
+	}
+
+	try {
+		return await fn();
+	} finally {
+		await releaseLock(lockPath, owner.token);
+	}
+}
+
+/**
+ * Replace a file's contents atomically (write a temp file, then rename it)
+ */
+export async function writeFileAtomic(
+	filePath: string,
+	content: string,
+): Promise<void> {
+	await ensureDir(path.dirname(filePath));
+
+	const tempPath = `${filePath}.${process.pid}.tmp`;
 	await fs.writeFile(tempPath, content, 'utf-8');
 	await fs.rename(tempPath, filePath);
 }
 
 /**
- * Load configuration from file
+ * Write an object to a JSON file with atomic write
  */
-export async function loadConfig(): Promise<Configuration | null> {
+export async function writeJsonFile<T>(
+	filePath: string,
+	data: T,
+): Promise<void> {
+	await writeFileAtomic(filePath, JSON.stringify(data, null, 2));
+}
+
+// How history records are written, from the config file at configPath
+let historySettings: {
+	configPath: string;
+	key: Buffer | null;
+	redaction?: RedactionSettings;
+} | null = null;
+
+/**
+ * Read the configuration file as stored, without decrypting secrets
+ */
+async function readStoredConfig(): Promise<Configuration | null> {
 	const configPath = getConfigPath();
 
 	if (!fileExists(configPath)) {
@@ -130,15 +298,141 @@ export async function loadConfig(): Promise<Configuration | null> {
 }
 
 /**
- * Save configuration to file
+ * Get the encryption key and redaction settings for history records
+ * Throws when encryption is configured but the key is missing or wrong.
+ */
+async function getHistorySettings(): Promise<{
+	key: Buffer | null;
+	redaction?: RedactionSettings;
+}> {
+	const configPath = getConfigPath();
+	if (historySettings?.configPath !== configPath) {
+		const config = await readStoredConfig();
+		historySettings = {
+			configPath,
+			key: config?.encryption ? await unlockEncryption(config.encryption) : null,
+			redaction: config?.preferences?.redaction,
+		};
+	}
+
+	return historySettings;
+}
+
+/**
+ * Get the key history records are encrypted with (null when not encrypted)
+ */
+async function getHistoryKey(): Promise<Buffer | null> {
+	return (await getHistorySettings()).key;
+}
+
+/**
+ * Encrypt a value stored next to history, such as checkpoint contents
+ * Returned unchanged when encryption is not configured.
+ */
+export async function encryptStoredValue(value: string): Promise<string> {
+	const key = await getHistoryKey();
+	return key ? encryptString(value, key) : value;
+}
+
+/**
+ * Decrypt a value written by encryptStoredValue; plaintext passes through
+ */
+export async function decryptStoredValue(value: string): Promise<string> {
+	if (!isEncrypted(value)) {
+		return value;
+	}
+
+	const key = await getHistoryKey();
+	if (!key) {
+		throw new Error(`Stored data is encrypted but encryption is not configured in ${getConfigPath()}`);
+	}
+
+	return decryptString(value, key);
+}
+
+/**
+ * Encrypt the session titles of metadata or index entries for writing
+ * Titles come from the first prompt, so they are kept as private as history.
+ */
+async function encryptTitles<T extends {title?: string}>(entries: T[]): Promise<T[]> {
+	return Promise.all(
+		entries.map(async entry =>
+			entry.title && !isEncrypted(entry.title)
+				? {...entry, title: await encryptStoredValue(entry.title)}
+				: entry,
+		),
+	);
+}
+
+/**
+ * Decrypt session titles written by encryptTitles
+ * A title that cannot be decrypted stays encrypted, so writing it back keeps it.
+ */
+async function decryptTitles<T extends {title?: string}>(entries: T[]): Promise<T[]> {
+	return Promise.all(
+		entries.map(async entry => {
+			if (!entry.title || !isEncrypted(entry.title)) {
+				return entry;
+			}
+
+			try {
+				return {...entry, title: await decryptStoredValue(entry.title)};
+			} catch {
+				return entry;
+			}
+		}),
+	);
+}
+
+/**
+ * Load configuration from file, decrypting secrets
+ * Throws when the config is encrypted and the key is missing or wrong.
+ */
+export async function loadConfig(): Promise<Configuration | null> {
+	const config = await readStoredConfig();
+
+	if (config?.encryption && isEncrypted(config.apiKey)) {
+		const key = await unlockEncryption(config.encryption);
+		config.apiKey = decryptString(config.apiKey, key);
+		config.providers = config.providers?.map(provider =>
+			provider.apiKey && isEncrypted(provider.apiKey)
+				? {...provider, apiKey: decryptString(provider.apiKey, key)}
+				: provider,
+		);
+	}
+
+	return config;
+}
+
+/**
+ * Save configuration to file, encrypting secrets when encryption is enabled
+ * Encryption settings already on disk are kept, so rewriting the config
+ * (e.g., rerunning setup) cannot leave encrypted history unreadable.
  */
 export async function saveConfig(config: Configuration): Promise<void> {
 	const configPath = getConfigPath();
-	await writeJsonFile(configPath, config);
+	const encryption = config.encryption ?? (await readStoredConfig())?.encryption;
+
+	const key = encryption ? await unlockEncryption(encryption) : null;
+	const stored: Configuration = key
+		? {
+				...config,
+				apiKey: encryptString(config.apiKey, key),
+				providers: config.providers?.map(provider =>
+					provider.apiKey
+						? {...provider, apiKey: encryptString(provider.apiKey, key)}
+						: provider,
+				),
+				encryption,
+			}
+		: config;
+
+	await writeJsonFile(configPath, stored);
+	historySettings = null;
 }
 
 /**
- * Load session metadata from file
+ * Load session metadata from file, decrypting session titles
  */
 export async function loadSessionMetadata(
 	workingDir: string,
@@ -150,105 +444,653 @@ export async function loadSessionMetadata(
 	}
 
 	try {
-		return await readJsonFile<SessionMetadataFile>(metadataPath);
+		const metadata = await readJsonFile<SessionMetadataFile>(metadataPath);
+		return {...metadata, sessions: await decryptTitles(metadata.sessions)};
 	} catch {
 		return null;
 	}
 }
 
+/**
+ * Write session metadata, encrypting titles when encryption is configured
+ */
+async function writeSessionMetadata(
+	metadataPath: string,
+	metadata: SessionMetadataFile,
+): Promise<void> {
+	await writeJsonFile(metadataPath, {
+		...metadata,
+		sessions: await encryptTitles(metadata.sessions),
+	});
+}
+
 /**
  * Save session metadata to file (atomic write)
+ * Replaces the whole file; use updateSessionMetadata to change it without
+ * overwriting changes made by other processes
  */
 export async function saveSessionMetadata(
 	workingDir: string,
 	metadata: SessionMetadataFile,
 ): Promise<void> {
 	const metadataPath = getSessionMetadataPath(workingDir);
-	await writeJsonFile(metadataPath, metadata);
+	await withFileLock(metadataPath, async () => writeSessionMetadata(metadataPath, metadata));
 }
 
 /**
- * Read messages from history file (JSONL format)
- * Supports multi-session with optional sessionId parameter
+ * Read, change and write session metadata under a lock
+ * The update runs against the latest file contents, so changes made by other
+ * yolo processes in the same directory are kept. Return null to skip writing.
  */
-export async function readHistory(
+export async function updateSessionMetadata(
 	workingDir: string,
-	sessionId?: string,
-): Promise<Message[]> {
-	const historyPath = getHistoryPath(workingDir, sessionId);
+	update: (
+		metadata: SessionMetadataFile | null,
+	) => SessionMetadataFile | null | Promise<SessionMetadataFile | null>,
+): Promise<SessionMetadataFile | null> {
+	const metadataPath = getSessionMetadataPath(workingDir);
+
+	return withFileLock(metadataPath, async () => {
+		const updated = await update(await loadSessionMetadata(workingDir));
+		if (updated) {
+			updated.lastUpdated = new Date().toISOString();
+			await writeSessionMetadata(metadataPath, updated);
+		}
+
+		return updated;
+	});
+}
+
+/**
+ * Load the global session index, decrypting session titles
+ */
+export async function loadSessionIndex(): Promise<SessionIndexFile> {
+	const indexPath = getSessionIndexPath();
+	const empty: SessionIndexFile = {version: '1.0.0', sessions: []};
+
+	if (!fileExists(indexPath)) {
+		return empty;
+	}
+
+	try {
+		const index = await readJsonFile<SessionIndexFile>(indexPath);
+		return {...index, sessions: await decryptTitles(index.sessions)};
+	} catch {
+		return empty;
+	}
+}
+
+/**
+ * Read, change and write the global session index under a lock
+ */
+export async function updateSessionIndex(
+	update: (index: SessionIndexFile) => void | Promise<void>,
+): Promise<void> {
+	const indexPath = getSessionIndexPath();
+
+	await withFileLock(indexPath, async () => {
+		const index = await loadSessionIndex();
+		await update(index);
+		await writeJsonFile(indexPath, {...index, sessions: await encryptTitles(index.sessions)});
+	});
+}
+
+/**
+ * Check whether a history record is a compaction marker
+ */
+export function isCompactionRecord(record: HistoryRecord): record is CompactionRecord {
+	return (record as Partial<CompactionRecord>).type === 'compaction';
+}
+
+/**
+ * Rebuild the compacted view of a history file
+ * Each compaction marker replaces its messages with its own (a summary or
+ * pruned copies), placed where the first replaced message was
+ */
+export function applyCompactions(records: HistoryRecord[]): Message[] {
+	let messages: Message[] = [];
+
+	for (const record of records) {
+		if (isCompactionRecord(record)) {
+			messages = replaceMessages(messages, record.replacedMessageIds, record.messages);
+		} else {
+			messages.push(record);
+		}
+	}
+
+	return messages;
+}
+
+/**
+ * Replace messages with others, placed where the first replaced message was
+ * Messages in between that are not replaced (e.g. pinned ones) stay in place.
+ * Replacements that keep the ids of replaced messages (pruned copies) take
+ * their places one by one instead, so the conversation order is unchanged.
+ */
+export function replaceMessages(
+	messages: Message[],
+	replacedMessageIds: string[],
+	replacement: Message[],
+): Message[] {
+	const replaced = new Set(replacedMessageIds);
+	if (replacement.length > 0 && replacement.every(m => replaced.has(m.id))) {
+		const copies = new Map(replacement.map(m => [m.id, m]));
+		return messages
+			.filter(m => !replaced.has(m.id) || copies.has(m.id))
+			.map(m => copies.get(m.id) ?? m);
+	}
+
+	const insertAt = messages.findIndex(m => replaced.has(m.id));
+	if (insertAt === -1) {
+		return messages; // Replaced messages are no longer in the file
+	}
+
+	const result = messages.filter(m => !replaced.has(m.id));
+	result.splice(insertAt, 0, ...replacement);
+	return result;
+}
+
+/**
+ * Collapse the updated copies upsertMessage appends for a stored message
+ * The last copy of a message wins and replaces every earlier copy in place,
+ * including those held by compaction markers written before it.
+ */
+function collapseUpdates(records: HistoryRecord[]): HistoryRecord[] {
+	const collapsed: HistoryRecord[] = [];
+	const positions = new Map<string, number[]>(); // Indexes in collapsed holding each message
+
+	for (const record of records) {
+		if (isCompactionRecord(record)) {
+			for (const message of record.messages) {
+				positions.set(message.id, [...(positions.get(message.id) ?? []), collapsed.length]);
+			}
+
+			collapsed.push(record);
+			continue;
+		}
+
+		const stored = positions.get(record.id);
+		if (!stored) {
+			positions.set(record.id, [collapsed.length]);
+			collapsed.push(record);
+			continue;
+		}
+
+		for (const index of stored) {
+			const copy = collapsed[index];
+			collapsed[index] =
+				copy && isCompactionRecord(copy)
+					? {
+							...copy,
+							messages: copy.messages.map(m => (m.id === record.id ? record : m)),
+						}
+					: record;
+		}
+	}
 
+	return collapsed;
+}
+
+/**
+ * Parse the records of a history file (JSONL format)
+ * Updated copies of a message are collapsed, so rewriting the records
+ * drops them from the file.
+ */
+async function readHistoryFile(historyPath: string): Promise<HistoryRecord[]> {
 	if (!fileExists(historyPath)) {
 		return [];
 	}
 
+	let content: string;
 	try {
-		const content = await fs.readFile(historyPath, 'utf-8');
-		const lines = content.trim().split('\n');
-		const messages: Message[] = [];
+		content = await fs.readFile(historyPath, 'utf-8');
+	} catch {
+		return [];
+	}
+
+	const lines = content.trim().split('\n');
+	const records: HistoryRecord[] = [];
+
+	for (const line of lines) {
+		if (!line.trim()) {
+			continue;
+		}
 
-		for (const line of lines) {
-			if (!line.trim()) {
-				continue;
+		if (isEncrypted(line)) {
+			const key = await getHistoryKey();
+			if (!key) {
+				throw new Error(
+					`${historyPath} is encrypted but encryption is not configured in ${getConfigPath()}`,
+				);
 			}
 
 			try {
-				const message = JSON.parse(line) as Message;
-				messages.push(message);
+				records.push(JSON.parse(decryptString(line, key)) as HistoryRecord);
 			} catch {
-				// Skip malformed lines
-				console.warn(`Skipping malformed history line: ${line.slice(0, 50)}...`);
+				console.warn(`Skipping undecryptable history line in ${historyPath}`);
 			}
+
+			continue;
 		}
 
-		return messages;
-	} catch {
-		return [];
+		try {
+			const record = JSON.parse(line) as HistoryRecord;
+			records.push(record);
+		} catch {
+			// Skip malformed lines
+			console.warn(`Skipping malformed history line: ${line.slice(0, 50)}...`);
+		}
+	}
+
+	return collapseUpdates(records);
+}
+
+/**
+ * Read all records from history file (JSONL format), including compaction markers
+ * Supports multi-session with optional sessionId parameter
+ */
+export async function readHistoryRecords(
+	workingDir: string,
+	sessionId?: string,
+): Promise<HistoryRecord[]> {
+	return readHistoryFile(getHistoryPath(workingDir, sessionId));
+}
+
+/**
+ * Read messages from history file (JSONL format) with compactions applied
+ * Supports multi-session with optional sessionId parameter
+ */
+export async function readHistory(
+	workingDir: string,
+	sessionId?: string,
+): Promise<Message[]> {
+	return applyCompactions(await readHistoryRecords(workingDir, sessionId));
+}
+
+/**
+ * Read every message ever written to a history file, ignoring compactions
+ */
+export async function readRawHistory(
+	workingDir: string,
+	sessionId?: string,
+): Promise<Message[]> {
+	const records = await readHistoryRecords(workingDir, sessionId);
+	return records.filter((record): record is Message => !isCompactionRecord(record));
+}
+
+// IDs of the messages already stored in each history file, keyed by path.
+// The file size is kept alongside so changes by other processes are noticed.
+const writtenMessages = new Map<string, {size: number; ids: Set<string>}>();
+
+/**
+ * IDs of every message stored in a history file, including the summaries
+ * and pruned copies held by compaction markers
+ */
+function collectMessageIds(records: HistoryRecord[]): Set<string> {
+	const ids = new Set<string>();
+	for (const record of records) {
+		if (isCompactionRecord(record)) {
+			for (const message of record.messages) {
+				ids.add(message.id);
+			}
+		} else {
+			ids.add(record.id);
+		}
 	}
+
+	return ids;
+}
+
+/**
+ * Get the IDs stored in a history file, rereading it if it changed on disk
+ * Call with the file lock held.
+ */
+async function getWrittenMessageIds(historyPath: string): Promise<Set<string>> {
+	const size = fileExists(historyPath) ? (await fs.stat(historyPath)).size : 0;
+	const cached = writtenMessages.get(historyPath);
+	if (cached?.size === size) {
+		return cached.ids;
+	}
+
+	const ids = collectMessageIds(await readHistoryFile(historyPath));
+	writtenMessages.set(historyPath, {size, ids});
+	return ids;
+}
+
+/**
+ * Serialize history records as JSONL, masking secrets and encrypting each
+ * line when enabled
+ */
+async function serializeRecords(records: HistoryRecord[]): Promise<string> {
+	const {key, redaction} = await getHistorySettings();
+	return records
+		.map(record => {
+			const line = JSON.stringify(redactHistoryRecord(record, redaction));
+			return (key ? encryptString(line, key) : line) + '\n';
+		})
+		.join('');
+}
+
+/**
+ * Append records to a history file and track what was written
+ * Call with the file lock held.
+ */
+async function appendRecords(
+	historyPath: string,
+	records: HistoryRecord[],
+): Promise<void> {
+	const ids = await getWrittenMessageIds(historyPath);
+	const content = await serializeRecords(records);
+	await fs.appendFile(historyPath, content, 'utf-8');
+
+	for (const id of collectMessageIds(records)) {
+		ids.add(id);
+	}
+
+	writtenMessages.set(historyPath, {size: (await fs.stat(historyPath)).size, ids});
+}
+
+/**
+ * Replace the records of a history file atomically and track what was written
+ * Call with the file lock held.
+ */
+async function replaceRecords(
+	historyPath: string,
+	records: HistoryRecord[],
+): Promise<void> {
+	const content = await serializeRecords(records);
+	await writeFileAtomic(historyPath, content);
+	writtenMessages.set(historyPath, {
+		size: Buffer.byteLength(content),
+		ids: collectMessageIds(records),
+	});
 }
 
 /**
- * Append a message to the history file (JSONL format)
+ * Append messages that are not yet in the history file (JSONL format)
+ * Each message is written once, however often it is passed in.
+ * Returns the messages that were actually appended.
+ */
+export async function appendMessages(
+	workingDir: string,
+	messages: Message[],
+	sessionId?: string,
+): Promise<Message[]> {
+	const historyPath = getHistoryPath(workingDir, sessionId);
+	await ensureDir(getHistoryDir(workingDir));
+
+	return withFileLock(historyPath, async () => {
+		const seen = new Set(await getWrittenMessageIds(historyPath));
+		const pending = messages.filter(message => {
+			if (seen.has(message.id)) {
+				return false;
+			}
+
+			seen.add(message.id);
+			return true;
+		});
+
+		if (pending.length > 0) {
+			await appendRecords(historyPath, pending);
+		}
+
+		return pending;
+	});
+}
+
+/**
+ * Append a message to the history file (JSONL format), unless already stored
  * Supports multi-session with optional sessionId parameter
+ * Returns whether the message was written.
  */
 export async function appendToHistory(
 	workingDir: string,
 	message: Message,
 	sessionId?: string,
+): Promise<boolean> {
+	const appended = await appendMessages(workingDir, [message], sessionId);
+	return appended.length > 0;
+}
+
+/**
+ * Write a message to the history file, replacing the stored copy if it is
+ * already there
+ * An interrupted (still streaming) replacement is appended as another copy,
+ * cheap enough to call while a response streams; reading keeps only the last
+ * copy of each message. Any other replacement rewrites the file (atomically)
+ * with one copy, collapsing those appended while it streamed.
+ * Returns whether the message was new to the file.
+ */
+export async function upsertMessage(
+	workingDir: string,
+	message: Message,
+	sessionId?: string,
+): Promise<boolean> {
+	const historyPath = getHistoryPath(workingDir, sessionId);
+	await ensureDir(getHistoryDir(workingDir));
+
+	return withFileLock(historyPath, async () => {
+		const isNew = !(await getWrittenMessageIds(historyPath)).has(message.id);
+		if (isNew || message.metadata?.interrupted) {
+			await appendRecords(historyPath, [message]);
+			return isNew;
+		}
+
+		const records = await readHistoryFile(historyPath);
+		await replaceRecords(historyPath, collapseUpdates([...records, message]));
+		return false;
+	});
+}
+
+/**
+ * Append a compaction marker to the history file
+ */
+export async function appendCompactionRecord(
+	workingDir: string,
+	record: CompactionRecord,
+	sessionId?: string,
 ): Promise<void> {
 	const historyPath = getHistoryPath(workingDir, sessionId);
-	const historyDir = getHistoryDir(workingDir);
+	await ensureDir(getHistoryDir(workingDir));
+
+	await withFileLock(historyPath, async () => appendRecords(historyPath, [record]));
+}
+
+/**
+ * Replace the contents of a history file (atomic rewrite)
+ */
+export async function rewriteHistory(
+	workingDir: string,
+	records: HistoryRecord[],
+	sessionId?: string,
+): Promise<void> {
+	const historyPath = getHistoryPath(workingDir, sessionId);
+	await withFileLock(historyPath, async () => replaceRecords(historyPath, records));
+}
+
+/**
+ * Truncate a session history file just before a message (atomic rewrite)
+ * Compaction markers written after that point are kept unless they replace
+ * or keep a removed message. Returns the records that were removed.
+ */
+export async function truncateHistory(
+	workingDir: string,
+	sessionId: string,
+	messageId: string,
+): Promise<HistoryRecord[]> {
+	const historyPath = getHistoryPath(workingDir, sessionId);
+
+	return withFileLock(historyPath, async () => {
+		const records = await readHistoryFile(historyPath);
+		const index = records.findIndex(
+			record => !isCompactionRecord(record) && record.id === messageId,
+		);
+		if (index === -1) {
+			throw new Error(`Message ${messageId} not found in session history`);
+		}
+
+		const removedIds = new Set(
+			records
+				.slice(index)
+				.filter(record => !isCompactionRecord(record))
+				.map(record => record.id),
+		);
+		const isKept = (record: HistoryRecord) =>
+			isCompactionRecord(record) &&
+			!record.replacedMessageIds.some(id => removedIds.has(id)) &&
+			!record.messages.some(message => removedIds.has(message.id));
+
+		const later = records.slice(index);
+		await replaceRecords(historyPath, [...records.slice(0, index), ...later.filter(isKept)]);
+		return later.filter(record => !isKept(record));
+	});
+}
+
+/**
+ * Index of the first message kept when limiting a conversation to maxMessages
+ * The kept slice starts at a user message so the conversation stays valid
+ */
+export function getRotationStart(messages: Message[], maxMessages: number): number {
+	if (messages.length <= maxMessages) {
+		return 0;
+	}
+
+	let start = messages.length - maxMessages;
+	while (start < messages.length && messages[start].role !== 'user') {
+		start++;
+	}
+
+	return start;
+}
+
+/**
+ * IDs of pinned messages, with the tool results of pinned assistant messages
+ * so that a kept tool call never loses its results
+ */
+export function getPinnedMessageIds(messages: Message[]): Set<string> {
+	const ids = new Set<string>();
+	let pinnedCall = false;
+
+	for (const message of messages) {
+		if (message.metadata?.pinned || (pinnedCall && message.role === 'tool')) {
+			ids.add(message.id);
+		}
+
+		if (message.role !== 'tool') {
+			pinnedCall = Boolean(message.metadata?.pinned && message.metadata.toolCalls);
+		}
+	}
+
+	return ids;
+}
 
-	await ensureDir(historyDir);
+/**
+ * Limit a conversation to maxMessages, keeping pinned messages from the part
+ * that is cut off
+ */
+export function limitMessages(messages: Message[], maxMessages: number): Message[] {
+	const start = getRotationStart(messages, maxMessages);
+	if (start === 0) {
+		return messages;
+	}
 
-	const line = JSON.stringify(message) + '\n';
-	await fs.appendFile(historyPath, line, 'utf-8');
+	const pinnedIds = getPinnedMessageIds(messages);
+	return [
+		...messages.slice(0, start).filter(m => pinnedIds.has(m.id)),
+		...messages.slice(start),
+	];
 }
 
 /**
  * Rotate history file if it exceeds the message limit
+ * Supports multi-session with optional sessionId parameter. Compactions are
+ * folded in, so the raw messages they replaced are dropped. Pinned messages
+ * are kept.
+ * Returns the number of messages removed from the conversation.
  */
 export async function rotateHistory(
 	workingDir: string,
 	maxMessages: number,
-): Promise<void> {
-	const messages = await readHistory(workingDir);
+	sessionId?: string,
+): Promise<number> {
+	const historyPath = getHistoryPath(workingDir, sessionId);
 
-	if (messages.length <= maxMessages) {
-		return;
+	return withFileLock(historyPath, async () => {
+		const messages = applyCompactions(await readHistoryFile(historyPath));
+
+		if (messages.length <= maxMessages) {
+			return 0;
+		}
+
+		// Keep only the most recent messages, and pinned ones
+		const kept = limitMessages(messages, maxMessages);
+		if (kept.length === messages.length) {
+			return 0;
+		}
+
+		await replaceRecords(historyPath, kept);
+
+		return messages.length - kept.length;
+	});
+}
+
+/**
+ * Rewrite a history file with every record encrypted
+ * Returns false when there is nothing left to encrypt.
+ */
+export async function encryptHistoryFile(
+	workingDir: string,
+	sessionId?: string,
+): Promise<boolean> {
+	const historyPath = getHistoryPath(workingDir, sessionId);
+
+	if (!(await getHistoryKey())) {
+		throw new Error('Encryption is not configured');
 	}
 
-	// Keep only the most recent messages
-	const recentMessages = messages.slice(-maxMessages);
+	return withFileLock(historyPath, async () => {
+		if (!fileExists(historyPath)) {
+			return false;
+		}
 
-	// Write to temporary file
-	const historyPath = getHistoryPath(workingDir);
-	const tempPath = `${historyPath}.tmp`;
+		const lines = (await fs.readFile(historyPath, 'utf-8')).split('\n');
+		if (lines.every(line => !line.trim() || isEncrypted(line))) {
+			return false;
+		}
 
-	const content = recentMessages.map(msg => JSON.stringify(msg)).join('\n') + '\n';
-	await fs.writeFile(tempPath, content, 'utf-8');
+		await replaceRecords(historyPath, await readHistoryFile(historyPath));
+		return true;
+	});
+}
 
-	// Atomic replace
-	await fs.rename(tempPath, historyPath);
+/**
+ * List the session IDs of history files in a working directory
+ */
+export async function listHistoryFileIds(workingDir: string): Promise<string[]> {
+	try {
+		const entries = await fs.readdir(getHistoryDir(workingDir));
+		return entries
+			.map(entry => /^history-(.+)\.jsonl$/.exec(entry)?.[1])
+			.filter((id): id is string => id !== undefined);
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Delete a session-specific history file
+ */
+export async function deleteHistoryFile(
+	workingDir: string,
+	sessionId: string,
+): Promise<void> {
+	const historyPath = getHistoryPath(workingDir, sessionId);
+
+	if (fileExists(historyPath)) {
+		await fs.unlink(historyPath);
+	}
+
+	writtenMessages.delete(historyPath);
 }
 
 /**
@@ -260,4 +1102,6 @@ export async function clearHistory(workingDir: string): Promise<void> {
 	if (fileExists(historyPath)) {
 		await fs.unlink(historyPath);
 	}
+
+	writtenMessages.delete(historyPath);
 }
@@ -2,7 +2,11 @@
  * Input validation utilities
  */
 
-import type {Configuration, Message, ModelConfig} from '../types/index.js';
+import type {Configuration, Message, ModelConfig, ProviderConfig} from '../types/index.js';
+import {compileRedactionPattern} from './redaction.js';
+
+// Well above the largest tool output yolo stores (read_file: 1000 lines of 2000 chars, bash: 1MB)
+export const MAX_MESSAGE_LENGTH = 10_000_000;
 
 /**
  * Validate OpenRouter API key format
@@ -49,11 +53,31 @@ export function validateConfig(config: unknown): config is Configuration {
 		return false;
 	}
 
-	// Validate each model config
+	// Validate providers; names must be unique and each needs an endpoint
+	if (cfg.providers !== undefined && !Array.isArray(cfg.providers)) {
+		return false;
+	}
+
+	const providerNames = new Set<string>();
+	for (const provider of cfg.providers ?? []) {
+		if (!validateProviderConfig(provider) || providerNames.has(provider.name)) {
+			return false;
+		}
+
+		providerNames.add(provider.name);
+	}
+
+	providerNames.add('openrouter');
+
+	// Validate each model config and the provider it points at
 	for (const model of cfg.models) {
 		if (!validateModelConfig(model)) {
 			return false;
 		}
+
+		if (model.provider !== undefined && !providerNames.has(model.provider)) {
+			return false;
+		}
 	}
 
 	// Validate defaultModel if set
@@ -80,6 +104,62 @@ export function validateConfig(config: unknown): config is Configuration {
 		return false;
 	}
 
+	for (const limit of [cfg.preferences.sessionMaxAgeDays, cfg.preferences.maxSessions]) {
+		if (limit !== undefined && (typeof limit !== 'number' || limit < 0)) {
+			return false;
+		}
+	}
+
+	if (
+		cfg.preferences.autoCompact !== undefined &&
+		typeof cfg.preferences.autoCompact !== 'boolean'
+	) {
+		return false;
+	}
+
+	const {redaction} = cfg.preferences;
+	if (redaction !== undefined) {
+		if (
+			redaction.mode !== undefined &&
+			!['mask', 'block', 'warn', 'off'].includes(redaction.mode)
+		) {
+			return false;
+		}
+
+		if (
+			redaction.entropyThreshold !== undefined &&
+			(typeof redaction.entropyThreshold !== 'number' || redaction.entropyThreshold < 0)
+		) {
+			return false;
+		}
+
+		for (const pattern of redaction.patterns ?? []) {
+			if (!pattern.name || !compileRedactionPattern(pattern)) {
+				return false;
+			}
+		}
+	}
+
+	const {fallbackModels, fallbackRouting} = cfg.preferences;
+	if (fallbackModels !== undefined && !isModelIdList(fallbackModels)) {
+		return false;
+	}
+
+	if (fallbackRouting !== undefined && !['client', 'openrouter'].includes(fallbackRouting)) {
+		return false;
+	}
+
+	const {budget} = cfg.preferences;
+	if (budget !== undefined) {
+		for (const limit of [budget.request, budget.session, budget.day]) {
+			for (const value of [limit?.dollars, limit?.tokens]) {
+				if (value !== undefined && (typeof value !== 'number' || value <= 0)) {
+					return false;
+				}
+			}
+		}
+	}
+
 	return true;
 }
 
@@ -105,14 +185,67 @@ export function validateModelConfig(model: unknown): model is ModelConfig {
 		return false;
 	}
 
-	// Validate model ID format (provider/model-name or provider/model-name:variant)
-	if (!/^[a-z0-9-]+\/[a-z0-9.:_-]+$/i.test(m.id)) {
+	if (m.provider !== undefined && (!m.provider || typeof m.provider !== 'string')) {
+		return false;
+	}
+
+	if (m.fallbacks !== undefined && !isModelIdList(m.fallbacks)) {
+		return false;
+	}
+
+	// Validate OpenRouter model ID format (provider/model-name or provider/model-name:variant);
+	// other providers name models as they like (e.g., "llama3.1:8b")
+	if (
+		(m.provider ?? 'openrouter') === 'openrouter' &&
+		!/^[a-z0-9-]+\/[a-z0-9.:_-]+$/i.test(m.id)
+	) {
 		return false;
 	}
 
 	return true;
 }
 
+/**
+ * Check that a value is a list of model IDs, as fallback chains are
+ */
+function isModelIdList(value: unknown): value is string[] {
+	return Array.isArray(value) && value.every(id => typeof id === 'string' && id.length > 0);
+}
+
+/**
+ * Validate provider configuration object
+ */
+export function validateProviderConfig(provider: unknown): provider is ProviderConfig {
+	if (!provider || typeof provider !== 'object') {
+		return false;
+	}
+
+	const p = provider as Partial<ProviderConfig>;
+
+	if (!p.name || typeof p.name !== 'string') {
+		return false;
+	}
+
+	if (p.type !== 'openrouter' && p.type !== 'openai-compatible') {
+		return false;
+	}
+
+	// OpenAI-compatible providers need an http(s) endpoint
+	if (p.baseUrl !== undefined || p.type === 'openai-compatible') {
+		if (typeof p.baseUrl !== 'string' || !/^https?:\/\/\S+$/i.test(p.baseUrl)) {
+			return false;
+		}
+	}
+
+	for (const value of [p.apiKey, p.authHeader, p.modelsPath]) {
+		if (value !== undefined && (!value || typeof value !== 'string')) {
+			return false;
+		}
+	}
+
+	return true;
+}
+
 /**
  * Validate message object
  */
@@ -127,24 +260,33 @@ export function validateMessage(message: unknown): message is Message {
 		return false;
 	}
 
-	if (!msg.role || !['user', 'assistant', 'system'].includes(msg.role)) {
+	if (!msg.role || !['user', 'assistant', 'system', 'tool'].includes(msg.role)) {
 		return false;
 	}
 
-	if (!msg.content || typeof msg.content !== 'string') {
+	if (typeof msg.content !== 'string' || msg.content.length > MAX_MESSAGE_LENGTH) {
 		return false;
 	}
 
-	if (msg.content.length === 0 || msg.content.length > 100000) {
+	// Only tool results and assistant tool-call turns may have empty content
+	const mayBeEmpty =
+		msg.role === 'tool' ||
+		(msg.role === 'assistant' && (msg.metadata?.toolCalls?.length ?? 0) > 0);
+	if (msg.content.length === 0 && !mayBeEmpty) {
 		return false;
 	}
 
-	if (!msg.timestamp || typeof msg.timestamp !== 'string') {
+	// Tool results must reference the call they answer
+	if (msg.role === 'tool' && !msg.metadata?.toolCallId) {
 		return false;
 	}
 
-	// Validate ISO 8601 timestamp
-	if (!isValidISODate(msg.timestamp)) {
+	// Validate ISO 8601 timestamp (or Unix milliseconds, as written for tool results)
+	if (typeof msg.timestamp === 'number') {
+		if (!Number.isFinite(msg.timestamp) || msg.timestamp <= 0) {
+			return false;
+		}
+	} else if (!msg.timestamp || !isValidISODate(msg.timestamp)) {
 		return false;
 	}
 
@@ -180,20 +322,24 @@ export function isValidUUID(uuid: string): boolean {
 
 /**
  * Validate message role alternation in conversation
- * After first user message, messages must alternate between user/assistant
+ * After first user message, messages must alternate between user/assistant.
+ * Tool results belong to the assistant turn that requested them, so an
+ * assistant message may directly follow another once tool results sit between.
  */
 export function validateMessageAlternation(messages: Message[]): boolean {
-	if (messages.length === 0) {
+	// Leading system prompts are allowed before the first user message
+	const firstIndex = messages.findIndex(m => m.role !== 'system');
+	if (firstIndex === -1) {
 		return true;
 	}
 
 	// First message must be from user
-	if (messages[0].role !== 'user') {
+	if (messages[firstIndex].role !== 'user') {
 		return false;
 	}
 
 	// Check alternation
-	for (let i = 1; i < messages.length; i++) {
+	for (let i = firstIndex + 1; i < messages.length; i++) {
 		const prev = messages[i - 1];
 		const curr = messages[i];
 
@@ -202,8 +348,17 @@ export function validateMessageAlternation(messages: Message[]): boolean {
 			continue;
 		}
 
-		// Skip if previous was system
-		if (prev.role === 'system') {
+		// Tool results must follow an assistant turn or other tool results
+		if (curr.role === 'tool') {
+			if (prev.role !== 'assistant' && prev.role !== 'tool') {
+				return false;
+			}
+
+			continue;
+		}
+
+		// Skip if previous was system, or tool results (the assistant continues its turn)
+		if (prev.role === 'system' || prev.role === 'tool') {
 			continue;
 		}
 
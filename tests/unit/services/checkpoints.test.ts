@@ -0,0 +1,91 @@
+/**
+ * Unit tests for file checkpoints
+ */
+
+import {describe, it, expect, beforeEach, afterEach} from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import {
+	getCheckpointedFiles,
+	loadCheckpoint,
+	recordFileCheckpoint,
+	restoreCheckpoints,
+} from '../../../src/services/checkpoints.js';
+import {fileExists} from '../../../src/utils/storage.js';
+
+const turn = {sessionId: 'session-1', messageId: 'user-1'};
+
+describe('checkpoints service', () => {
+	let testDir: string;
+
+	beforeEach(async () => {
+		testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'checkpoints-test-'));
+	});
+
+	afterEach(async () => {
+		await fs.rm(testDir, {recursive: true, force: true});
+	});
+
+	describe('recordFileCheckpoint', () => {
+		it('should keep only the first snapshot of a file per turn', async () => {
+			const file = path.join(testDir, 'a.txt');
+			await fs.writeFile(file, 'first');
+			await recordFileCheckpoint(testDir, turn, file);
+			await fs.writeFile(file, 'second');
+			await recordFileCheckpoint(testDir, turn, file);
+
+			const checkpoint = await loadCheckpoint(testDir, turn.messageId);
+			expect(checkpoint?.files).toHaveLength(1);
+			expect(
+				Buffer.from(checkpoint?.files[0]?.content ?? '', 'base64').toString(),
+			).toBe('first');
+		});
+
+		it('should record files that did not exist yet', async () => {
+			const file = path.join(testDir, 'new.txt');
+			await recordFileCheckpoint(testDir, turn, file);
+
+			const checkpoint = await loadCheckpoint(testDir, turn.messageId);
+			expect(checkpoint?.files[0]).toEqual({path: file, existed: false});
+		});
+
+		it('should skip files outside the working directory', async () => {
+			await recordFileCheckpoint(testDir, turn, path.join(os.tmpdir(), 'outside.txt'));
+
+			expect(await loadCheckpoint(testDir, turn.messageId)).toBeNull();
+		});
+	});
+
+	describe('restoreCheckpoints', () => {
+		it('should restore the earliest snapshot and remove the checkpoints', async () => {
+			const file = path.join(testDir, 'a.txt');
+			await fs.writeFile(file, 'v1');
+			await recordFileCheckpoint(testDir, turn, file);
+			await fs.writeFile(file, 'v2');
+			await recordFileCheckpoint(testDir, {...turn, messageId: 'user-2'}, file);
+			await fs.writeFile(file, 'v3');
+
+			expect(await getCheckpointedFiles(testDir, ['user-1', 'user-2'])).toEqual([file]);
+
+			const result = await restoreCheckpoints(testDir, ['user-1', 'user-2']);
+
+			expect(await fs.readFile(file, 'utf8')).toBe('v1');
+			expect(result).toEqual({restoredFiles: [file], deletedFiles: []});
+			expect(await loadCheckpoint(testDir, 'user-1')).toBeNull();
+			expect(await loadCheckpoint(testDir, 'user-2')).toBeNull();
+		});
+
+		it('should delete files created during the rewound turns', async () => {
+			const file = path.join(testDir, 'sub', 'created.txt');
+			await recordFileCheckpoint(testDir, turn, file);
+			await fs.mkdir(path.dirname(file));
+			await fs.writeFile(file, 'created');
+
+			const result = await restoreCheckpoints(testDir, [turn.messageId]);
+
+			expect(fileExists(file)).toBe(false);
+			expect(result.deletedFiles).toEqual([file]);
+		});
+	});
+});
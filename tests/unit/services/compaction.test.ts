@@ -0,0 +1,269 @@
+/**
+ * Unit tests for compaction strategies
+ */
+
+import {describe, it, expect} from 'vitest';
+import {
+	splitForCompaction,
+	chunkMessages,
+	pruneToolMessage,
+	getCompactionStrategy,
+	resolveCompactionModel,
+} from '../../../src/services/compaction.js';
+import {
+	compactConversation,
+	estimateCompaction,
+} from '../../../src/services/session.js';
+import type {
+	ChatCompletionRequest,
+	ChatProvider,
+	Message,
+	Session,
+} from '../../../src/types/index.js';
+import {COMPACTION_CONFIG, DEFAULT_PREFERENCES} from '../../../src/types/index.js';
+
+// The prune strategy never calls the API
+const unusedClient = {} as ChatProvider;
+
+let nextId = 0;
+
+function message(role: Message['role'], content: string): Message {
+	nextId++;
+	return {
+		id: `msg-${nextId}`,
+		role,
+		content,
+		timestamp: new Date().toISOString(),
+		...(role === 'assistant' ? {model: 'openai/gpt-4o'} : {}),
+		...(role === 'tool' ? {metadata: {toolCallId: `call-${nextId}`, toolName: 'bash'}} : {}),
+	};
+}
+
+/**
+ * Agent-style conversation: each turn is user, assistant tool call, tool result, assistant answer
+ */
+function agentConversation(turns: number, toolOutput: string): Message[] {
+	const messages: Message[] = [message('system', 'You are helpful')];
+	for (let turn = 0; turn < turns; turn++) {
+		messages.push(
+			message('user', `question ${turn}`),
+			message('assistant', ''),
+			message('tool', toolOutput),
+			message('assistant', `answer ${turn}`),
+		);
+	}
+
+	return messages;
+}
+
+function sessionWith(messages: Message[]): Session {
+	return {
+		id: 'session-1',
+		workingDirectory: '/tmp',
+		createdAt: new Date().toISOString(),
+		currentModel: 'openai/gpt-4o',
+		messages,
+		metadata: {isContinuation: false, totalMessages: messages.length, totalTokensEstimate: 0},
+	};
+}
+
+describe('Compaction', () => {
+	describe('splitForCompaction', () => {
+		it('should keep the system prompt and never split off tool results', () => {
+			const messages = agentConversation(6, 'output');
+			const config = {...COMPACTION_CONFIG, preserveRecentCount: 6};
+
+			const {systemMessage, olderMessages, recentMessages} = splitForCompaction(
+				messages,
+				config,
+			);
+
+			expect(systemMessage?.role).toBe('system');
+			expect(recentMessages[0].role).not.toBe('tool');
+			expect(recentMessages.length).toBeGreaterThanOrEqual(6);
+			expect(1 + olderMessages.length + recentMessages.length).toBe(messages.length);
+		});
+	});
+
+	describe('chunkMessages', () => {
+		it('should split by token budget without separating tool results', () => {
+			const messages = agentConversation(4, 'x'.repeat(400));
+
+			const chunks = chunkMessages(messages.slice(1), 150);
+
+			expect(chunks.length).toBeGreaterThan(1);
+			for (const chunk of chunks) {
+				expect(chunk[0].role).not.toBe('tool');
+			}
+
+			expect(chunks.flat()).toEqual(messages.slice(1));
+		});
+	});
+
+	describe('pruneToolMessage', () => {
+		it('should stub long tool output and keep the call reference', () => {
+			const tool = message('tool', 'line\n'.repeat(100));
+
+			const pruned = pruneToolMessage(tool, 200);
+
+			expect(pruned.id).toBe(tool.id);
+			expect(pruned.metadata).toEqual(tool.metadata);
+			expect(pruned.content).toBe(
+				'[bash output pruned during compaction: 101 lines, 500 characters]',
+			);
+			expect(pruneToolMessage(message('tool', 'short'), 200).content).toBe('short');
+		});
+	});
+
+	describe('strategies', () => {
+		it('should look up strategies by name', () => {
+			expect(getCompactionStrategy('Prune')?.name).toBe('prune');
+			expect(getCompactionStrategy('nope')).toBeNull();
+		});
+
+		it('should require a compaction model for the cheap strategy', () => {
+			expect(resolveCompactionModel('summary', 'a/b', DEFAULT_PREFERENCES)).toBe('a/b');
+			expect(() => resolveCompactionModel('cheap', 'a/b', DEFAULT_PREFERENCES)).toThrow(
+				'compactionModel',
+			);
+			expect(
+				resolveCompactionModel('cheap', 'a/b', {
+					...DEFAULT_PREFERENCES,
+					compactionModel: 'cheap/model',
+				}),
+			).toBe('cheap/model');
+		});
+
+		it('should prune older tool output without calling the API', async () => {
+			const messages = agentConversation(6, 'y'.repeat(2000));
+			const session = sessionWith(messages);
+
+			const result = await compactConversation(session, COMPACTION_CONFIG, unusedClient, {
+				strategy: 'prune',
+			});
+
+			expect(result.strategy).toBe('prune');
+			expect(result.messages).toHaveLength(messages.length);
+			expect(result.messages.map(m => m.id)).toEqual(messages.map(m => m.id));
+			expect(result.replacementMessages.map(m => m.id)).toEqual(result.replacedMessageIds);
+			const olderTool = result.messages.find(m => m.role === 'tool');
+			expect(olderTool?.content).toContain('pruned during compaction');
+			expect(result.messages.at(-2)?.content).toBe('y'.repeat(2000));
+			expect(result.reductionPercentage).toBeGreaterThan(0);
+
+			const estimate = estimateCompaction(session, COMPACTION_CONFIG, 'prune');
+			expect(estimate.compactedTokens).toBe(result.compactedTokenEstimate);
+		});
+
+		it('should keep pinned messages and the results of pinned tool calls', async () => {
+			const messages = agentConversation(6, 'y'.repeat(2000));
+			messages[1].metadata = {pinned: true};
+			messages[2].metadata = {
+				pinned: true,
+				toolCalls: [
+					{id: 'call-1', type: 'function', function: {name: 'bash', arguments: '{}'}},
+				],
+			};
+			const session = sessionWith(messages);
+
+			const {olderMessages, pinnedMessages} = splitForCompaction(messages, COMPACTION_CONFIG);
+			expect(pinnedMessages.map(m => m.id)).toEqual(
+				[messages[1], messages[2], messages[3]].map(m => m.id),
+			);
+			expect(olderMessages.map(m => m.id)).not.toContain(messages[3].id);
+
+			const result = await compactConversation(session, COMPACTION_CONFIG, unusedClient, {
+				strategy: 'prune',
+			});
+			expect(result.messages.slice(1, 4)).toEqual(messages.slice(1, 4));
+			expect(result.replacedMessageIds).not.toContain(messages[1].id);
+			expect(result.messages.map(m => m.id)).toEqual(messages.map(m => m.id));
+
+			const estimate = estimateCompaction(session, COMPACTION_CONFIG, 'prune');
+			expect(estimate.compactedTokens).toBe(result.compactedTokenEstimate);
+		});
+
+		it('should prune around a pinned message without reordering', async () => {
+			const messages = agentConversation(6, 'y'.repeat(2000));
+			messages[5].metadata = {pinned: true}; // Second question, between pruned turns
+			const session = sessionWith(messages);
+
+			const result = await compactConversation(session, COMPACTION_CONFIG, unusedClient, {
+				strategy: 'prune',
+			});
+
+			expect(result.messages.map(m => m.id)).toEqual(messages.map(m => m.id));
+			expect(result.messages[5]).toEqual(messages[5]);
+			expect(result.messages[3]?.content).toContain('pruned during compaction');
+		});
+
+		it('should cap summaries at the summary token limit', async () => {
+			const requests: ChatCompletionRequest[] = [];
+			const client = {
+				async createChatCompletion(request: ChatCompletionRequest) {
+					requests.push(request);
+					return {
+						id: 'summary',
+						model: 'openai/gpt-4o',
+						choices: [
+							{
+								index: 0,
+								message: {role: 'assistant', content: 'word '.repeat(1000)},
+								finish_reason: 'length',
+							},
+						],
+					};
+				},
+			} as unknown as ChatProvider;
+			const session = sessionWith(agentConversation(6, 'output'));
+
+			const result = await compactConversation(session, COMPACTION_CONFIG, client, {
+				strategy: 'summary',
+			});
+			expect(requests[0]?.max_tokens).toBe(COMPACTION_CONFIG.summaryTokenLimit);
+			expect(result.replacementMessages[0]?.metadata?.tokensEstimate).toBe(
+				COMPACTION_CONFIG.summaryTokenLimit,
+			);
+		});
+
+		it('should check the budget before summarizing and record the usage', async () => {
+			let requests = 0;
+			const client = {
+				async createChatCompletion() {
+					requests++;
+					return {
+						id: 'summary',
+						model: 'openai/gpt-4o',
+						choices: [
+							{
+								index: 0,
+								message: {role: 'assistant', content: 'Summary'},
+								finish_reason: 'stop',
+							},
+						],
+						usage: {prompt_tokens: 500, completion_tokens: 20, total_tokens: 520},
+					};
+				},
+			} as unknown as ChatProvider;
+			const session = sessionWith(agentConversation(6, 'output'));
+
+			const recorded: number[] = [];
+			await compactConversation(session, COMPACTION_CONFIG, client, {
+				strategy: 'summary',
+				confirmBudget: async () => true,
+				async recordUsage(usage) {
+					recorded.push(usage.prompt_tokens);
+				},
+			});
+			expect(recorded).toEqual([500]);
+
+			await expect(
+				compactConversation(session, COMPACTION_CONFIG, client, {
+					strategy: 'summary',
+					confirmBudget: async () => false,
+				}),
+			).rejects.toThrow('Stopped: spending budget used up');
+			expect(requests).toBe(1);
+		});
+	});
+});
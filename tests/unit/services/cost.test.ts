@@ -0,0 +1,214 @@
+/**
+ * Unit tests for usage and cost tracking
+ */
+
+import {describe, it, expect, beforeEach, afterEach} from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import {
+	addUsage,
+	checkBudget,
+	describeBudgetExceeded,
+	loadBudgetUsage,
+	loadDailyUsage,
+	recordUsage,
+	summarizeUsage,
+	summarizeUsageByDay,
+	toLocalDate,
+	toMessageUsage,
+} from '../../../src/services/cost.js';
+import {createSession} from '../../../src/services/session.js';
+import {getUsageLedgerPath} from '../../../src/utils/storage.js';
+import type {Message, MessageUsage, Model} from '../../../src/types/index.js';
+
+const MODEL: Model = {
+	id: 'openai/gpt-4o',
+	name: 'GPT-4o',
+	context_length: 128000,
+	pricing: {prompt: '0.0000025', completion: '0.00001'},
+};
+
+function answer(usage: MessageUsage, timestamp: string): Message {
+	return {
+		id: `msg-${Math.random()}`,
+		role: 'assistant',
+		content: 'answer',
+		timestamp,
+		model: MODEL.id,
+		metadata: {usage},
+	};
+}
+
+describe('cost tracking', () => {
+	it('should price usage with the model pricing, or use the reported cost', () => {
+		const usage = {prompt_tokens: 1000, completion_tokens: 200, total_tokens: 1200, cost: 9};
+
+		expect(toMessageUsage(usage, MODEL)).toMatchObject({
+			promptTokens: 1000,
+			completionTokens: 200,
+		});
+		expect(toMessageUsage(usage, MODEL).cost).toBeCloseTo(0.0045);
+		expect(toMessageUsage(usage).cost).toBe(9);
+		expect(toMessageUsage({...usage, cost: undefined})).toEqual({
+			promptTokens: 1000,
+			completionTokens: 200,
+		});
+	});
+
+	it('should add the usage of continued responses', () => {
+		const first = {promptTokens: 10, completionTokens: 5, cost: 0.5};
+
+		expect(addUsage(undefined, first)).toBe(first);
+		expect(addUsage(first, {promptTokens: 20, completionTokens: 5, cost: 0.25})).toEqual({
+			promptTokens: 30,
+			completionTokens: 10,
+			cost: 0.75,
+		});
+	});
+
+	it('should total usage per session and per day, including alternates', () => {
+		const discarded = answer({promptTokens: 1, completionTokens: 1, cost: 1}, '2024-05-01T12:00:00');
+		const user: Message = {
+			id: 'user-1',
+			role: 'user',
+			content: 'question',
+			timestamp: '2024-05-01T11:00:00',
+			metadata: {alternates: [{messages: [discarded], discardedAt: '2024-05-01T12:30:00'}]},
+		};
+		const messages = [
+			user,
+			answer({promptTokens: 100, completionTokens: 10, cost: 2}, '2024-05-01T13:00:00'),
+			answer({promptTokens: 50, completionTokens: 5}, '2024-05-02T09:00:00'),
+		];
+
+		expect(summarizeUsage(messages)).toEqual({
+			promptTokens: 151,
+			completionTokens: 16,
+			cost: 3,
+			responses: 3,
+		});
+		expect(summarizeUsageByDay(messages)).toEqual([
+			{date: '2024-05-02', promptTokens: 50, completionTokens: 5, cost: 0, responses: 1},
+			{date: '2024-05-01', promptTokens: 101, completionTokens: 11, cost: 3, responses: 2},
+		]);
+	});
+
+	it('should report the first budget reached and honor extensions', () => {
+		const totals = (cost: number, tokens: number) => ({
+			promptTokens: tokens,
+			completionTokens: 0,
+			cost,
+			responses: 1,
+		});
+		const budget = {request: {tokens: 10_000}, session: {dollars: 2}, day: {dollars: 10}};
+
+		expect(
+			checkBudget(budget, {
+				request: totals(0.5, 5000),
+				session: totals(1.5, 5000),
+				day: totals(5, 5000),
+			}),
+		).toBeNull();
+
+		const spent = {
+			request: totals(0.5, 5000),
+			session: totals(2.5, 5000),
+			day: totals(12, 5000),
+		};
+		const exceeded = checkBudget(budget, spent);
+		expect(exceeded).toEqual({scope: 'session', unit: 'dollars', limit: 2, used: 2.5, step: 2});
+		expect(describeBudgetExceeded(exceeded!)).toBe('Session budget reached: $2.50 of $2.00');
+
+		expect(checkBudget(budget, spent, {session: 1})?.scope).toBe('day');
+		expect(checkBudget(budget, spent, {session: 1, day: 1})).toBeNull();
+		expect(checkBudget(undefined, spent)).toBeNull();
+	});
+});
+
+describe('usage ledger', () => {
+	let testDir: string;
+	const originalXdgConfigHome = process.env.XDG_CONFIG_HOME;
+
+	beforeEach(async () => {
+		testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'cost-test-'));
+		process.env.XDG_CONFIG_HOME = path.join(testDir, 'config');
+	});
+
+	afterEach(async () => {
+		if (originalXdgConfigHome === undefined) {
+			delete process.env.XDG_CONFIG_HOME;
+		} else {
+			process.env.XDG_CONFIG_HOME = originalXdgConfigHome;
+		}
+
+		await fs.rm(testDir, {recursive: true, force: true});
+	});
+
+	it('should total recorded usage per request, session and day', async () => {
+		const session = createSession(testDir, MODEL.id);
+		const other = createSession(path.join(testDir, 'other'), MODEL.id);
+		const now = Date.parse('2026-03-02T12:00:00');
+		const usage = {promptTokens: 1000, completionTokens: 100, cost: 0.5};
+
+		await recordUsage(session, usage, MODEL.id, Date.parse('2026-03-01T12:00:00'));
+		await recordUsage(other, usage, MODEL.id, now - 60_000);
+		await recordUsage(session, usage, MODEL.id, now - 60_000);
+		await recordUsage(session, usage, MODEL.id, now);
+
+		const spent = await loadBudgetUsage(session.id, new Date(now - 1000).toISOString(), now);
+		expect(spent.request).toMatchObject({cost: 0.5, responses: 1});
+		expect(spent.session).toMatchObject({cost: 1.5, promptTokens: 3000, responses: 3});
+		expect(spent.day).toMatchObject({cost: 1.5, responses: 3});
+	});
+
+	it('should total every session per day for /cost', async () => {
+		const session = createSession(testDir, MODEL.id);
+		const other = createSession(path.join(testDir, 'other'), MODEL.id);
+		const usage = {promptTokens: 1000, completionTokens: 100, cost: 0.5};
+
+		await recordUsage(session, usage, MODEL.id, Date.parse('2026-03-01T12:00:00'));
+		await recordUsage(other, usage, MODEL.id, Date.parse('2026-03-02T09:00:00'));
+		await recordUsage(session, usage, MODEL.id, Date.parse('2026-03-02T12:00:00'));
+
+		const days = await loadDailyUsage();
+		expect(days.map(day => day.date)).toEqual(['2026-03-02', '2026-03-01']);
+		expect(days[0]).toMatchObject({cost: 1, responses: 2});
+		expect(days[0]?.cost).toBe(
+			(await loadBudgetUsage(session.id, undefined, Date.parse('2026-03-02T18:00:00'))).day.cost,
+		);
+	});
+
+	it('should only parse what was appended since the last check', async () => {
+		const session = createSession(testDir, MODEL.id);
+		const usage = {promptTokens: 10, completionTokens: 5, cost: 1};
+		await recordUsage(session, usage);
+		expect((await loadBudgetUsage(session.id)).session.cost).toBe(1);
+
+		// A line still being written is left for the next check
+		const line = JSON.stringify({
+			timestamp: new Date().toISOString(),
+			date: toLocalDate(Date.now()),
+			sessionId: session.id,
+			workingDirectory: testDir,
+			...usage,
+		});
+		await fs.appendFile(getUsageLedgerPath(), line.slice(0, 20));
+		expect((await loadBudgetUsage(session.id)).session.cost).toBe(1);
+		await fs.appendFile(getUsageLedgerPath(), `${line.slice(20)}\n`);
+		expect((await loadBudgetUsage(session.id)).session.cost).toBe(2);
+
+		// A replaced ledger is read again from the start
+		await fs.writeFile(getUsageLedgerPath(), `${line}\n`);
+		expect((await loadBudgetUsage(session.id)).session).toMatchObject({cost: 1, responses: 1});
+	});
+
+	it('should not depend on the session history', async () => {
+		const session = createSession(testDir, MODEL.id);
+		await recordUsage(session, {promptTokens: 10, completionTokens: 5, cost: 1});
+
+		// Nothing of the session is stored in its directory
+		expect((await loadBudgetUsage(session.id)).session.cost).toBe(1);
+		expect((await loadBudgetUsage(session.id)).request.responses).toBe(0);
+	});
+});
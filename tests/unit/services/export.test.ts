@@ -0,0 +1,134 @@
+/**
+ * Unit tests for session export
+ */
+
+import {describe, it, expect, beforeEach, afterEach} from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import {
+	parseExportFormat,
+	renderMarkdown,
+	renderHtml,
+	renderSession,
+	exportSession,
+} from '../../../src/services/export.js';
+import type {Session, SessionExport} from '../../../src/types/index.js';
+
+function buildSession(workingDirectory: string): Session {
+	return {
+		id: '6f1c2a3b-0000-4000-8000-000000000001',
+		workingDirectory,
+		createdAt: '2026-01-01T10:00:00.000Z',
+		currentModel: 'openai/gpt-4o',
+		messages: [
+			{
+				id: 'm1',
+				role: 'user',
+				content: 'List the files',
+				timestamp: '2026-01-01T10:00:00.000Z',
+				metadata: {tokensEstimate: 4},
+			},
+			{
+				id: 'm2',
+				role: 'assistant',
+				content: '',
+				timestamp: '2026-01-01T10:00:01.000Z',
+				model: 'openai/gpt-4o',
+				metadata: {
+					tokensUsed: 42,
+					toolCalls: [
+						{
+							id: 'call_1',
+							type: 'function',
+							function: {name: 'bash', arguments: '{"command":"ls"}'},
+						},
+					],
+				},
+			},
+			{
+				id: 'm3',
+				role: 'tool',
+				content: 'README.md\n<script>alert(1)</script>',
+				timestamp: 1767261602000,
+				metadata: {toolCallId: 'call_1', toolName: 'bash'},
+			},
+		],
+		metadata: {isContinuation: false, totalMessages: 3, totalTokensEstimate: 0},
+	};
+}
+
+describe('export service', () => {
+	let testDir: string;
+
+	beforeEach(async () => {
+		testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'export-test-'));
+	});
+
+	afterEach(async () => {
+		await fs.rm(testDir, {recursive: true, force: true});
+	});
+
+	describe('parseExportFormat', () => {
+		it('should accept format names and aliases', () => {
+			expect(parseExportFormat('markdown')).toBe('md');
+			expect(parseExportFormat('HTML')).toBe('html');
+			expect(parseExportFormat('json')).toBe('json');
+			expect(parseExportFormat('pdf')).toBeNull();
+		});
+	});
+
+	describe('renderMarkdown', () => {
+		it('should include tool calls, tool results, models and token counts', () => {
+			const markdown = renderMarkdown(buildSession(testDir));
+
+			expect(markdown).toContain('# List the files');
+			expect(markdown).toContain('Assistant (openai/gpt-4o)');
+			expect(markdown).toContain('42 tokens');
+			expect(markdown).toContain('~4 tokens (est.)');
+			expect(markdown).toContain('**Tool call:** `bash` (`call_1`)');
+			expect(markdown).toContain('"command": "ls"');
+			expect(markdown).toContain('Tool result: bash');
+			expect(markdown).toContain('2026-01-01T10:00:02.000Z');
+		});
+
+		it('should use a longer fence when content contains backticks', () => {
+			const session = buildSession(testDir);
+			session.messages[2]!.content = '```js\ncode\n```';
+
+			expect(renderMarkdown(session)).toContain('````\n```js');
+		});
+	});
+
+	describe('renderHtml', () => {
+		it('should produce a standalone document with escaped content', () => {
+			const html = renderHtml(buildSession(testDir));
+
+			expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+			expect(html).toContain('<style>');
+			expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+			expect(html).not.toContain('<script>alert(1)</script>');
+		});
+	});
+
+	describe('JSON export', () => {
+		it('should preserve messages verbatim', () => {
+			const session = buildSession(testDir);
+			const exported = JSON.parse(renderSession(session, 'json')) as SessionExport;
+
+			expect(exported.format).toBe('yolo-session');
+			expect(exported.session.id).toBe(session.id);
+			expect(exported.session.messages).toEqual(session.messages);
+		});
+	});
+
+	describe('exportSession', () => {
+		it('should write to the default path in the working directory', async () => {
+			const writtenPath = await exportSession(buildSession(testDir), 'md');
+
+			expect(writtenPath).toBe(path.join(testDir, 'yolo-session-6f1c2a3b.md'));
+			const content = await fs.readFile(writtenPath, 'utf-8');
+			expect(content).toContain('# List the files');
+		});
+	});
+});
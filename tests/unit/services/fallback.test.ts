@@ -0,0 +1,153 @@
+/**
+ * Unit tests for fallback model chains
+ */
+
+import {describe, it, expect, beforeEach, afterEach} from 'vitest';
+import * as http from 'node:http';
+import type {AddressInfo} from 'node:net';
+import {
+	classifyModelFailure,
+	getFallbackChain,
+	groupFallbackChain,
+	streamWithFallback,
+} from '../../../src/services/fallback.js';
+import type {ChatCompletionChunk, Configuration} from '../../../src/types/index.js';
+import {DEFAULT_PREFERENCES} from '../../../src/types/index.js';
+
+function testConfig(baseUrl: string): Configuration {
+	return {
+		version: '1.0.0',
+		apiKey: 'sk-or-v1-abc123',
+		providers: [
+			{name: 'openrouter', type: 'openrouter', baseUrl},
+			{name: 'local', type: 'openai-compatible', baseUrl},
+		],
+		models: [
+			{
+				id: 'a/primary',
+				name: 'Primary',
+				enabled: true,
+				fallbacks: ['b/backup', 'llama3.1:8b', 'a/primary'],
+			},
+			{id: 'llama3.1:8b', name: 'Llama 3.1 8B', enabled: true, provider: 'local'},
+		],
+		preferences: {...DEFAULT_PREFERENCES, fallbackModels: ['c/global']},
+	};
+}
+
+function httpError(status: number, message = 'failed'): Error {
+	return Object.assign(new Error(message), {status});
+}
+
+describe('fallback model chains', () => {
+	let server: http.Server;
+	let baseUrl: string;
+	let requested: Array<{model: string; models?: string[]}>;
+
+	beforeEach(async () => {
+		requested = [];
+		server = http.createServer((req, res) => {
+			let body = '';
+			req.on('data', chunk => {
+				body += chunk;
+			});
+			req.on('end', () => {
+				const request = JSON.parse(body) as {model: string; models?: string[]};
+				requested.push({model: request.model, models: request.models});
+
+				if (request.model === 'a/primary' && !request.models) {
+					// Too long to wait for, so the fallback takes over without retrying
+					res.statusCode = 429;
+					res.setHeader('Retry-After', '3600');
+					res.setHeader('Content-Type', 'application/json');
+					res.end(JSON.stringify({error: {message: 'Rate limit exceeded', code: '429'}}));
+					return;
+				}
+
+				// OpenRouter routing answers with the second model of the array
+				const chunk: Partial<ChatCompletionChunk> = {
+					model: request.models?.[1] ?? request.model,
+					choices: [{index: 0, delta: {content: 'Hi'}, finish_reason: 'stop'}],
+				};
+				res.setHeader('Content-Type', 'text/event-stream');
+				res.end(`data: ${JSON.stringify(chunk)}\n\ndata: [DONE]\n\n`);
+			});
+		});
+		await new Promise<void>(resolve => {
+			server.listen(0, '127.0.0.1', resolve);
+		});
+		baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+	});
+
+	afterEach(async () => {
+		await new Promise(resolve => {
+			server.close(resolve);
+		});
+	});
+
+	it('should build chains from model or global fallbacks', () => {
+		const config = testConfig(baseUrl);
+
+		expect(getFallbackChain(config, 'a/primary')).toEqual([
+			'a/primary',
+			'b/backup',
+			'llama3.1:8b',
+		]);
+		expect(getFallbackChain(config, 'llama3.1:8b')).toEqual(['llama3.1:8b', 'c/global']);
+		expect(
+			groupFallbackChain(
+				{...config, preferences: {...config.preferences, fallbackRouting: 'openrouter'}},
+				getFallbackChain(config, 'a/primary'),
+			),
+		).toEqual([['a/primary', 'b/backup'], ['llama3.1:8b']]);
+	});
+
+	it('should classify failures worth another model', () => {
+		expect(classifyModelFailure(httpError(429))).toBe('rate-limit');
+		expect(classifyModelFailure(httpError(502))).toBe('server-error');
+		expect(
+			classifyModelFailure(
+				httpError(400, "This model's maximum context length is 8192 tokens"),
+			),
+		).toBe('context-length');
+		expect(classifyModelFailure(httpError(401, 'Invalid API key'))).toBeNull();
+	});
+
+	it('should retry on the next model and report which one answered', async () => {
+		const fallbacks: string[] = [];
+		const chunks: ChatCompletionChunk[] = [];
+		for await (const chunk of streamWithFallback(
+			testConfig(baseUrl),
+			{model: 'a/primary', messages: [{role: 'user', content: 'Hello'}]},
+			(model, notice) => {
+				fallbacks.push(model);
+				expect(notice).toContain('rate limited');
+			},
+		)) {
+			chunks.push(chunk);
+		}
+
+		expect(fallbacks).toEqual(['b/backup']);
+		expect(requested.map(r => r.model)).toEqual(['a/primary', 'b/backup']);
+		expect(chunks[0]?.model).toBe('b/backup');
+	});
+
+	it('should send OpenRouter models together with OpenRouter routing', async () => {
+		const config = testConfig(baseUrl);
+		config.preferences.fallbackRouting = 'openrouter';
+
+		const fallbacks: string[] = [];
+		for await (const chunk of streamWithFallback(
+			config,
+			{model: 'a/primary', messages: [{role: 'user', content: 'Hello'}]},
+			model => {
+				fallbacks.push(model);
+			},
+		)) {
+			expect(chunk.model).toBe('b/backup');
+		}
+
+		expect(requested).toEqual([{model: 'a/primary', models: ['a/primary', 'b/backup']}]);
+		expect(fallbacks).toEqual(['b/backup']);
+	});
+});
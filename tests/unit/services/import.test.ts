@@ -0,0 +1,216 @@
+/**
+ * Unit tests for conversation import
+ */
+
+import {describe, it, expect, beforeEach, afterEach} from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import {
+	parseImportContent,
+	prepareImport,
+	importConversation,
+} from '../../../src/services/import.js';
+import {renderSession} from '../../../src/services/export.js';
+import {loadSessionById} from '../../../src/services/session.js';
+import {loadSessionMetadata} from '../../../src/utils/storage.js';
+import type {Session} from '../../../src/types/index.js';
+
+describe('Import Service', () => {
+	let testDir: string;
+	let originalConfigHome: string | undefined;
+
+	beforeEach(async () => {
+		testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'yolo-import-test-'));
+		originalConfigHome = process.env.XDG_CONFIG_HOME;
+		process.env.XDG_CONFIG_HOME = path.join(testDir, 'config');
+	});
+
+	afterEach(async () => {
+		if (originalConfigHome === undefined) {
+			delete process.env.XDG_CONFIG_HOME;
+		} else {
+			process.env.XDG_CONFIG_HOME = originalConfigHome;
+		}
+
+		await fs.rm(testDir, {recursive: true, force: true});
+	});
+
+	async function writeImportFile(data: unknown): Promise<string> {
+		const filePath = path.join(testDir, 'import.json');
+		await fs.writeFile(
+			filePath,
+			typeof data === 'string' ? data : JSON.stringify(data),
+			'utf-8',
+		);
+		return filePath;
+	}
+
+	describe('parseImportContent', () => {
+		it('should detect the supported formats', () => {
+			expect(parseImportContent('[]').source).toBe('openai');
+			expect(
+				parseImportContent('{"model":"openai/gpt-4o","messages":[]}'),
+			).toMatchObject({source: 'openai', model: 'openai/gpt-4o'});
+			expect(
+				parseImportContent(
+					'{"format":"yolo-session","session":{"currentModel":"m","messages":[]}}',
+				).source,
+			).toBe('yolo-export');
+		});
+
+		it('should reject unknown content', () => {
+			expect(() => parseImportContent('not json')).toThrow('not valid JSON');
+			expect(() => parseImportContent('{"foo":1}')).toThrow('Unrecognized');
+		});
+	});
+
+	describe('prepareImport', () => {
+		it('should map OpenAI fields and report repairs', () => {
+			const {messages, report, canImport} = prepareImport({
+				source: 'openai',
+				model: 'openai/gpt-4o',
+				rawMessages: [
+					{role: 'developer', content: 'Be brief'},
+					{role: 'user', content: [{type: 'text', text: 'List files'}]},
+					{
+						role: 'assistant',
+						content: null,
+						tool_calls: [
+							{id: 'call_1', type: 'function', function: {name: 'bash', arguments: '{}'}},
+						],
+					},
+					{role: 'tool', tool_call_id: 'call_1', content: 'README.md'},
+					{role: 'assistant', content: 'One file.'},
+					{role: 'assistant', content: 'Anything else?'},
+				],
+			});
+
+			expect(canImport).toBe(true);
+			expect(report.errors).toEqual([]);
+			expect(messages.map(m => m.role)).toEqual([
+				'system',
+				'user',
+				'assistant',
+				'tool',
+				'assistant',
+			]);
+			expect(messages[1].content).toBe('List files');
+			expect(messages[2].metadata?.toolCalls?.[0].id).toBe('call_1');
+			expect(messages[3].metadata).toEqual({toolCallId: 'call_1', toolName: 'bash'});
+			expect(messages[4].content).toBe('One file.\n\nAnything else?');
+			expect(messages[4].model).toBe('openai/gpt-4o');
+			expect(report.repairs).toContain('mapped developer role to system (1 message)');
+			expect(report.repairs).toContain('merged consecutive same-role messages (1 message)');
+		});
+
+		it('should clamp out-of-order timestamps', () => {
+			const {messages, report} = prepareImport({
+				source: 'openai',
+				rawMessages: [
+					{role: 'user', content: 'a', timestamp: '2026-01-01T10:00:05.000Z'},
+					{role: 'assistant', content: 'b', timestamp: '2026-01-01T10:00:00.000Z'},
+				],
+			});
+
+			expect(messages[1].timestamp).toBe('2026-01-01T10:00:05.000Z');
+			expect(report.repairs.some(r => r.startsWith('reordered'))).toBe(true);
+		});
+
+		it('should report unrepairable messages instead of dropping them', () => {
+			const raw = {
+				source: 'openai' as const,
+				rawMessages: [
+					{role: 'user', content: 'hi'},
+					{role: 'function', content: 'legacy'},
+					{role: 'assistant', content: 'hello'},
+				],
+			};
+
+			const strict = prepareImport(raw);
+			expect(strict.canImport).toBe(false);
+			expect(strict.report.errors).toEqual(['message 2: unsupported role "function"']);
+
+			const lenient = prepareImport(raw, {skipInvalid: true});
+			expect(lenient.canImport).toBe(true);
+			expect(lenient.report.skippedCount).toBe(1);
+			expect(lenient.messages).toHaveLength(2);
+		});
+
+		it('should block conversations that cannot be made to alternate', () => {
+			const {canImport, report} = prepareImport({
+				source: 'openai',
+				rawMessages: [{role: 'assistant', content: 'I start'}],
+			});
+
+			expect(canImport).toBe(false);
+			expect(report.errors[0]).toContain('must start with a user message');
+		});
+	});
+
+	describe('importConversation', () => {
+		it('should round-trip a yolo JSON export losslessly', async () => {
+			const original: Session = {
+				id: '6f1c2a3b-0000-4000-8000-000000000001',
+				workingDirectory: '/elsewhere',
+				createdAt: '2026-01-01T10:00:00.000Z',
+				currentModel: 'openai/gpt-4o',
+				messages: [
+					{
+						id: 'm1',
+						role: 'user',
+						content: 'List the files',
+						timestamp: '2026-01-01T10:00:00.000Z',
+						metadata: {tokensEstimate: 4},
+					},
+					{
+						id: 'm2',
+						role: 'assistant',
+						content: '',
+						timestamp: '2026-01-01T10:00:01.000Z',
+						model: 'openai/gpt-4o',
+						metadata: {
+							toolCalls: [
+								{id: 'call_1', type: 'function', function: {name: 'bash', arguments: '{}'}},
+							],
+						},
+					},
+					{
+						id: 'm3',
+						role: 'tool',
+						content: 'README.md',
+						timestamp: 1767261602000,
+						metadata: {toolCallId: 'call_1', toolName: 'bash'},
+					},
+				],
+				metadata: {isContinuation: false, totalMessages: 3, totalTokensEstimate: 0},
+			};
+
+			const filePath = await writeImportFile(renderSession(original, 'json'));
+			const {session, report} = await importConversation(testDir, filePath);
+
+			expect(report).toMatchObject({source: 'yolo-export', importedCount: 3, repairs: [], errors: []});
+			expect(session).not.toBeNull();
+
+			const loaded = await loadSessionById(testDir, session!.id);
+			expect(loaded?.messages).toEqual(original.messages);
+
+			const metadata = await loadSessionMetadata(testDir);
+			expect(metadata?.currentSessionId).toBe(session!.id);
+			expect(metadata?.sessions[0]).toMatchObject({
+				title: 'List the files',
+				model: 'openai/gpt-4o',
+				messageCount: 3,
+			});
+		});
+
+		it('should not create a session when the import is blocked', async () => {
+			const filePath = await writeImportFile([{role: 'user', content: 42}]);
+			const {session, report} = await importConversation(testDir, filePath);
+
+			expect(session).toBeNull();
+			expect(report.errors).toContain('message 1: content is not text');
+			expect(await loadSessionMetadata(testDir)).toBeNull();
+		});
+	});
+});
@@ -0,0 +1,125 @@
+/**
+ * Unit tests for streaming retries and dropped connections
+ */
+
+import {describe, it, expect, beforeEach, afterEach} from 'vitest';
+import * as http from 'node:http';
+import type {AddressInfo} from 'node:net';
+import {
+	OpenAICompatibleClient,
+	isStreamDropped,
+	parseRetryAfter,
+} from '../../../src/services/openai-compatible.js';
+import type {ChatCompletionChunk} from '../../../src/types/index.js';
+
+function sse(content: string, finishReason: ChatCompletionChunk['choices'][0]['finish_reason']) {
+	const chunk = {choices: [{index: 0, delta: {content}, finish_reason: finishReason}]};
+	return `data: ${JSON.stringify(chunk)}\n\n`;
+}
+
+describe('resilient streaming', () => {
+	let server: http.Server;
+	let client: OpenAICompatibleClient;
+	let handle: (requestCount: number, res: http.ServerResponse) => void;
+	let requestCount: number;
+
+	beforeEach(async () => {
+		requestCount = 0;
+		server = http.createServer((req, res) => {
+			req.resume();
+			req.on('end', () => {
+				requestCount++;
+				handle(requestCount, res);
+			});
+		});
+		await new Promise<void>(resolve => {
+			server.listen(0, '127.0.0.1', resolve);
+		});
+		client = new OpenAICompatibleClient({
+			baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`,
+		});
+	});
+
+	afterEach(async () => {
+		server.closeAllConnections();
+		await new Promise(resolve => {
+			server.close(resolve);
+		});
+	});
+
+	async function collect(): Promise<{content: string; error?: unknown}> {
+		let content = '';
+		try {
+			for await (const chunk of client.streamChatCompletion({
+				model: 'llama3.1:8b',
+				messages: [{role: 'user', content: 'Hi'}],
+			})) {
+				content += chunk.choices[0]?.delta.content ?? '';
+			}
+		} catch (error) {
+			return {content, error};
+		}
+
+		return {content};
+	}
+
+	it('should retry a rate-limited connect after Retry-After', async () => {
+		handle = (count, res) => {
+			if (count === 1) {
+				res.writeHead(429, {'Retry-After': '0'});
+				res.end();
+				return;
+			}
+
+			res.setHeader('Content-Type', 'text/event-stream');
+			res.end(sse('Hello', 'stop') + 'data: [DONE]\n\n');
+		};
+
+		expect(await collect()).toEqual({content: 'Hello'});
+		expect(requestCount).toBe(2);
+	});
+
+	it('should stop waiting for Retry-After when cancelled', async () => {
+		handle = (_count, res) => {
+			res.writeHead(429, {'Retry-After': '30'});
+			res.end();
+		};
+
+		const controller = new AbortController();
+		const started = Date.now();
+		setTimeout(() => {
+			controller.abort();
+		}, 50);
+		const stream = client.streamChatCompletion(
+			{model: 'llama3.1:8b', messages: [{role: 'user', content: 'Hi'}]},
+			controller.signal,
+		);
+
+		await expect(stream.next()).rejects.toMatchObject({name: 'AbortError'});
+		expect(Date.now() - started).toBeLessThan(2000);
+		expect(requestCount).toBe(1);
+	});
+
+	it('should report a connection that drops mid-stream, keeping what arrived', async () => {
+		handle = (_count, res) => {
+			res.setHeader('Content-Type', 'text/event-stream');
+			res.write(sse('Hel', null), () => {
+				res.destroy();
+			});
+		};
+
+		const {content, error} = await collect();
+		expect(content).toBe('Hel');
+		expect(isStreamDropped(error)).toBe(true);
+		expect(requestCount).toBe(1);
+	});
+
+	it('should parse Retry-After seconds and dates', () => {
+		const now = Date.parse('2024-01-01T00:00:00Z');
+
+		expect(parseRetryAfter('2', now)).toBe(2000);
+		expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:30 GMT', now)).toBe(30000);
+		expect(parseRetryAfter('soon', now)).toBeNull();
+		expect(parseRetryAfter(null, now)).toBeNull();
+	});
+});
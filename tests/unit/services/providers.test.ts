@@ -0,0 +1,163 @@
+/**
+ * Unit tests for chat providers and the OpenAI-compatible client
+ */
+
+import {describe, it, expect, beforeEach, afterEach} from 'vitest';
+import * as http from 'node:http';
+import type {AddressInfo} from 'node:net';
+import {
+	createModelClient,
+	getModelProviderName,
+	listProviderModels,
+} from '../../../src/services/providers.js';
+import type {
+	ChatCompletionChunk,
+	Configuration,
+	ProviderConfig,
+} from '../../../src/types/index.js';
+import {DEFAULT_PREFERENCES} from '../../../src/types/index.js';
+
+interface ReceivedRequest {
+	url: string;
+	headers: http.IncomingHttpHeaders;
+	body: string;
+}
+
+const OPENROUTER_MODEL = {
+	id: 'openai/gpt-4o',
+	name: 'GPT-4o',
+	context_length: 128000,
+	pricing: {prompt: '0.0000025', completion: '0.00001'},
+};
+
+function testConfig(providers: ProviderConfig[]): Configuration {
+	return {
+		version: '1.0.0',
+		apiKey: 'sk-or-v1-abc123',
+		providers,
+		models: [
+			{id: 'openai/gpt-4o', name: 'GPT-4o', enabled: true},
+			{id: 'llama3.1:8b', name: 'Llama 3.1 8B', enabled: true, provider: 'local'},
+		],
+		preferences: {...DEFAULT_PREFERENCES},
+	};
+}
+
+describe('chat providers', () => {
+	let server: http.Server;
+	let baseUrl: string;
+	let received: ReceivedRequest[];
+
+	beforeEach(async () => {
+		received = [];
+		server = http.createServer((req, res) => {
+			let body = '';
+			req.on('data', chunk => {
+				body += chunk;
+			});
+			req.on('end', () => {
+				received.push({url: req.url ?? '', headers: req.headers, body});
+
+				if (req.url === '/v1/models') {
+					res.setHeader('Content-Type', 'application/json');
+					res.end(JSON.stringify({data: [OPENROUTER_MODEL]}));
+					return;
+				}
+
+				if (req.url === '/v1/api/tags') {
+					res.setHeader('Content-Type', 'application/json');
+					res.end(
+						JSON.stringify({
+							data: [{id: 'llama3.1:8b', max_model_len: 8192}, {id: 'openai/gpt-4o'}],
+						}),
+					);
+					return;
+				}
+
+				const chunks: Array<Partial<ChatCompletionChunk>> = [
+					{choices: [{index: 0, delta: {content: 'Hel'}, finish_reason: null}]},
+					{choices: [{index: 0, delta: {content: 'lo'}, finish_reason: 'stop'}]},
+					{
+						choices: [],
+						usage: {prompt_tokens: 5, completion_tokens: 2, total_tokens: 7},
+					},
+				];
+				res.setHeader('Content-Type', 'text/event-stream');
+				res.end(
+					chunks.map(c => `data: ${JSON.stringify(c)}\n\n`).join('') + 'data: [DONE]\n\n',
+				);
+			});
+		});
+		await new Promise<void>(resolve => {
+			server.listen(0, '127.0.0.1', resolve);
+		});
+		baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+	});
+
+	afterEach(async () => {
+		await new Promise(resolve => {
+			server.close(resolve);
+		});
+	});
+
+	it('should stream from the provider a model points at', async () => {
+		const config = testConfig([
+			{
+				name: 'local',
+				type: 'openai-compatible',
+				baseUrl: `${baseUrl}/`,
+				apiKey: 'local-key',
+				authHeader: 'X-Api-Key',
+			},
+		]);
+
+		expect(getModelProviderName(config, 'llama3.1:8b')).toBe('local');
+		expect(getModelProviderName(config, 'openai/gpt-4o')).toBe('openrouter');
+
+		const client = createModelClient(config, 'llama3.1:8b');
+		const chunks: ChatCompletionChunk[] = [];
+		for await (const chunk of client.streamChatCompletion({
+			model: 'llama3.1:8b',
+			messages: [{role: 'user', content: 'Hi'}],
+		})) {
+			chunks.push(chunk);
+		}
+
+		expect(chunks.map(c => c.choices[0]?.delta.content ?? '').join('')).toBe('Hello');
+		expect(chunks.at(-1)?.usage?.total_tokens).toBe(7);
+		expect(received[0]?.url).toBe('/v1/chat/completions');
+		expect(received[0]?.headers['x-api-key']).toBe('local-key');
+		expect(received[0]?.headers.authorization).toBeUndefined();
+		expect(JSON.parse(received[0]?.body ?? '{}')).toMatchObject({
+			stream: true,
+			stream_options: {include_usage: true},
+		});
+	});
+
+	it('should reject models whose provider is not configured', () => {
+		expect(() => createModelClient(testConfig([]), 'llama3.1:8b')).toThrow(
+			'Unknown provider local for model llama3.1:8b',
+		);
+	});
+
+	it('should list the models of every provider, tagged with their provider', async () => {
+		// A provider named openrouter replaces the built-in one
+		const config = testConfig([
+			{name: 'openrouter', type: 'openrouter', baseUrl},
+			{name: 'local', type: 'openai-compatible', baseUrl, modelsPath: 'api/tags'},
+		]);
+
+		const models = await listProviderModels(config);
+
+		expect(models.map(m => [m.id, m.provider])).toEqual([
+			['openai/gpt-4o', undefined],
+			['llama3.1:8b', 'local'],
+		]);
+		expect(models[1]).toMatchObject({
+			name: 'llama3.1:8b',
+			context_length: 8192,
+			pricing: {prompt: '0', completion: '0'},
+		});
+		expect(received.map(r => r.url)).toEqual(['/v1/models', '/v1/api/tags']);
+	});
+});
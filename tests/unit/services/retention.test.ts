@@ -0,0 +1,183 @@
+/**
+ * Unit tests for session retention
+ */
+
+import {describe, it, expect, beforeEach, afterEach} from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import {createNewSession, saveMessage} from '../../../src/services/session.js';
+import {recordFileCheckpoint} from '../../../src/services/checkpoints.js';
+import {
+	pruneSessions,
+	selectExpiredSessions,
+} from '../../../src/services/retention.js';
+import {
+	fileExists,
+	getCheckpointPath,
+	getHistoryPath,
+	loadSessionMetadata,
+	readHistory,
+	saveSessionMetadata,
+} from '../../../src/utils/storage.js';
+import type {Message, SessionInfo} from '../../../src/types/index.js';
+
+function message(role: 'user' | 'assistant', content: string): Message {
+	return {
+		id: `msg-${Math.random()}`,
+		role,
+		content,
+		timestamp: new Date().toISOString(),
+		...(role === 'assistant' ? {model: 'openai/gpt-4o'} : {}),
+	};
+}
+
+function sessionInfo(id: string, daysAgo: number): SessionInfo {
+	const lastActivity = new Date(Date.now() - daysAgo * 86400000).toISOString();
+	return {
+		id,
+		createdAt: lastActivity,
+		lastActivity,
+		messageCount: 0,
+		model: 'openai/gpt-4o',
+		historyFile: `history-${id}.jsonl`,
+	};
+}
+
+describe('retention service', () => {
+	let testDir: string;
+	const originalXdgConfigHome = process.env.XDG_CONFIG_HOME;
+
+	beforeEach(async () => {
+		testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'retention-test-'));
+		process.env.XDG_CONFIG_HOME = path.join(testDir, 'config');
+	});
+
+	afterEach(async () => {
+		if (originalXdgConfigHome === undefined) {
+			delete process.env.XDG_CONFIG_HOME;
+		} else {
+			process.env.XDG_CONFIG_HOME = originalXdgConfigHome;
+		}
+
+		await fs.rm(testDir, {recursive: true, force: true});
+	});
+
+	describe('selectExpiredSessions', () => {
+		it('should expire sessions by age and beyond the maximum count', () => {
+			const sessions = [
+				sessionInfo('a', 1),
+				sessionInfo('b', 2),
+				sessionInfo('c', 3),
+				sessionInfo('d', 40),
+			];
+
+			const expired = selectExpiredSessions(
+				sessions,
+				{historyLimit: 100, maxAgeDays: 30, maxSessions: 2},
+				new Set(),
+			);
+
+			expect(expired).toEqual([
+				{id: 'c', title: undefined, reason: 'count'},
+				{id: 'd', title: undefined, reason: 'age'},
+			]);
+		});
+
+		it('should never expire protected sessions', () => {
+			const expired = selectExpiredSessions(
+				[sessionInfo('old', 100)],
+				{historyLimit: 100, maxAgeDays: 1, maxSessions: 0},
+				new Set(['old']),
+			);
+
+			expect(expired).toEqual([]);
+		});
+	});
+
+	describe('pruneSessions', () => {
+		async function sessionWithMessages(count: number) {
+			const session = await createNewSession(testDir, 'openai/gpt-4o');
+			for (let index = 0; index < count; index++) {
+				await saveMessage(
+					testDir,
+					message(index % 2 === 0 ? 'user' : 'assistant', `m${index}`),
+					session.id,
+				);
+			}
+
+			return session;
+		}
+
+		it('should trim session files to the history limit at a user turn', async () => {
+			const session = await sessionWithMessages(14);
+
+			const report = await pruneSessions(testDir, {historyLimit: 11});
+
+			expect(report.trimmedSessions).toEqual([{id: session.id, removedMessages: 4}]);
+			const messages = await readHistory(testDir, session.id);
+			expect(messages).toHaveLength(10);
+			expect(messages[0]?.role).toBe('user');
+			const metadata = await loadSessionMetadata(testDir);
+			expect(metadata?.sessions[0]?.messageCount).toBe(10);
+		});
+
+		it('should delete expired sessions but keep the current one', async () => {
+			const old = await sessionWithMessages(2);
+			const current = await sessionWithMessages(2);
+			const metadata = await loadSessionMetadata(testDir);
+			const oldInfo = metadata!.sessions.find(s => s.id === old.id)!;
+			oldInfo.lastActivity = new Date(Date.now() - 90 * 86400000).toISOString();
+			await saveSessionMetadata(testDir, metadata!);
+
+			const report = await pruneSessions(testDir, {historyLimit: 100, maxAgeDays: 30});
+
+			expect(report.deletedSessions.map(s => s.id)).toEqual([old.id]);
+			expect(fileExists(getHistoryPath(testDir, old.id))).toBe(false);
+			const after = await loadSessionMetadata(testDir);
+			expect(after?.sessions.map(s => s.id)).toEqual([current.id]);
+		});
+
+		it('should remove orphaned history and checkpoint files', async () => {
+			const session = await sessionWithMessages(2);
+			const orphanHistory = getHistoryPath(testDir, 'orphan');
+			await fs.writeFile(orphanHistory, '');
+			await recordFileCheckpoint(
+				testDir,
+				{sessionId: 'gone', messageId: 'gone-msg'},
+				path.join(testDir, 'file.txt'),
+			);
+			await recordFileCheckpoint(
+				testDir,
+				{sessionId: session.id, messageId: 'kept-msg'},
+				path.join(testDir, 'file.txt'),
+			);
+
+			const report = await pruneSessions(testDir, {historyLimit: 100});
+
+			expect(report.orphanedFiles).toEqual([
+				orphanHistory,
+				getCheckpointPath(testDir, 'gone-msg'),
+			]);
+			expect(fileExists(orphanHistory)).toBe(false);
+			expect(fileExists(getCheckpointPath(testDir, 'kept-msg'))).toBe(true);
+		});
+
+		it('should change nothing on a dry run', async () => {
+			const session = await sessionWithMessages(14);
+			const orphanHistory = getHistoryPath(testDir, 'orphan');
+			await fs.writeFile(orphanHistory, '');
+
+			const report = await pruneSessions(
+				testDir,
+				{historyLimit: 11},
+				{dryRun: true},
+			);
+
+			expect(report.trimmedSessions).toHaveLength(1);
+			expect(report.orphanedFiles).toEqual([orphanHistory]);
+			expect(await readHistory(testDir, session.id)).toHaveLength(14);
+			expect(fileExists(orphanHistory)).toBe(true);
+		});
+	});
+});
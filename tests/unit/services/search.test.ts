@@ -0,0 +1,165 @@
+/**
+ * Unit tests for conversation search
+ */
+
+import {describe, it, expect, beforeEach, afterEach} from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import {
+	tokenizeQuery,
+	scoreContent,
+	recencyWeight,
+	buildSnippet,
+	searchSessions,
+} from '../../../src/services/search.js';
+import {createNewSession} from '../../../src/services/session.js';
+import {appendToHistory, getHistoryPath} from '../../../src/utils/storage.js';
+import type {Message} from '../../../src/types/index.js';
+
+function message(
+	content: string,
+	role: Message['role'] = 'user',
+	timestamp = new Date().toISOString(),
+): Message {
+	return {
+		id: `msg-${Math.random().toString(36).slice(2)}`,
+		role,
+		content,
+		timestamp,
+		...(role === 'assistant' ? {model: 'openai/gpt-4o'} : {}),
+	};
+}
+
+describe('search service', () => {
+	let testDir: string;
+	let otherDir: string;
+	const originalXdgConfigHome = process.env.XDG_CONFIG_HOME;
+
+	beforeEach(async () => {
+		testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'search-test-'));
+		otherDir = await fs.mkdtemp(path.join(os.tmpdir(), 'search-other-'));
+		process.env.XDG_CONFIG_HOME = path.join(testDir, 'config');
+	});
+
+	afterEach(async () => {
+		if (originalXdgConfigHome === undefined) {
+			delete process.env.XDG_CONFIG_HOME;
+		} else {
+			process.env.XDG_CONFIG_HOME = originalXdgConfigHome;
+		}
+
+		await fs.rm(testDir, {recursive: true, force: true});
+		await fs.rm(otherDir, {recursive: true, force: true});
+	});
+
+	describe('tokenizeQuery', () => {
+		it('should lowercase and deduplicate terms', () => {
+			expect(tokenizeQuery('  Race race  Condition ')).toEqual([
+				'race',
+				'condition',
+			]);
+		});
+	});
+
+	describe('scoreContent', () => {
+		it('should require every term to match', () => {
+			expect(scoreContent('a race in the watcher', ['race', 'lock'])).toBe(0);
+		});
+
+		it('should rank phrase matches above scattered terms', () => {
+			const phrase = scoreContent('fix the race condition', ['race', 'condition']);
+			const scattered = scoreContent(
+				'race here and a condition there',
+				['race', 'condition'],
+			);
+			expect(phrase).toBeGreaterThan(scattered);
+		});
+	});
+
+	describe('recencyWeight', () => {
+		it('should decay from 1 toward 0.5 with age', () => {
+			const now = Date.now();
+			expect(recencyWeight(new Date(now).toISOString(), now)).toBeCloseTo(1);
+			expect(
+				recencyWeight(new Date(now - 30 * 86400000).toISOString(), now),
+			).toBeCloseTo(0.75);
+		});
+	});
+
+	describe('buildSnippet', () => {
+		it('should excerpt around the first match on one line', () => {
+			const content = `${'x'.repeat(200)}\nthe needle is here\n${'y'.repeat(200)}`;
+			const snippet = buildSnippet(content, ['needle']);
+			expect(snippet).toContain('needle');
+			expect(snippet.startsWith('...')).toBe(true);
+			expect(snippet.endsWith('...')).toBe(true);
+			expect(snippet).not.toContain('\n');
+		});
+	});
+
+	describe('searchSessions', () => {
+		it('should find matches across sessions ranked by score', async () => {
+			const first = await createNewSession(testDir, 'openai/gpt-4o');
+			await appendToHistory(
+				testDir,
+				message('How do I fix the race condition?'),
+				first.id,
+			);
+			const second = await createNewSession(testDir, 'openai/gpt-4o');
+			await appendToHistory(
+				testDir,
+				message('A race condition, a race condition everywhere', 'assistant'),
+				second.id,
+			);
+			await appendToHistory(testDir, message('Unrelated'), second.id);
+
+			const hits = await searchSessions(testDir, 'race condition');
+
+			expect(hits).toHaveLength(2);
+			expect(hits[0]?.sessionId).toBe(second.id);
+			expect(hits[1]?.sessionId).toBe(first.id);
+			expect(hits[1]?.sessionTitle).toBe('How do I fix the race condition?');
+		});
+
+		it('should respect the result limit', async () => {
+			const session = await createNewSession(testDir, 'openai/gpt-4o');
+			for (let i = 0; i < 5; i++) {
+				await appendToHistory(testDir, message(`deploy step ${i}`), session.id);
+			}
+
+			const hits = await searchSessions(testDir, 'deploy', {limit: 3});
+			expect(hits).toHaveLength(3);
+		});
+
+		it('should search other known directories in global mode', async () => {
+			await createNewSession(testDir, 'openai/gpt-4o');
+			const other = await createNewSession(otherDir, 'openai/gpt-4o');
+			await appendToHistory(otherDir, message('kubernetes manifest'), other.id);
+
+			expect(await searchSessions(testDir, 'kubernetes')).toHaveLength(0);
+
+			const hits = await searchSessions(testDir, 'kubernetes', {global: true});
+			expect(hits).toHaveLength(1);
+			expect(hits[0]?.workingDirectory).toBe(otherDir);
+		});
+
+		it('should skip directories it cannot read in global mode', async () => {
+			const session = await createNewSession(testDir, 'openai/gpt-4o');
+			await appendToHistory(testDir, message('kubernetes manifest'), session.id);
+			const other = await createNewSession(otherDir, 'openai/gpt-4o');
+			// Encrypted, but this config has no encryption key
+			await fs.writeFile(getHistoryPath(otherDir, other.id), 'enc:v1:abc\n');
+
+			const skipped: string[] = [];
+			const hits = await searchSessions(testDir, 'kubernetes', {
+				global: true,
+				onSkip(directory) {
+					skipped.push(directory);
+				},
+			});
+			expect(hits).toHaveLength(1);
+			expect(skipped).toEqual([otherDir]);
+		});
+	});
+});
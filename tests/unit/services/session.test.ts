@@ -0,0 +1,902 @@
+/**
+ * Unit tests for multi-session management in the session service
+ */
+
+import {describe, it, expect, beforeEach, afterEach} from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import {
+	createSession,
+	createNewSession,
+	listSessions,
+	switchSession,
+	renameSession,
+	deleteSession,
+	deriveSessionTitle,
+	resolveSessionId,
+	saveMessage,
+	forkSession,
+	findTurnEndMessageId,
+	resolveUserTurn,
+	persistCompaction,
+	shouldAutoCompact,
+	loadCurrentSession,
+	prepareContinuedSession,
+	loadSessionById,
+	rewindSession,
+	editUserMessage,
+	retryLastTurn,
+	swapAlternate,
+	setMessagePinned,
+	saveSessionToHistory,
+	clearConversationHistory,
+	upsertSessionMessage,
+	getInterruptedMessage,
+	listIndexedSessions,
+	pruneSessionIndex,
+} from '../../../src/services/session.js';
+import {recordFileCheckpoint} from '../../../src/services/checkpoints.js';
+import {
+	appendToHistory,
+	loadSessionMetadata,
+	getHistoryPath,
+	getSessionIndexPath,
+	fileExists,
+	readHistory,
+	readRawHistory,
+} from '../../../src/utils/storage.js';
+import type {
+	Message,
+	CompactionResult,
+	Configuration,
+	Session,
+} from '../../../src/types/index.js';
+import {COMPACTION_CONFIG, DEFAULT_PREFERENCES} from '../../../src/types/index.js';
+
+function assistantMessage(content: string): Message {
+	return {
+		id: `msg-${Math.random()}`,
+		role: 'assistant',
+		content,
+		timestamp: new Date().toISOString(),
+		model: 'openai/gpt-4o',
+	};
+}
+
+function userMessage(content: string): Message {
+	return {
+		id: `msg-${Math.random()}`,
+		role: 'user',
+		content,
+		timestamp: new Date().toISOString(),
+	};
+}
+
+/**
+ * Replace the first turn of turns with a summary through persistCompaction
+ */
+async function compactFirstTurn(session: Session, turns: Message[]): Promise<Session> {
+	const summary = assistantMessage('summary of one');
+	const replacedMessageIds = turns.slice(0, 2).map(m => m.id);
+	const messages = session.messages.filter(m => !replacedMessageIds.includes(m.id));
+	messages.splice(session.messages.indexOf(turns[0]!), 0, summary);
+	const result: CompactionResult = {
+		strategy: 'summary',
+		originalMessageCount: session.messages.length,
+		compactedMessageCount: messages.length,
+		originalTokenEstimate: 10,
+		compactedTokenEstimate: 6,
+		reductionPercentage: 40,
+		messages,
+		replacedMessageIds,
+		replacementMessages: [summary],
+	};
+
+	return persistCompaction(session, result);
+}
+
+describe('session service - multi-session management', () => {
+	let testDir: string;
+	const originalXdgConfigHome = process.env.XDG_CONFIG_HOME;
+
+	beforeEach(async () => {
+		testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'session-test-'));
+		// Keep the global directory registry out of the real config dir
+		process.env.XDG_CONFIG_HOME = path.join(testDir, 'config');
+	});
+
+	afterEach(async () => {
+		if (originalXdgConfigHome === undefined) {
+			delete process.env.XDG_CONFIG_HOME;
+		} else {
+			process.env.XDG_CONFIG_HOME = originalXdgConfigHome;
+		}
+
+		await fs.rm(testDir, {recursive: true, force: true});
+	});
+
+	describe('deriveSessionTitle', () => {
+		it('should use the first line of the first user message', () => {
+			expect(
+				deriveSessionTitle([userMessage('Fix the build\nIt fails on CI')]),
+			).toBe('Fix the build');
+		});
+
+		it('should return undefined when there are no user messages', () => {
+			expect(deriveSessionTitle([])).toBeUndefined();
+		});
+	});
+
+	describe('listSessions', () => {
+		it('should return an empty list when no metadata exists', async () => {
+			expect(await listSessions(testDir)).toEqual([]);
+		});
+
+		it('should list sessions most recent first with derived titles', async () => {
+			const first = await createNewSession(testDir, 'openai/gpt-4o');
+			await appendToHistory(testDir, userMessage('First topic'), first.id);
+			await new Promise(resolve => {
+				setTimeout(resolve, 5);
+			});
+			const second = await createNewSession(testDir, 'openai/gpt-4o');
+
+			const sessions = await listSessions(testDir);
+
+			expect(sessions.map(s => s.id)).toEqual([second.id, first.id]);
+			expect(sessions[1]?.title).toBe('First topic');
+			expect(sessions[0]?.title).toBeUndefined();
+		});
+	});
+
+	describe('switchSession', () => {
+		it('should update currentSessionId and load the session messages', async () => {
+			const first = await createNewSession(testDir, 'openai/gpt-4o');
+			await appendToHistory(testDir, userMessage('Hello'), first.id);
+			await createNewSession(testDir, 'openai/gpt-4o');
+
+			const loaded = await switchSession(testDir, first.id);
+
+			expect(loaded.id).toBe(first.id);
+			expect(loaded.messages).toHaveLength(1);
+			const metadata = await loadSessionMetadata(testDir);
+			expect(metadata?.currentSessionId).toBe(first.id);
+		});
+
+		it('should throw for an unknown session', async () => {
+			await createNewSession(testDir, 'openai/gpt-4o');
+			await expect(switchSession(testDir, 'missing')).rejects.toThrow(
+				'Session not found',
+			);
+		});
+	});
+
+	describe('resolveSessionId', () => {
+		it('should resolve a full ID or a unique prefix', async () => {
+			const session = await createNewSession(testDir, 'openai/gpt-4o');
+
+			expect(await resolveSessionId(testDir, session.id)).toBe(session.id);
+			expect(await resolveSessionId(testDir, session.id.slice(0, 8))).toBe(
+				session.id,
+			);
+		});
+
+		it('should reject unknown prefixes', async () => {
+			await createNewSession(testDir, 'openai/gpt-4o');
+			await expect(resolveSessionId(testDir, 'zzzz')).rejects.toThrow(
+				'No session matches',
+			);
+		});
+
+		it('should reject ambiguous prefixes', async () => {
+			await createNewSession(testDir, 'openai/gpt-4o');
+			await createNewSession(testDir, 'openai/gpt-4o');
+			await expect(resolveSessionId(testDir, '')).rejects.toThrow('ambiguous');
+		});
+	});
+
+	describe('saveMessage', () => {
+		it('should append to the session file and update metadata', async () => {
+			const session = await createNewSession(testDir, 'openai/gpt-4o');
+
+			await saveMessage(testDir, userMessage('Hello'), session.id);
+
+			const loaded = await switchSession(testDir, session.id);
+			expect(loaded.messages).toHaveLength(1);
+			const sessions = await listSessions(testDir);
+			expect(sessions[0]?.messageCount).toBe(1);
+		});
+
+		it('should not lose updates from concurrent writers', async () => {
+			const first = await createNewSession(testDir, 'openai/gpt-4o');
+			const second = await createNewSession(testDir, 'openai/gpt-4o');
+
+			await Promise.all([
+				saveMessage(testDir, userMessage('one'), first.id),
+				saveMessage(testDir, userMessage('two'), second.id),
+				saveMessage(testDir, assistantMessage('three'), first.id),
+			]);
+
+			const sessions = await listSessions(testDir);
+			expect(sessions.find(s => s.id === first.id)?.messageCount).toBe(2);
+			expect(sessions.find(s => s.id === second.id)?.messageCount).toBe(1);
+		});
+	});
+
+	describe('saveSessionToHistory', () => {
+		it('should write each message once however often it is called', async () => {
+			const session = await createNewSession(testDir, 'openai/gpt-4o');
+			session.messages.push(userMessage('one'));
+			await saveSessionToHistory(session);
+			session.messages.push(assistantMessage('reply one'));
+			await saveSessionToHistory(session);
+			await saveSessionToHistory(session);
+
+			const raw = await readRawHistory(testDir, session.id);
+			expect(raw.map(m => m.content)).toEqual(['one', 'reply one']);
+			const sessions = await listSessions(testDir);
+			expect(sessions[0]?.messageCount).toBe(2);
+		});
+
+		it('should not duplicate messages already saved with saveMessage', async () => {
+			const session = await createNewSession(testDir, 'openai/gpt-4o');
+			const message = userMessage('one');
+			await saveMessage(testDir, message, session.id);
+			await saveMessage(testDir, message, session.id);
+			session.messages.push(message);
+			await saveSessionToHistory(session);
+
+			expect(await readRawHistory(testDir, session.id)).toHaveLength(1);
+			const sessions = await listSessions(testDir);
+			expect(sessions[0]?.messageCount).toBe(1);
+		});
+
+		it('should register a new session on its first saved message', async () => {
+			const earlier = await createNewSession(testDir, 'openai/gpt-4o');
+			const session = createSession(testDir, 'openai/gpt-4o');
+			await saveSessionToHistory(session);
+
+			expect((await listSessions(testDir)).map(s => s.id)).toEqual([earlier.id]);
+			expect((await loadSessionMetadata(testDir))?.currentSessionId).toBe(earlier.id);
+
+			session.messages.push(userMessage('one'));
+			await saveSessionToHistory(session);
+
+			const metadata = await loadSessionMetadata(testDir);
+			expect(metadata?.currentSessionId).toBe(session.id);
+			expect(metadata?.sessions.find(s => s.id === session.id)).toMatchObject({
+				messageCount: 1,
+				model: 'openai/gpt-4o',
+			});
+		});
+	});
+
+	describe('upsertSessionMessage', () => {
+		it('should replace a partial response saved while streaming', async () => {
+			const session = await createNewSession(testDir, 'openai/gpt-4o');
+			session.messages.push(userMessage('question'));
+			await saveSessionToHistory(session);
+
+			const partial: Message = {
+				...assistantMessage('Half an'),
+				metadata: {interrupted: true},
+			};
+			await upsertSessionMessage(session, partial);
+			await upsertSessionMessage(session, {...partial, content: 'Half an answer'});
+
+			const recovered = await loadCurrentSession(testDir);
+			expect(recovered?.messages.map(m => m.content)).toEqual([
+				'question',
+				'Half an answer',
+			]);
+			expect(getInterruptedMessage(recovered!)?.id).toBe(partial.id);
+			const sessions = await listSessions(testDir);
+			expect(sessions[0]?.messageCount).toBe(2);
+
+			const {interrupted: _, ...finished} = partial.metadata!;
+			await upsertSessionMessage(session, {
+				...partial,
+				content: 'Half an answer, finished.',
+				metadata: finished,
+			});
+			const completed = await loadCurrentSession(testDir);
+			expect(completed?.messages).toHaveLength(2);
+			expect(getInterruptedMessage(completed!)).toBeNull();
+
+			// The finished response replaces the copies saved while streaming
+			const lines = (await fs.readFile(getHistoryPath(testDir, session.id), 'utf8'))
+				.trim()
+				.split('\n');
+			expect(lines).toHaveLength(2);
+		});
+	});
+
+	describe('prepareContinuedSession', () => {
+		const config: Configuration = {
+			version: '1.0.0',
+			apiKey: 'sk-or-v1-abc123',
+			models: [],
+			preferences: {...DEFAULT_PREFERENCES, historyLimit: 2},
+		};
+
+		it('should apply the history limit to a continued session', async () => {
+			const session = await createNewSession(testDir, 'openai/gpt-4o');
+			session.messages.push(
+				userMessage('first'),
+				assistantMessage('one'),
+				userMessage('second'),
+				assistantMessage('two'),
+			);
+			await saveSessionToHistory(session);
+
+			const continued = prepareContinuedSession(
+				(await loadCurrentSession(testDir))!,
+				config,
+			);
+			expect(continued?.messages.map(m => m.content)).toEqual(['second', 'two']);
+			expect(continued?.metadata.totalMessages).toBe(2);
+		});
+
+		it('should reject a continued session with a broken structure', async () => {
+			const session = await createNewSession(testDir, 'openai/gpt-4o');
+			session.messages.push(assistantMessage('answer without a question'));
+			await saveSessionToHistory(session);
+
+			expect(
+				prepareContinuedSession((await loadCurrentSession(testDir))!, config),
+			).toBeNull();
+		});
+	});
+
+	describe('clearConversationHistory', () => {
+		it('should empty the session file and allow saving again', async () => {
+			const session = await createNewSession(testDir, 'openai/gpt-4o');
+			const message = userMessage('one');
+			session.messages.push(message);
+			await saveSessionToHistory(session);
+
+			const cleared = await clearConversationHistory(session);
+
+			expect(cleared.messages).toEqual([]);
+			expect(await readRawHistory(testDir, session.id)).toEqual([]);
+			const sessions = await listSessions(testDir);
+			expect(sessions[0]?.messageCount).toBe(0);
+
+			cleared.messages.push(message);
+			await saveSessionToHistory(cleared);
+			expect(await readRawHistory(testDir, session.id)).toHaveLength(1);
+		});
+	});
+
+	describe('renameSession', () => {
+		it('should store the new title in metadata', async () => {
+			const session = await createNewSession(testDir, 'openai/gpt-4o');
+
+			await renameSession(testDir, session.id, '  Refactor parser  ');
+
+			const sessions = await listSessions(testDir);
+			expect(sessions[0]?.title).toBe('Refactor parser');
+		});
+	});
+
+	describe('deleteSession', () => {
+		it('should remove the history file and metadata entry', async () => {
+			const first = await createNewSession(testDir, 'openai/gpt-4o');
+			await appendToHistory(testDir, userMessage('Hello'), first.id);
+			const second = await createNewSession(testDir, 'openai/gpt-4o');
+
+			await deleteSession(testDir, first.id);
+
+			expect(fileExists(getHistoryPath(testDir, first.id))).toBe(false);
+			const sessions = await listSessions(testDir);
+			expect(sessions.map(s => s.id)).toEqual([second.id]);
+		});
+
+		it('should pick another current session when deleting the current one', async () => {
+			const first = await createNewSession(testDir, 'openai/gpt-4o');
+			const second = await createNewSession(testDir, 'openai/gpt-4o');
+
+			await deleteSession(testDir, second.id);
+
+			const metadata = await loadSessionMetadata(testDir);
+			expect(metadata?.currentSessionId).toBe(first.id);
+		});
+	});
+
+	describe('findTurnEndMessageId', () => {
+		const messages = [
+			userMessage('one'),
+			assistantMessage('reply one'),
+			userMessage('two'),
+			assistantMessage('reply two'),
+		];
+
+		it('should return the last message before the next user turn', () => {
+			expect(findTurnEndMessageId(messages, 1)).toBe(messages[1]?.id);
+		});
+
+		it('should return the final message for the last turn', () => {
+			expect(findTurnEndMessageId(messages, 2)).toBe(messages[3]?.id);
+		});
+
+		it('should return null for turns beyond the conversation', () => {
+			expect(findTurnEndMessageId(messages, 3)).toBeNull();
+		});
+	});
+
+	describe('resolveUserTurn', () => {
+		it('should resolve turn arguments to user messages', () => {
+			const session = createSession(testDir, 'openai/gpt-4o');
+			session.messages = [
+				userMessage('one'),
+				assistantMessage('reply one'),
+				userMessage('two'),
+			];
+
+			expect(resolveUserTurn(session, '2')).toEqual({turn: 2, message: session.messages[2]});
+			for (const arg of ['0', '3', '1.5', 'two']) {
+				expect(resolveUserTurn(session, arg)).toBeNull();
+			}
+		});
+	});
+
+	describe('forkSession', () => {
+		it('should copy messages up to the fork point and record lineage', async () => {
+			const parent = await createNewSession(testDir, 'openai/gpt-4o');
+			parent.messages = [
+				userMessage('one'),
+				assistantMessage('reply one'),
+				userMessage('two'),
+				assistantMessage('reply two'),
+			];
+			const forkPoint = parent.messages[1]!.id;
+
+			const fork = await forkSession(parent, forkPoint);
+
+			expect(fork.id).not.toBe(parent.id);
+			expect(fork.messages).toHaveLength(2);
+			const metadata = await loadSessionMetadata(testDir);
+			expect(metadata?.currentSessionId).toBe(fork.id);
+			const forkInfo = metadata?.sessions.find(s => s.id === fork.id);
+			expect(forkInfo?.parentSessionId).toBe(parent.id);
+			expect(forkInfo?.forkedFromMessageId).toBe(forkPoint);
+			expect(forkInfo?.title).toBe('one (fork)');
+
+			const reloaded = await switchSession(testDir, fork.id);
+			expect(reloaded.messages.map(m => m.content)).toEqual([
+				'one',
+				'reply one',
+			]);
+		});
+
+		it('should reject forking an empty conversation', async () => {
+			const parent = await createNewSession(testDir, 'openai/gpt-4o');
+			await expect(forkSession(parent)).rejects.toThrow('empty conversation');
+		});
+	});
+
+	describe('rewindSession', () => {
+		async function sessionWithTurns() {
+			const session = await createNewSession(testDir, 'openai/gpt-4o');
+			const messages = [
+				userMessage('one'),
+				assistantMessage('reply one'),
+				userMessage('two'),
+				assistantMessage('reply two'),
+			];
+			for (const message of messages) {
+				await saveMessage(testDir, message, session.id);
+			}
+
+			session.messages = messages;
+			return {session, messages};
+		}
+
+		it('should truncate the history before the chosen user message', async () => {
+			const {session, messages} = await sessionWithTurns();
+
+			const {session: rewound, result} = await rewindSession(
+				session,
+				messages[2]!.id,
+			);
+
+			expect(result.removedMessageCount).toBe(2);
+			expect(rewound.messages.map(m => m.content)).toEqual(['one', 'reply one']);
+			expect((await readHistory(testDir, session.id)).map(m => m.content)).toEqual([
+				'one',
+				'reply one',
+			]);
+			const metadata = await loadSessionMetadata(testDir);
+			expect(metadata?.sessions.find(s => s.id === session.id)?.messageCount).toBe(2);
+		});
+
+		it('should restore files changed during the removed turns', async () => {
+			const {session, messages} = await sessionWithTurns();
+			const editedFile = path.join(testDir, 'edited.txt');
+			const createdFile = path.join(testDir, 'created.txt');
+			await fs.writeFile(editedFile, 'original');
+
+			await recordFileCheckpoint(testDir, {sessionId: session.id, messageId: messages[0]!.id}, editedFile);
+			await fs.writeFile(editedFile, 'after turn one');
+			await recordFileCheckpoint(testDir, {sessionId: session.id, messageId: messages[2]!.id}, editedFile);
+			await recordFileCheckpoint(testDir, {sessionId: session.id, messageId: messages[2]!.id}, createdFile);
+			await fs.writeFile(editedFile, 'after turn two');
+			await fs.writeFile(createdFile, 'new');
+
+			const {result} = await rewindSession(session, messages[2]!.id);
+
+			expect(await fs.readFile(editedFile, 'utf8')).toBe('after turn one');
+			expect(fileExists(createdFile)).toBe(false);
+			expect(result.restoredFiles).toEqual([editedFile]);
+			expect(result.deletedFiles).toEqual([createdFile]);
+		});
+
+		it('should reject messages that are not user messages', async () => {
+			const {session, messages} = await sessionWithTurns();
+			await expect(rewindSession(session, messages[1]!.id)).rejects.toThrow(
+				'user message',
+			);
+		});
+
+		it('should keep compactions of the messages it keeps', async () => {
+			const {session, messages} = await sessionWithTurns();
+			const compacted = await compactFirstTurn(session, messages);
+
+			const {session: rewound, result} = await rewindSession(compacted, messages[2]!.id);
+
+			expect(rewound.messages.map(m => m.content)).toEqual(['summary of one']);
+			expect(result.undoneCompactionCount).toBe(0);
+			expect((await readHistory(testDir, session.id)).map(m => m.content)).toEqual([
+				'summary of one',
+			]);
+		});
+
+		it('should report compactions undone with the removed messages', async () => {
+			const session = await createNewSession(testDir, 'openai/gpt-4o');
+			const messages = [
+				userMessage('zero'),
+				assistantMessage('reply zero'),
+				userMessage('one'),
+				assistantMessage('reply one'),
+				userMessage('two'),
+				assistantMessage('reply two'),
+			];
+			for (const message of messages) {
+				await saveMessage(testDir, message, session.id);
+			}
+
+			// Pinned first turn, so the compaction covers messages after it
+			const compacted = await compactFirstTurn({...session, messages}, messages.slice(2));
+
+			const {session: rewound, result} = await rewindSession(compacted, messages[0]!.id);
+
+			expect(rewound.messages).toEqual([]);
+			expect(result.undoneCompactionCount).toBe(1);
+		});
+	});
+
+	describe('editUserMessage', () => {
+		async function sessionWithTurns() {
+			const session = await createNewSession(testDir, 'openai/gpt-4o');
+			session.messages = [
+				userMessage('one'),
+				assistantMessage('reply one'),
+				userMessage('two'),
+				assistantMessage('reply two'),
+			];
+			await saveSessionToHistory(session);
+			return session;
+		}
+
+		it('should rewind and restore files when replacing', async () => {
+			const session = await sessionWithTurns();
+			const editedFile = path.join(testDir, 'edited.txt');
+			await fs.writeFile(editedFile, 'original');
+			await recordFileCheckpoint(testDir, {sessionId: session.id, messageId: session.messages[2]!.id}, editedFile);
+			await fs.writeFile(editedFile, 'after turn two');
+
+			const {session: edited, result} = await editUserMessage(
+				session,
+				session.messages[2]!.id,
+				'replace',
+			);
+
+			expect(edited.id).toBe(session.id);
+			expect(edited.messages.map(m => m.content)).toEqual(['one', 'reply one']);
+			expect(result?.restoredFiles).toEqual([editedFile]);
+			expect(await fs.readFile(editedFile, 'utf8')).toBe('original');
+		});
+
+		it('should fork without touching the parent or files', async () => {
+			const session = await sessionWithTurns();
+			const editedFile = path.join(testDir, 'edited.txt');
+			await fs.writeFile(editedFile, 'original');
+			await recordFileCheckpoint(testDir, {sessionId: session.id, messageId: session.messages[2]!.id}, editedFile);
+			await fs.writeFile(editedFile, 'after turn two');
+
+			const {session: forked, result} = await editUserMessage(
+				session,
+				session.messages[2]!.id,
+				'fork',
+			);
+
+			expect(result).toBeNull();
+			expect(forked.id).not.toBe(session.id);
+			expect(forked.messages.map(m => m.content)).toEqual(['one', 'reply one']);
+			expect(await readHistory(testDir, session.id)).toHaveLength(4);
+			expect(await fs.readFile(editedFile, 'utf8')).toBe('after turn two');
+		});
+
+		it('should fork the first turn into an empty session', async () => {
+			const session = await sessionWithTurns();
+
+			const {session: forked} = await editUserMessage(session, session.messages[0]!.id, 'fork');
+
+			expect(forked.id).not.toBe(session.id);
+			expect(forked.messages).toEqual([]);
+		});
+
+		it('should reject messages that are not user messages', async () => {
+			const session = await sessionWithTurns();
+			await expect(
+				editUserMessage(session, session.messages[1]!.id, 'fork'),
+			).rejects.toThrow('user message');
+		});
+	});
+
+	describe('retryLastTurn', () => {
+		it('should drop the last answer and keep it as an alternate', async () => {
+			const session = await createNewSession(testDir, 'openai/gpt-4o');
+			const toolMessage: Message = {
+				id: 'tool-1',
+				role: 'tool',
+				content: 'ok',
+				timestamp: new Date().toISOString(),
+				metadata: {toolCallId: 'call-1', toolName: 'bash'},
+			};
+			session.messages = [
+				userMessage('one'),
+				assistantMessage('reply one'),
+				userMessage('two'),
+				assistantMessage('calling a tool'),
+				toolMessage,
+				assistantMessage('reply two'),
+			];
+			await saveSessionToHistory(session);
+
+			const {session: retried, discarded} = await retryLastTurn(session);
+
+			expect(discarded).toHaveLength(3);
+			expect(retried.messages.map(m => m.content)).toEqual(['one', 'reply one', 'two']);
+			const stored = await readHistory(testDir, session.id);
+			expect(stored.map(m => m.content)).toEqual(['one', 'reply one', 'two']);
+			expect(stored[2]?.metadata?.alternates?.[0]).toMatchObject({
+				model: 'openai/gpt-4o',
+				messages: discarded,
+			});
+
+			// A new answer, then flip back to the discarded one and again
+			const retryAnswer = assistantMessage('second try');
+			retried.messages.push(retryAnswer);
+			await saveSessionToHistory(retried);
+
+			const swapped = await swapAlternate(retried);
+			expect(swapped.messages.slice(2).map(m => m.content)).toEqual([
+				'two',
+				'calling a tool',
+				'ok',
+				'reply two',
+			]);
+			expect((await readHistory(testDir, session.id)).map(m => m.content)).toEqual(
+				swapped.messages.map(m => m.content),
+			);
+
+			const swappedBack = await swapAlternate(swapped);
+			expect(swappedBack.messages.slice(3)).toEqual([retryAnswer]);
+			expect(swappedBack.messages[2]?.metadata?.alternates).toHaveLength(1);
+		});
+
+		it('should keep a compaction made before the retry', async () => {
+			const session = await createNewSession(testDir, 'openai/gpt-4o');
+			const messages = [
+				userMessage('one'),
+				assistantMessage('reply one'),
+				userMessage('two'),
+				assistantMessage('reply two'),
+			];
+			for (const message of messages) {
+				await saveMessage(testDir, message, session.id);
+			}
+
+			const compacted = await compactFirstTurn({...session, messages}, messages);
+			const {session: retried} = await retryLastTurn(compacted);
+
+			expect(retried.messages.map(m => m.content)).toEqual(['summary of one', 'two']);
+			const loaded = await loadCurrentSession(testDir);
+			expect(loaded?.messages).toEqual(retried.messages);
+
+			const swapped = await swapAlternate(retried);
+			expect((await loadCurrentSession(testDir))?.messages.map(m => m.content)).toEqual([
+				'summary of one',
+				'two',
+				'reply two',
+			]);
+			expect(swapped.messages.map(m => m.content)).toEqual([
+				'summary of one',
+				'two',
+				'reply two',
+			]);
+		});
+
+		it('should reject sessions without user messages', async () => {
+			const session = await createNewSession(testDir, 'openai/gpt-4o');
+			await expect(retryLastTurn(session)).rejects.toThrow('Nothing to retry');
+			await expect(swapAlternate(session)).rejects.toThrow('No alternate');
+		});
+	});
+
+	describe('setMessagePinned', () => {
+		it('should store the pinned flag and clear it again', async () => {
+			const session = await createNewSession(testDir, 'openai/gpt-4o');
+			session.messages = [userMessage('spec'), assistantMessage('ok')];
+			await saveSessionToHistory(session);
+
+			const pinned = await setMessagePinned(session, session.messages[0]!.id, true);
+			expect(pinned.messages[0]?.metadata?.pinned).toBe(true);
+			expect((await readHistory(testDir, session.id))[0]?.metadata?.pinned).toBe(true);
+
+			const unpinned = await setMessagePinned(pinned, session.messages[0]!.id, false);
+			expect((await readHistory(testDir, session.id))[0]?.metadata).toEqual({});
+			expect(unpinned.messages[0]?.metadata?.pinned).toBeUndefined();
+		});
+	});
+
+	describe('persistCompaction', () => {
+		async function compactedSession() {
+			const session = await createNewSession(testDir, 'openai/gpt-4o');
+			const messages = [
+				userMessage('one'),
+				assistantMessage('reply one'),
+				userMessage('two'),
+				assistantMessage('reply two'),
+			];
+			for (const message of messages) {
+				await saveMessage(testDir, message, session.id);
+			}
+
+			const summary = assistantMessage('summary of one');
+			const result: CompactionResult = {
+				strategy: 'summary',
+				originalMessageCount: 4,
+				compactedMessageCount: 3,
+				originalTokenEstimate: 10,
+				compactedTokenEstimate: 6,
+				reductionPercentage: 40,
+				messages: [summary, ...messages.slice(2)],
+				replacedMessageIds: messages.slice(0, 2).map(m => m.id),
+				replacementMessages: [summary],
+			};
+
+			const compacted = await persistCompaction({...session, messages}, result);
+			return {session: compacted, messages};
+		}
+
+		it('should restore the compacted view on continue', async () => {
+			const {session} = await compactedSession();
+
+			const loaded = await loadCurrentSession(testDir);
+			expect(loaded?.messages.map(m => m.content)).toEqual([
+				'summary of one',
+				'two',
+				'reply two',
+			]);
+			expect(loaded?.messages).toEqual(session.messages);
+			const sessions = await listSessions(testDir);
+			expect(sessions[0]?.messageCount).toBe(3);
+		});
+
+		it('should keep later messages after the summary', async () => {
+			const {session} = await compactedSession();
+			await saveMessage(testDir, userMessage('three'), session.id);
+
+			const messages = await readHistory(testDir, session.id);
+			expect(messages.map(m => m.content)).toEqual([
+				'summary of one',
+				'two',
+				'reply two',
+				'three',
+			]);
+		});
+
+		it('should keep the raw messages available', async () => {
+			const {session, messages} = await compactedSession();
+
+			expect(await readRawHistory(testDir, session.id)).toEqual(messages);
+			const raw = await loadSessionById(testDir, session.id, {raw: true});
+			expect(raw?.messages).toHaveLength(4);
+		});
+	});
+
+	describe('shouldAutoCompact', () => {
+		it('should compact only past the threshold with enough messages', async () => {
+			const session = await createNewSession(testDir, 'openai/gpt-4o');
+			session.messages = Array.from({length: 20}, (_, index) =>
+				index % 2 === 0 ? userMessage(`q${index}`) : assistantMessage(`a${index}`),
+			);
+
+			expect(shouldAutoCompact(session, 0.85, COMPACTION_CONFIG)).toBe(true);
+			expect(shouldAutoCompact(session, 0.5, COMPACTION_CONFIG)).toBe(false);
+
+			session.messages = session.messages.slice(0, 4);
+			expect(shouldAutoCompact(session, 0.95, COMPACTION_CONFIG)).toBe(false);
+		});
+	});
+
+	describe('global session index', () => {
+		it('should track sessions of every directory as they change', async () => {
+			const otherDir = path.join(testDir, 'other');
+			await fs.mkdir(otherDir);
+
+			const session = createSession(testDir, 'openai/gpt-4o');
+			session.messages.push(userMessage('Fix the login bug\nDetails'));
+			await saveSessionToHistory(session);
+			const other = await createNewSession(otherDir, 'openai/gpt-4o');
+			await renameSession(otherDir, other.id, 'Other work');
+
+			// Saving more messages leaves the index alone; counts are read live
+			const indexFile = await fs.readFile(getSessionIndexPath(), 'utf-8');
+			session.messages.push(assistantMessage('Done'));
+			await saveSessionToHistory(session);
+			expect(await fs.readFile(getSessionIndexPath(), 'utf-8')).toBe(indexFile);
+
+			let indexed = await listIndexedSessions();
+			expect(indexed).toHaveLength(2);
+			expect(indexed.find(s => s.sessionId === session.id)).toMatchObject({
+				workingDirectory: testDir,
+				title: 'Fix the login bug',
+				messageCount: 2,
+				status: 'ok',
+			});
+			expect(indexed.find(s => s.sessionId === other.id)).toMatchObject({
+				workingDirectory: otherDir,
+				title: 'Other work',
+				status: 'ok',
+			});
+
+			await deleteSession(otherDir, other.id);
+			indexed = await listIndexedSessions();
+			expect(indexed.map(s => s.sessionId)).toEqual([session.id]);
+		});
+
+		it('should detect moved and deleted directories', async () => {
+			const projectDir = path.join(testDir, 'project');
+			const movedDir = path.join(testDir, 'moved');
+			const deletedDir = path.join(testDir, 'deleted');
+			await fs.mkdir(projectDir);
+			await fs.mkdir(deletedDir);
+
+			const session = await createNewSession(projectDir, 'openai/gpt-4o');
+			await createNewSession(deletedDir, 'openai/gpt-4o');
+			await fs.rm(deletedDir, {recursive: true});
+			await fs.rename(projectDir, movedDir);
+
+			let indexed = await listIndexedSessions();
+			expect(indexed.every(s => s.status === 'missing')).toBe(true);
+
+			// Using the session in its new location relocates the entry
+			await renameSession(movedDir, session.id, 'Moved project');
+			indexed = await listIndexedSessions();
+			const moved = indexed.find(s => s.sessionId === session.id);
+			expect(moved).toMatchObject({
+				workingDirectory: movedDir,
+				movedFrom: projectDir,
+				status: 'ok',
+			});
+			expect(indexed).toHaveLength(2);
+
+			expect(await pruneSessionIndex()).toBe(1);
+			indexed = await listIndexedSessions();
+			expect(indexed.map(s => s.sessionId)).toEqual([session.id]);
+		});
+	});
+});
@@ -0,0 +1,209 @@
+/**
+ * Unit tests for encryption at rest of config secrets and history
+ */
+
+import {describe, it, expect, beforeEach, afterEach} from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import {
+	createEncryptionSettings,
+	decryptString,
+	encryptString,
+	isEncrypted,
+	unlockEncryption,
+} from '../../../src/utils/encryption.js';
+import {
+	appendMessages,
+	encryptHistoryFile,
+	getCheckpointPath,
+	getConfigPath,
+	getHistoryPath,
+	getSessionIndexPath,
+	getSessionMetadataPath,
+	loadConfig,
+	loadSessionIndex,
+	loadSessionMetadata,
+	readHistory,
+	saveConfig,
+} from '../../../src/utils/storage.js';
+import {
+	encryptCheckpoints,
+	recordFileCheckpoint,
+	restoreCheckpoints,
+} from '../../../src/services/checkpoints.js';
+import {createNewSession, renameSession} from '../../../src/services/session.js';
+import {encryptStoredHistory} from '../../../src/services/config.js';
+import type {Configuration, Message} from '../../../src/types/index.js';
+import {DEFAULT_PREFERENCES} from '../../../src/types/index.js';
+
+function userMessage(id: string): Message {
+	return {id, role: 'user', content: `secret ${id}`, timestamp: new Date().toISOString()};
+}
+
+function testConfig(): Configuration {
+	return {
+		version: '1.0.0',
+		apiKey: 'sk-or-v1-abc123',
+		models: [{id: 'openai/gpt-4o', name: 'GPT-4o', enabled: true}],
+		preferences: {...DEFAULT_PREFERENCES},
+	};
+}
+
+describe('encryption at rest', () => {
+	let testDir: string;
+	const originalXdgConfigHome = process.env.XDG_CONFIG_HOME;
+	const originalPassphrase = process.env.YOLO_PASSPHRASE;
+
+	beforeEach(async () => {
+		testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'encryption-test-'));
+		process.env.XDG_CONFIG_HOME = path.join(testDir, 'config');
+		process.env.YOLO_PASSPHRASE = 'correct horse battery';
+	});
+
+	afterEach(async () => {
+		if (originalXdgConfigHome === undefined) {
+			delete process.env.XDG_CONFIG_HOME;
+		} else {
+			process.env.XDG_CONFIG_HOME = originalXdgConfigHome;
+		}
+
+		if (originalPassphrase === undefined) {
+			delete process.env.YOLO_PASSPHRASE;
+		} else {
+			process.env.YOLO_PASSPHRASE = originalPassphrase;
+		}
+
+		await fs.rm(testDir, {recursive: true, force: true});
+	});
+
+	it('should round-trip values and reject a wrong key', async () => {
+		const {settings, key} = await createEncryptionSettings(
+			Buffer.from('correct horse battery'),
+		);
+		const encrypted = encryptString('hello', key);
+
+		expect(isEncrypted(encrypted)).toBe(true);
+		expect(encrypted).not.toContain('hello');
+		expect(decryptString(encrypted, key)).toBe('hello');
+		expect(await unlockEncryption(settings)).toEqual(key);
+
+		process.env.YOLO_PASSPHRASE = 'wrong passphrase';
+		await expect(unlockEncryption(settings)).rejects.toThrow(/Wrong encryption key/);
+	});
+
+	it('should reject short passphrases', async () => {
+		await expect(createEncryptionSettings(Buffer.from('short'))).rejects.toThrow(
+			/at least 8 characters/,
+		);
+	});
+
+	it('should encrypt the API key and history transparently', async () => {
+		const {settings} = await createEncryptionSettings(
+			Buffer.from('correct horse battery'),
+		);
+		await saveConfig({...testConfig(), encryption: settings});
+
+		const stored = await fs.readFile(getConfigPath(), 'utf-8');
+		expect(stored).not.toContain('sk-or-v1-abc123');
+		expect((await loadConfig())?.apiKey).toBe('sk-or-v1-abc123');
+
+		// Rewriting the config without encryption settings keeps them
+		await saveConfig(testConfig());
+		expect((await loadConfig())?.encryption?.salt).toBe(settings.salt);
+
+		await appendMessages(testDir, [userMessage('a')], 'session-1');
+		const raw = await fs.readFile(getHistoryPath(testDir, 'session-1'), 'utf-8');
+		expect(raw).not.toContain('secret a');
+		expect((await readHistory(testDir, 'session-1')).map(m => m.content)).toEqual([
+			'secret a',
+		]);
+	});
+
+	it('should encrypt existing plaintext history files', async () => {
+		const historyPath = getHistoryPath(testDir, 'session-1');
+		await fs.mkdir(path.dirname(historyPath), {recursive: true});
+		await fs.writeFile(historyPath, `${JSON.stringify(userMessage('a'))}\n`);
+
+		const {settings} = await createEncryptionSettings(
+			Buffer.from('correct horse battery'),
+		);
+		await saveConfig({...testConfig(), encryption: settings});
+
+		expect(await encryptHistoryFile(testDir, 'session-1')).toBe(true);
+		expect(await encryptHistoryFile(testDir, 'session-1')).toBe(false);
+		expect(await fs.readFile(historyPath, 'utf-8')).not.toContain('secret a');
+		expect(await readHistory(testDir, 'session-1')).toHaveLength(1);
+	});
+
+	it('should encrypt checkpoint contents, including existing ones', async () => {
+		const file = path.join(testDir, 'notes.txt');
+		await fs.writeFile(file, 'secret notes');
+		await recordFileCheckpoint(testDir, {sessionId: 'session-1', messageId: 'user-1'}, file);
+
+		const {settings} = await createEncryptionSettings(
+			Buffer.from('correct horse battery'),
+		);
+		await saveConfig({...testConfig(), encryption: settings});
+		await recordFileCheckpoint(testDir, {sessionId: 'session-1', messageId: 'user-2'}, file);
+
+		expect(await encryptCheckpoints(testDir)).toBe(1);
+		expect(await encryptCheckpoints(testDir)).toBe(0);
+		const plaintext = Buffer.from('secret notes').toString('base64');
+		for (const messageId of ['user-1', 'user-2']) {
+			const raw = await fs.readFile(getCheckpointPath(testDir, messageId), 'utf-8');
+			expect(raw).not.toContain(plaintext);
+		}
+
+		await fs.writeFile(file, 'changed');
+		await restoreCheckpoints(testDir, ['user-1', 'user-2']);
+		expect(await fs.readFile(file, 'utf-8')).toBe('secret notes');
+	});
+
+	it('should encrypt session titles in metadata and the session index', async () => {
+		const session = await createNewSession(testDir, 'openai/gpt-4o');
+		await renameSession(testDir, session.id, 'secret project');
+
+		const {settings} = await createEncryptionSettings(
+			Buffer.from('correct horse battery'),
+		);
+		await saveConfig({...testConfig(), encryption: settings});
+		const {sessionMetadataFiles} = await encryptStoredHistory(testDir);
+
+		expect(sessionMetadataFiles).toBe(1);
+		expect(await fs.readFile(getSessionMetadataPath(testDir), 'utf-8')).not.toContain(
+			'secret project',
+		);
+		expect(await fs.readFile(getSessionIndexPath(), 'utf-8')).not.toContain(
+			'secret project',
+		);
+		expect((await loadSessionMetadata(testDir))?.sessions[0]?.title).toBe('secret project');
+		expect((await loadSessionIndex()).sessions[0]?.title).toBe('secret project');
+
+		await renameSession(testDir, session.id, 'another secret');
+		expect(await fs.readFile(getSessionMetadataPath(testDir), 'utf-8')).not.toContain(
+			'another secret',
+		);
+		expect((await loadSessionIndex()).sessions[0]?.title).toBe('another secret');
+	});
+
+	it('should fail loudly when the passphrase is wrong', async () => {
+		const {settings} = await createEncryptionSettings(
+			Buffer.from('correct horse battery'),
+		);
+		await saveConfig({...testConfig(), encryption: settings});
+		await appendMessages(testDir, [userMessage('a')], 'session-1');
+
+		// A new config dir path forces the key to be derived again
+		const configDir = path.join(testDir, 'config');
+		const movedConfigDir = path.join(testDir, 'other-config');
+		await fs.rename(configDir, movedConfigDir);
+		process.env.XDG_CONFIG_HOME = movedConfigDir;
+		process.env.YOLO_PASSPHRASE = 'wrong passphrase';
+
+		await expect(loadConfig()).rejects.toThrow(/Wrong encryption key/);
+		await expect(readHistory(testDir, 'session-1')).rejects.toThrow(
+			/Wrong encryption key/,
+		);
+	});
+});
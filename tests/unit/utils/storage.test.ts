@@ -0,0 +1,271 @@
+/**
+ * Unit tests for file locking and metadata updates in storage utilities
+ */
+
+import {describe, it, expect, beforeEach, afterEach} from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import {
+	appendMessages,
+	fileExists,
+	getHistoryPath,
+	loadSessionMetadata,
+	readRawHistory,
+	rewriteHistory,
+	rotateHistory,
+	upsertMessage,
+	updateSessionMetadata,
+	withFileLock,
+} from '../../../src/utils/storage.js';
+import type {Message, SessionInfo} from '../../../src/types/index.js';
+
+function userMessage(id: string): Message {
+	return {id, role: 'user', content: id, timestamp: new Date().toISOString()};
+}
+
+function sessionInfo(id: string): SessionInfo {
+	const now = new Date().toISOString();
+	return {
+		id,
+		createdAt: now,
+		lastActivity: now,
+		messageCount: 0,
+		model: 'openai/gpt-4o',
+		historyFile: `history-${id}.jsonl`,
+	};
+}
+
+describe('storage utilities - locking', () => {
+	let testDir: string;
+
+	beforeEach(async () => {
+		testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'storage-test-'));
+	});
+
+	afterEach(async () => {
+		await fs.rm(testDir, {recursive: true, force: true});
+	});
+
+	describe('withFileLock', () => {
+		it('should run critical sections one at a time', async () => {
+			const file = path.join(testDir, 'counter.txt');
+			await fs.writeFile(file, '0');
+
+			const increment = async () =>
+				withFileLock(file, async () => {
+					const value = Number(await fs.readFile(file, 'utf-8'));
+					await new Promise(resolve => setTimeout(resolve, 5));
+					await fs.writeFile(file, String(value + 1));
+				});
+
+			await Promise.all([increment(), increment(), increment()]);
+
+			expect(await fs.readFile(file, 'utf-8')).toBe('3');
+			expect(fileExists(`${file}.lock`)).toBe(false);
+		});
+
+		it('should release the lock when the function throws', async () => {
+			const file = path.join(testDir, 'data.json');
+
+			await expect(
+				withFileLock(file, async () => {
+					throw new Error('boom');
+				}),
+			).rejects.toThrow('boom');
+
+			expect(fileExists(`${file}.lock`)).toBe(false);
+		});
+
+		it('should break a lock left by a process that no longer runs', async () => {
+			const file = path.join(testDir, 'data.json');
+			await fs.writeFile(
+				`${file}.lock`,
+				JSON.stringify({
+					pid: 2 ** 22 + 1, // Above the Linux pid limit, so never running
+					hostname: os.hostname(),
+					acquiredAt: new Date().toISOString(),
+				}),
+			);
+
+			const result = await withFileLock(file, async () => 'acquired');
+
+			expect(result).toBe('acquired');
+		});
+
+		it('should break a lock from another host older than the stale timeout', async () => {
+			const file = path.join(testDir, 'data.json');
+			const lockPath = `${file}.lock`;
+			await fs.writeFile(
+				lockPath,
+				JSON.stringify({pid: process.pid, hostname: 'elsewhere', acquiredAt: ''}),
+			);
+			const old = new Date(Date.now() - 60_000);
+			await fs.utimes(lockPath, old, old);
+
+			expect(await withFileLock(file, async () => 'acquired')).toBe('acquired');
+		});
+
+		it('should wait for an old lock held by a running process on this host', async () => {
+			const file = path.join(testDir, 'data.json');
+			const lockPath = `${file}.lock`;
+			await fs.writeFile(
+				lockPath,
+				JSON.stringify({pid: process.pid, hostname: os.hostname(), acquiredAt: ''}),
+			);
+			const old = new Date(Date.now() - 60_000);
+			await fs.utimes(lockPath, old, old);
+			setTimeout(() => {
+				void fs.rm(lockPath, {force: true});
+			}, 200);
+
+			const started = Date.now();
+			await withFileLock(file, async () => undefined);
+
+			expect(Date.now() - started).toBeGreaterThanOrEqual(150);
+		});
+
+		it('should leave a lock alone that another process took over', async () => {
+			const file = path.join(testDir, 'data.json');
+			const lockPath = `${file}.lock`;
+			const takeover = JSON.stringify({
+				pid: process.pid,
+				hostname: os.hostname(),
+				acquiredAt: '',
+				token: 'other',
+			});
+
+			await withFileLock(file, async () => {
+				await fs.writeFile(lockPath, takeover);
+			});
+
+			expect(await fs.readFile(lockPath, 'utf8')).toBe(takeover);
+		});
+	});
+
+	describe('updateSessionMetadata', () => {
+		it('should keep concurrent changes from every writer', async () => {
+			await updateSessionMetadata(testDir, () => ({
+				version: '1.0.0',
+				currentSessionId: 'a',
+				lastUpdated: new Date().toISOString(),
+				sessions: [],
+			}));
+
+			await Promise.all(
+				['a', 'b', 'c', 'd'].map(async id =>
+					updateSessionMetadata(testDir, metadata => {
+						metadata?.sessions.push(sessionInfo(id));
+						return metadata;
+					}),
+				),
+			);
+
+			const metadata = await loadSessionMetadata(testDir);
+			expect(metadata?.sessions.map(s => s.id).sort()).toEqual(['a', 'b', 'c', 'd']);
+		});
+
+		it('should not write when the update returns null', async () => {
+			await updateSessionMetadata(testDir, () => null);
+
+			expect(await loadSessionMetadata(testDir)).toBeNull();
+		});
+	});
+
+	describe('appendMessages', () => {
+		it('should append only messages not yet in the file', async () => {
+			const first = await appendMessages(testDir, [userMessage('a')], 's1');
+			const second = await appendMessages(
+				testDir,
+				[userMessage('a'), userMessage('b'), userMessage('b')],
+				's1',
+			);
+
+			expect(first.map(m => m.id)).toEqual(['a']);
+			expect(second.map(m => m.id)).toEqual(['b']);
+			expect((await readRawHistory(testDir, 's1')).map(m => m.id)).toEqual(['a', 'b']);
+		});
+
+		it('should notice messages written by another process', async () => {
+			await appendMessages(testDir, [userMessage('a')], 's1');
+			await fs.appendFile(
+				getHistoryPath(testDir, 's1'),
+				JSON.stringify(userMessage('b')) + '\n',
+			);
+
+			const appended = await appendMessages(testDir, [userMessage('b')], 's1');
+
+			expect(appended).toEqual([]);
+			expect(await readRawHistory(testDir, 's1')).toHaveLength(2);
+		});
+
+		it('should write messages again after the file is rewritten', async () => {
+			await appendMessages(testDir, [userMessage('a'), userMessage('b')], 's1');
+			await rewriteHistory(testDir, [userMessage('a')], 's1');
+
+			const appended = await appendMessages(testDir, [userMessage('b')], 's1');
+
+			expect(appended.map(m => m.id)).toEqual(['b']);
+			expect(fileExists(`${getHistoryPath(testDir, 's1')}.${process.pid}.tmp`)).toBe(false);
+		});
+	});
+
+	describe('upsertMessage', () => {
+		it('should append new messages and replace stored ones in place', async () => {
+			await appendMessages(testDir, [userMessage('a'), userMessage('b')], 's1');
+
+			expect(await upsertMessage(testDir, {...userMessage('a'), content: 'edited'}, 's1')).toBe(false);
+			expect(await upsertMessage(testDir, userMessage('c'), 's1')).toBe(true);
+
+			const messages = await readRawHistory(testDir, 's1');
+			expect(messages.map(m => m.content)).toEqual(['edited', 'b', 'c']);
+		});
+
+		it('should append streaming copies and collapse them once finished', async () => {
+			const historyPath = getHistoryPath(testDir, 's1');
+			await appendMessages(testDir, [userMessage('a')], 's1');
+			for (const content of ['Hel', 'Hello', 'Hello there']) {
+				await upsertMessage(
+					testDir,
+					{...userMessage('b'), content, metadata: {interrupted: true}},
+					's1',
+				);
+			}
+
+			const lineCount = async () =>
+				(await fs.readFile(historyPath, 'utf-8')).trim().split('\n').length;
+			expect(await lineCount()).toBe(4);
+			expect((await readRawHistory(testDir, 's1')).map(m => m.content)).toEqual([
+				'a',
+				'Hello there',
+			]);
+
+			await upsertMessage(testDir, {...userMessage('b'), content: 'Hello there!'}, 's1');
+			expect(await lineCount()).toBe(2);
+			expect((await readRawHistory(testDir, 's1')).map(m => m.content)).toEqual([
+				'a',
+				'Hello there!',
+			]);
+
+			await appendMessages(testDir, [userMessage('c')], 's1');
+			await rotateHistory(testDir, 1, 's1');
+			expect(await lineCount()).toBe(1);
+		});
+	});
+
+	describe('rotateHistory', () => {
+		it('should keep pinned messages from the trimmed part', async () => {
+			const messages = ['a', 'b', 'c', 'd', 'e', 'f'].map(userMessage);
+			messages[1].metadata = {pinned: true};
+			await appendMessages(testDir, messages, 's1');
+
+			expect(await rotateHistory(testDir, 3, 's1')).toBe(2);
+			expect((await readRawHistory(testDir, 's1')).map(m => m.id)).toEqual([
+				'b',
+				'd',
+				'e',
+				'f',
+			]);
+		});
+	});
+});
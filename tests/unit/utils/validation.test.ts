@@ -5,10 +5,15 @@
 import {describe, it, expect} from 'vitest';
 import {
 	validateApiKey,
+	validateConfig,
 	isValidISODate,
 	isValidUUID,
 	sanitizeInput,
+	validateMessage,
+	MAX_MESSAGE_LENGTH,
+	validateMessageAlternation,
 } from '../../../src/utils/validation.js';
+import {DEFAULT_PREFERENCES} from '../../../src/types/index.js';
 
 describe('Validation Utilities', () => {
 	describe('validateApiKey', () => {
@@ -56,4 +61,108 @@ describe('Validation Utilities', () => {
 			expect(sanitizeInput('  test  ')).toBe('test');
 		});
 	});
+
+	describe('validateMessage', () => {
+		const base = {id: 'm1', timestamp: '2026-01-01T10:00:00.000Z'};
+
+		it('should accept assistant tool calls with empty content', () => {
+			expect(
+				validateMessage({
+					...base,
+					role: 'assistant',
+					content: '',
+					model: 'openai/gpt-4o',
+					metadata: {
+						toolCalls: [
+							{id: 'c1', type: 'function', function: {name: 'bash', arguments: '{}'}},
+						],
+					},
+				}),
+			).toBe(true);
+			expect(
+				validateMessage({...base, role: 'assistant', content: '', model: 'openai/gpt-4o'}),
+			).toBe(false);
+		});
+
+		it('should require a tool call ID on tool results', () => {
+			expect(
+				validateMessage({...base, role: 'tool', content: 'ok', metadata: {toolCallId: 'c1'}}),
+			).toBe(true);
+			expect(validateMessage({...base, role: 'tool', content: 'ok'})).toBe(false);
+		});
+
+		it('should accept tool output as large as yolo produces', () => {
+			const content = 'x'.repeat(2000).concat('\n').repeat(1000);
+			expect(
+				validateMessage({...base, role: 'tool', content, metadata: {toolCallId: 'c1'}}),
+			).toBe(true);
+			expect(
+				validateMessage({...base, role: 'user', content: 'x'.repeat(MAX_MESSAGE_LENGTH + 1)}),
+			).toBe(false);
+		});
+
+		it('should accept millisecond timestamps', () => {
+			expect(
+				validateMessage({id: 'm1', role: 'user', content: 'hi', timestamp: 1767261600000}),
+			).toBe(true);
+		});
+	});
+
+	describe('validateMessageAlternation', () => {
+		const message = (role: 'user' | 'assistant' | 'system' | 'tool') => ({
+			id: role,
+			role,
+			content: 'x',
+			timestamp: '2026-01-01T10:00:00.000Z',
+		});
+
+		it('should allow a leading system prompt and tool results after assistants', () => {
+			expect(
+				validateMessageAlternation([
+					message('system'),
+					message('user'),
+					message('assistant'),
+					message('tool'),
+					message('assistant'),
+				]),
+			).toBe(true);
+		});
+
+		it('should reject consecutive user messages and stray tool results', () => {
+			expect(validateMessageAlternation([message('user'), message('user')])).toBe(false);
+			expect(validateMessageAlternation([message('user'), message('tool')])).toBe(false);
+		});
+	});
+
+	describe('validateConfig', () => {
+		const config = {
+			version: '1.0.0',
+			apiKey: 'sk-or-v1-abc123',
+			providers: [
+				{name: 'ollama', type: 'openai-compatible', baseUrl: 'http://localhost:11434/v1'},
+			],
+			models: [
+				{id: 'openai/gpt-4o', name: 'GPT-4o', enabled: true},
+				{id: 'llama3.1:8b', name: 'Llama 3.1 8B', enabled: true, provider: 'ollama'},
+			],
+			preferences: {...DEFAULT_PREFERENCES},
+		};
+
+		it('should accept models served by configured providers', () => {
+			expect(validateConfig(config)).toBe(true);
+		});
+
+		it('should reject unknown providers and providers without an endpoint', () => {
+			expect(validateConfig({...config, providers: []})).toBe(false);
+			expect(
+				validateConfig({...config, providers: [{name: 'ollama', type: 'openai-compatible'}]}),
+			).toBe(false);
+			expect(
+				validateConfig({
+					...config,
+					providers: [...config.providers, ...config.providers],
+				}),
+			).toBe(false);
+		});
+	});
 });